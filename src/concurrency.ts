@@ -0,0 +1,36 @@
+// ABOUTME: Bounded-concurrency helpers for running many async operations
+// ABOUTME: Keeps at most N operations in flight and preserves result order
+
+// Number of TiddlyWiki write requests in flight for multi-tiddler operations
+export const WRITE_CONCURRENCY = 4;
+
+// Number of TiddlyWiki read requests in flight when fetching many tiddlers
+export const READ_CONCURRENCY = 4;
+
+/**
+ * Run fn over items with at most `limit` calls in flight, like Promise.allSettled.
+ * Results are returned in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
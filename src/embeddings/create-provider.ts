@@ -0,0 +1,63 @@
+// ABOUTME: Builds the configured embedding provider from environment variables
+// ABOUTME: Selects Ollama or an OpenAI-compatible server and applies prefix overrides
+
+import * as logger from '../logger.js';
+import { NOMIC_PREFIXES, OllamaClient } from './ollama-client.js';
+import { OpenAICompatibleClient } from './openai-client.js';
+import type { EmbeddingPrefixes, EmbeddingProvider } from './provider.js';
+
+export const EMBEDDING_PROVIDERS = ['ollama', 'openai'] as const;
+
+const DEFAULT_MODEL = 'nomic-embed-text';
+
+/**
+ * Resolve task prefixes: explicit env values win (an empty string disables a prefix),
+ * otherwise the provider's defaults apply.
+ */
+function resolvePrefixes(env: NodeJS.ProcessEnv, defaults: EmbeddingPrefixes): EmbeddingPrefixes {
+  return {
+    query: env.EMBEDDINGS_QUERY_PREFIX ?? defaults.query,
+    document: env.EMBEDDINGS_DOCUMENT_PREFIX ?? defaults.document,
+  };
+}
+
+/**
+ * Create the embedding provider selected by EMBEDDINGS_PROVIDER (default: ollama).
+ *
+ * - ollama: OLLAMA_URL, OLLAMA_MODEL; nomic-embed-text prefixes by default
+ * - openai: EMBEDDINGS_URL (required), EMBEDDINGS_MODEL, EMBEDDINGS_API_KEY; no prefixes by default
+ *
+ * EMBEDDINGS_QUERY_PREFIX / EMBEDDINGS_DOCUMENT_PREFIX override the prefixes for either provider.
+ */
+export function createEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const providerName = env.EMBEDDINGS_PROVIDER || 'ollama';
+
+  switch (providerName) {
+    case 'ollama': {
+      const url = env.OLLAMA_URL || 'http://localhost:11434';
+      const model = env.EMBEDDINGS_MODEL || env.OLLAMA_MODEL || DEFAULT_MODEL;
+      logger.debug(`[Embeddings] Provider: ollama (${url}, model ${model})`);
+      return new OllamaClient(url, model, resolvePrefixes(env, NOMIC_PREFIXES));
+    }
+
+    case 'openai': {
+      const url = env.EMBEDDINGS_URL;
+      if (!url) {
+        throw new Error('EMBEDDINGS_URL is required when EMBEDDINGS_PROVIDER=openai');
+      }
+      const model = env.EMBEDDINGS_MODEL || DEFAULT_MODEL;
+      logger.debug(`[Embeddings] Provider: openai (${url}, model ${model})`);
+      return new OpenAICompatibleClient({
+        serviceUrl: url,
+        model,
+        apiKey: env.EMBEDDINGS_API_KEY || undefined,
+        prefixes: resolvePrefixes(env, { query: '', document: '' }),
+      });
+    }
+
+    default:
+      throw new Error(
+        `Invalid EMBEDDINGS_PROVIDER: ${providerName}. Use one of: ${EMBEDDING_PROVIDERS.join(', ')}`
+      );
+  }
+}
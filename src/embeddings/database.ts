@@ -4,6 +4,10 @@
 import Database from 'better-sqlite3';
 import * as sqliteVec from 'sqlite-vec';
 
+// Defaults match nomic-embed-text, the model the index was originally built for
+export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+export const DEFAULT_EMBEDDING_DIMENSION = 768;
+
 export interface EmbeddingMetadata {
   created: string;
   modified: string;
@@ -20,6 +24,50 @@ export interface SearchResult {
   distance: number;
 }
 
+export interface KeywordSearchResult {
+  tiddler_title: string;
+  chunk_id: number;
+  chunk_text: string;
+  created: string;
+  modified: string;
+  tags: string;
+  bm25: number; // Lower (more negative) is a better match
+}
+
+export interface EmbeddingsDBOptions {
+  /** Embedding model the vectors are produced by */
+  model?: string;
+  /** Vector length produced by the model */
+  dimension?: number;
+  /** What to do when the stored index was built with a different model or dimension */
+  onModelChange?: 'rebuild' | 'fail';
+}
+
+export interface IndexInfo {
+  model: string;
+  dimension: number;
+}
+
+/**
+ * Thrown when the stored index was built with a different model or dimension
+ * and the database is configured not to rebuild it
+ */
+export class EmbeddingModelMismatchError extends Error {
+  readonly stored: { model: string | null; dimension: number };
+  readonly configured: IndexInfo;
+
+  constructor(stored: { model: string | null; dimension: number }, configured: IndexInfo) {
+    super(
+      `Embeddings index was built with ${stored.model ?? 'an unknown model'} (${stored.dimension} dimensions) ` +
+        `but ${configured.model} (${configured.dimension} dimensions) is configured. ` +
+        `Set EMBEDDINGS_ON_MODEL_CHANGE=rebuild to re-index, or restore the previous model settings.`
+    );
+    this.name = 'EmbeddingModelMismatchError';
+    this.stored = stored;
+    this.configured = configured;
+  }
+}
+
 export interface SyncStatus {
   tiddler_title: string;
   last_modified: string;
@@ -32,9 +80,17 @@ export interface SyncStatus {
 export class EmbeddingsDB {
   private db: Database.Database;
   private dbPath: string;
+  private indexInfo: IndexInfo;
 
-  constructor(dbPath: string = process.env.EMBEDDINGS_DB_PATH || './embeddings.db') {
+  constructor(
+    dbPath: string = process.env.EMBEDDINGS_DB_PATH || './embeddings.db',
+    options: EmbeddingsDBOptions = {}
+  ) {
     this.dbPath = dbPath;
+    this.indexInfo = {
+      model: options.model ?? DEFAULT_EMBEDDING_MODEL,
+      dimension: options.dimension ?? DEFAULT_EMBEDDING_DIMENSION,
+    };
     this.db = new Database(dbPath);
 
     // Load sqlite-vec extension
@@ -48,13 +104,24 @@ export class EmbeddingsDB {
 
     // Add status tracking columns if they don't exist
     this.migrateAddStatusColumns();
+
+    // Create and backfill the full-text index if it doesn't exist
+    this.migrateAddFullTextIndex();
+
+    // Create the vector table, or check it matches the configured model
+    try {
+      this.ensureVectorIndex(options.onModelChange ?? 'rebuild');
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
   }
 
   private initSchema() {
-    // Create vec0 virtual table for embeddings (vectors only)
     this.db.exec(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS entry_embeddings USING vec0(
-        embedding float[768]
+      CREATE TABLE IF NOT EXISTS index_info (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
       );
 
       CREATE TABLE IF NOT EXISTS embedding_metadata (
@@ -126,6 +193,139 @@ export class EmbeddingsDB {
     }
   }
 
+  /**
+   * Add an FTS5 full-text index over chunk titles and text
+   * Enables BM25 keyword ranking alongside vector similarity (hybrid search)
+   */
+  private migrateAddFullTextIndex(): void {
+    const exists = this.db
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'embedding_fts'`)
+      .get();
+
+    if (!exists) {
+      this.db.exec(`
+        CREATE VIRTUAL TABLE embedding_fts USING fts5(
+          tiddler_title,
+          chunk_text,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        INSERT INTO embedding_fts(rowid, tiddler_title, chunk_text)
+          SELECT id, tiddler_title, chunk_text FROM embedding_metadata;
+      `);
+
+      const { count } = this.db.prepare('SELECT COUNT(*) as count FROM embedding_fts').get() as {
+        count: number;
+      };
+      if (count > 0) {
+        console.log(`[DB Migration] Built full-text index for ${count} existing chunks`);
+      }
+    }
+  }
+
+  /**
+   * Create the vec0 table with the configured dimension, or verify an existing one.
+   * Indexes created before model tracking are assumed to belong to the configured model
+   * if their dimension matches. A mismatch either clears the index (the sync worker then
+   * re-indexes every tiddler) or throws, so vectors from different models are never mixed.
+   */
+  private ensureVectorIndex(onModelChange: 'rebuild' | 'fail'): void {
+    const configured = this.indexInfo;
+    const storedDimension = this.getStoredDimension();
+
+    if (storedDimension === null) {
+      this.createVectorTable();
+      this.saveIndexInfo();
+      return;
+    }
+
+    const storedModel = this.getInfoValue('model');
+    const mismatch =
+      storedDimension !== configured.dimension ||
+      (storedModel !== null && storedModel !== configured.model);
+
+    if (mismatch) {
+      const stored = { model: storedModel, dimension: storedDimension };
+      if (onModelChange === 'fail') {
+        throw new EmbeddingModelMismatchError(stored, configured);
+      }
+
+      console.log(
+        `[DB Migration] Embedding model changed from ${storedModel ?? 'unknown'} (${storedDimension}d) ` +
+          `to ${configured.model} (${configured.dimension}d), clearing index for a full re-index`
+      );
+      this.db.transaction(() => {
+        this.db.exec(`
+          DROP TABLE entry_embeddings;
+          DELETE FROM embedding_metadata;
+          DELETE FROM embedding_fts;
+          DELETE FROM sync_status;
+        `);
+        this.createVectorTable();
+      })();
+    }
+
+    this.saveIndexInfo();
+  }
+
+  private createVectorTable(): void {
+    // vec0 virtual table for embeddings (vectors only, metadata lives in embedding_metadata)
+    this.db.exec(`
+      CREATE VIRTUAL TABLE entry_embeddings USING vec0(
+        embedding float[${this.indexInfo.dimension}]
+      );
+    `);
+  }
+
+  /**
+   * Dimension of the existing vector table, read from its definition. Null if there is none.
+   */
+  private getStoredDimension(): number | null {
+    const row = this.db
+      .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'entry_embeddings'`)
+      .get() as { sql: string } | undefined;
+    if (!row) {
+      return null;
+    }
+    const match = row.sql.match(/float\[(\d+)\]/);
+    if (!match) {
+      throw new Error(`Unrecognised entry_embeddings definition: ${row.sql}`);
+    }
+    return parseInt(match[1], 10);
+  }
+
+  private getInfoValue(key: string): string | null {
+    const row = this.db.prepare('SELECT value FROM index_info WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value ?? null;
+  }
+
+  private saveIndexInfo(): void {
+    const stmt = this.db.prepare('INSERT OR REPLACE INTO index_info(key, value) VALUES (?, ?)');
+    stmt.run('model', this.indexInfo.model);
+    stmt.run('dimension', String(this.indexInfo.dimension));
+  }
+
+  /**
+   * Model and dimension the vector index is built for
+   */
+  getIndexInfo(): IndexInfo {
+    return { ...this.indexInfo };
+  }
+
+  /**
+   * Reject vectors that don't match the index, with a hint instead of sqlite-vec's error
+   */
+  private assertDimension(embedding: number[]): void {
+    if (embedding.length !== this.indexInfo.dimension) {
+      throw new Error(
+        `Embedding has ${embedding.length} dimensions but the index expects ${this.indexInfo.dimension}. ` +
+          `Set EMBEDDINGS_DIMENSION=${embedding.length} for ${this.indexInfo.model}.`
+      );
+    }
+  }
+
   insertEmbedding(
     tiddlerTitle: string,
     chunkId: number,
@@ -133,6 +333,7 @@ export class EmbeddingsDB {
     chunkText: string,
     metadata: EmbeddingMetadata
   ): void {
+    this.assertDimension(embedding);
     const embeddingArray = new Float32Array(embedding);
 
     // Insert embedding into vec0 table
@@ -157,11 +358,40 @@ export class EmbeddingsDB {
       metadata.modified,
       metadata.tags
     );
+
+    // Keep the full-text index in step with the metadata table
+    const ftsStmt = this.db.prepare(`
+      INSERT INTO embedding_fts(rowid, tiddler_title, chunk_text)
+      VALUES (?, ?, ?)
+    `);
+    ftsStmt.run(rowid, tiddlerTitle, chunkText);
   }
 
-  searchSimilar(queryEmbedding: number[], limit: number = 10): SearchResult[] {
+  /**
+   * Find the chunks nearest to the query embedding.
+   * When tiddlerTitles is given, the KNN search is restricted to those tiddlers' chunks,
+   * so a selective filter still yields up to `limit` results.
+   */
+  searchSimilar(
+    queryEmbedding: number[],
+    limit: number = 10,
+    tiddlerTitles?: string[]
+  ): SearchResult[] {
+    this.assertDimension(queryEmbedding);
     const embeddingArray = new Float32Array(queryEmbedding);
 
+    if (tiddlerTitles !== undefined && tiddlerTitles.length === 0) {
+      return [];
+    }
+
+    const titleRestriction =
+      tiddlerTitles !== undefined
+        ? `AND e.rowid IN (
+            SELECT id FROM embedding_metadata
+            WHERE tiddler_title IN (SELECT value FROM json_each(?))
+          )`
+        : '';
+
     const stmt = this.db.prepare(`
       SELECT
         m.tiddler_title,
@@ -175,9 +405,105 @@ export class EmbeddingsDB {
       JOIN embedding_metadata m ON e.rowid = m.id
       WHERE e.embedding MATCH ?
         AND k = ?
+        ${titleRestriction}
+    `);
+
+    const params: unknown[] = [Buffer.from(embeddingArray.buffer), limit];
+    if (tiddlerTitles !== undefined) {
+      params.push(JSON.stringify(tiddlerTitles));
+    }
+
+    return stmt.all(...params) as SearchResult[];
+  }
+
+  /**
+   * Read back the stored chunk vectors for a tiddler, in chunk order.
+   * Returns an empty array if the tiddler isn't indexed.
+   */
+  getTiddlerEmbeddings(tiddlerTitle: string): Float32Array[] {
+    return this.getEmbeddingsByTiddler([tiddlerTitle]).get(tiddlerTitle) ?? [];
+  }
+
+  /**
+   * Read back the stored chunk vectors of many tiddlers (all indexed tiddlers when
+   * tiddlerTitles is omitted), keyed by title with each tiddler's chunks in order.
+   */
+  getEmbeddingsByTiddler(tiddlerTitles?: string[]): Map<string, Float32Array[]> {
+    const titleRestriction =
+      tiddlerTitles !== undefined
+        ? 'WHERE m.tiddler_title IN (SELECT value FROM json_each(?))'
+        : '';
+    const stmt = this.db.prepare(`
+      SELECT m.tiddler_title, e.embedding
+      FROM embedding_metadata m
+      JOIN entry_embeddings e ON e.rowid = m.id
+      ${titleRestriction}
+      ORDER BY m.tiddler_title, m.chunk_id
     `);
+    const rows = (
+      tiddlerTitles !== undefined ? stmt.all(JSON.stringify(tiddlerTitles)) : stmt.all()
+    ) as Array<{ tiddler_title: string; embedding: Buffer }>;
+
+    const byTitle = new Map<string, Float32Array[]>();
+    for (const { tiddler_title, embedding } of rows) {
+      const vector = new Float32Array(
+        embedding.buffer,
+        embedding.byteOffset,
+        embedding.byteLength / Float32Array.BYTES_PER_ELEMENT
+      );
+      const vectors = byTitle.get(tiddler_title);
+      if (vectors) {
+        vectors.push(vector);
+      } else {
+        byTitle.set(tiddler_title, [vector]);
+      }
+    }
+    return byTitle;
+  }
 
-    return stmt.all(Buffer.from(embeddingArray.buffer), limit) as SearchResult[];
+  /**
+   * Full-text search over indexed chunks, ranked by BM25 (title matches weigh double).
+   * The query is treated as plain words, any of which may match; FTS5 syntax is not interpreted.
+   * When tiddlerTitles is given, only those tiddlers' chunks are searched.
+   */
+  searchKeyword(
+    query: string,
+    limit: number = 10,
+    tiddlerTitles?: string[]
+  ): KeywordSearchResult[] {
+    const terms = query.match(/[\p{L}\p{N}_]+/gu) || [];
+    if (terms.length === 0 || (tiddlerTitles !== undefined && tiddlerTitles.length === 0)) {
+      return [];
+    }
+    const matchExpression = terms.map((term) => `"${term}"`).join(' OR ');
+
+    const titleRestriction =
+      tiddlerTitles !== undefined ? 'AND m.tiddler_title IN (SELECT value FROM json_each(?))' : '';
+
+    const stmt = this.db.prepare(`
+      SELECT
+        m.tiddler_title,
+        m.chunk_id,
+        m.chunk_text,
+        m.created,
+        m.modified,
+        m.tags,
+        bm25(embedding_fts, 2.0, 1.0) as bm25
+      FROM embedding_fts f
+      JOIN embedding_metadata m ON f.rowid = m.id
+      WHERE embedding_fts MATCH ?
+        ${titleRestriction}
+      ORDER BY bm25
+      LIMIT ?
+    `);
+
+    const params: unknown[] = [matchExpression];
+    if (tiddlerTitles !== undefined) {
+      params.push(JSON.stringify(tiddlerTitles));
+    }
+    params.push(limit);
+
+    return stmt.all(...params) as KeywordSearchResult[];
   }
 
   updateSyncStatus(
@@ -261,13 +587,17 @@ export class EmbeddingsDB {
     `);
     deleteMetadata.run(tiddlerTitle);
 
-    // Delete from entry_embeddings using rowids
+    // Delete from entry_embeddings and the full-text index using rowids
     if (rows.length > 0) {
       const deleteEmbeddings = this.db.prepare(`
         DELETE FROM entry_embeddings WHERE rowid = ?
       `);
+      const deleteFullText = this.db.prepare(`
+        DELETE FROM embedding_fts WHERE rowid = ?
+      `);
       for (const row of rows) {
         deleteEmbeddings.run(row.id);
+        deleteFullText.run(row.id);
       }
     }
 
@@ -278,6 +608,33 @@ export class EmbeddingsDB {
     deleteSyncStatus.run(tiddlerTitle);
   }
 
+  /**
+   * Move a tiddler's embeddings and sync status to a new title without re-embedding.
+   * Any rows already stored under the new title are replaced. Returns false if nothing was indexed.
+   */
+  renameTiddler(oldTitle: string, newTitle: string, lastModified: string): boolean {
+    if (!this.getSyncStatus(oldTitle)) {
+      return false;
+    }
+
+    this.db.transaction(() => {
+      this.deleteEmbeddingsForTiddler(newTitle);
+      this.db
+        .prepare('UPDATE embedding_metadata SET tiddler_title = ? WHERE tiddler_title = ?')
+        .run(newTitle, oldTitle);
+      this.db
+        .prepare('UPDATE embedding_fts SET tiddler_title = ? WHERE tiddler_title = ?')
+        .run(newTitle, oldTitle);
+      this.db
+        .prepare(
+          'UPDATE sync_status SET tiddler_title = ?, last_modified = ? WHERE tiddler_title = ?'
+        )
+        .run(newTitle, lastModified, oldTitle);
+    })();
+
+    return true;
+  }
+
   getEmbeddingsCount(): number {
     const stmt = this.db.prepare(`
       SELECT COUNT(*) as count FROM entry_embeddings
@@ -0,0 +1,127 @@
+// ABOUTME: Embedding provider for OpenAI-compatible /v1/embeddings endpoints
+// ABOUTME: Works with llama.cpp server, vLLM, LocalAI and similar local servers
+
+import * as logger from '../logger.js';
+import { getServiceUrl } from '../service-discovery.js';
+import { BaseEmbeddingProvider, EmbeddingPrefixes, fetchWithTimeout } from './provider.js';
+
+// Timeout configuration (in milliseconds)
+const TIMEOUT_EMBEDDINGS = 120000; // 120 seconds for embeddings (can be slow)
+const TIMEOUT_HEALTH = 10000; // 10 seconds for health check
+
+interface OpenAIEmbeddingsResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+  model?: string;
+}
+
+export interface OpenAICompatibleConfig {
+  /** Server URL, with or without the trailing /v1 (e.g. http://localhost:8080) */
+  serviceUrl: string;
+  model: string;
+  /** Sent as a Bearer token when set */
+  apiKey?: string;
+  prefixes?: EmbeddingPrefixes;
+}
+
+export class OpenAICompatibleClient extends BaseEmbeddingProvider {
+  readonly name = 'openai';
+  private serviceUrl: string;
+  readonly model: string;
+  private apiKey: string | undefined;
+  private resolvedApiUrl: string | null = null;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super(config.prefixes ?? { query: '', document: '' });
+    this.serviceUrl = config.serviceUrl;
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+  }
+
+  /**
+   * Get the resolved /v1 API URL, using service discovery if needed.
+   * Caches the result for subsequent calls.
+   */
+  private async getApiUrl(): Promise<string> {
+    if (this.resolvedApiUrl) {
+      return this.resolvedApiUrl;
+    }
+    const baseUrl = (await getServiceUrl(this.serviceUrl, '')).replace(/\/+$/, '');
+    this.resolvedApiUrl = baseUrl.endsWith('/v1') ? baseUrl : `${baseUrl}/v1`;
+    return this.resolvedApiUrl;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const apiUrl = await this.getApiUrl();
+    logger.debug(`[OpenAI] generateEmbeddings: ${texts.length} text(s)`);
+
+    const response = await fetchWithTimeout(
+      `${apiUrl}/embeddings`,
+      {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          model: this.model,
+          input: texts,
+        }),
+      },
+      TIMEOUT_EMBEDDINGS,
+      `generateEmbeddings(${texts.length} texts)`,
+      '[OpenAI]'
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(`[OpenAI] generateEmbeddings failed: ${response.status} - ${errorText}`);
+      throw new Error(`Embeddings API error (${response.status}): ${errorText}`);
+    }
+
+    const data: OpenAIEmbeddingsResponse = await response.json();
+    if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+      throw new Error(
+        `Embeddings API returned ${data.data?.length ?? 0} embeddings for ${texts.length} inputs`
+      );
+    }
+
+    // The spec doesn't guarantee response order, so sort by input index
+    const embeddings = [...data.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    logger.debug(`[OpenAI] generateEmbeddings: OK (${embeddings.length} embeddings)`);
+    return embeddings;
+  }
+
+  /**
+   * Check the server is reachable via GET /v1/models, which all common servers implement.
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const apiUrl = await this.getApiUrl();
+      logger.debug(`[OpenAI] healthCheck: ${apiUrl}/models`);
+
+      const response = await fetchWithTimeout(
+        `${apiUrl}/models`,
+        { method: 'GET', headers: this.getHeaders() },
+        TIMEOUT_HEALTH,
+        'healthCheck',
+        '[OpenAI]'
+      );
+
+      logger.debug(`[OpenAI] healthCheck: ${response.ok ? 'OK' : 'FAILED'} (${response.status})`);
+      return response.ok;
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`[OpenAI] healthCheck failed: ${errMsg}`);
+      return false;
+    }
+  }
+}
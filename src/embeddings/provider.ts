@@ -0,0 +1,200 @@
+// ABOUTME: Embedding provider interface and shared base class for embedding backends
+// ABOUTME: Handles task prefixes, chunking, token counting, and request timeouts
+
+import { encode } from 'gpt-tokenizer';
+import * as logger from '../logger.js';
+
+/**
+ * Task prefixes prepended to text before embedding.
+ * Some models (e.g. nomic-embed-text) need different prefixes for queries and documents.
+ */
+export interface EmbeddingPrefixes {
+  query: string;
+  document: string;
+}
+
+/**
+ * A backend that turns text into embedding vectors.
+ * Used by the sync worker (documents) and semantic search (queries).
+ */
+export interface EmbeddingProvider {
+  /** Short name for logs and status output, e.g. "ollama" */
+  readonly name: string;
+
+  /** Model name; the embeddings index records it to detect model changes */
+  readonly model: string;
+
+  /** Embed texts as-is, without any task prefix */
+  generateEmbeddings(texts: string[]): Promise<number[][]>;
+
+  /** Embed document chunks with the configured document prefix */
+  generateDocumentEmbeddings(texts: string[]): Promise<number[][]>;
+
+  /** Embed a search query with the configured query prefix */
+  generateQueryEmbedding(text: string): Promise<number[]>;
+
+  healthCheck(): Promise<boolean>;
+
+  /** Split text into chunks that fit the model's context window */
+  chunkText(text: string, maxTokens?: number): string[];
+
+  countTokens(text: string): number;
+}
+
+/**
+ * Fetch with timeout using AbortController
+ */
+export async function fetchWithTimeout(
+  url: string,
+  options: RequestInit,
+  timeoutMs: number,
+  operationName: string,
+  logPrefix: string
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    logger.warn(`${logPrefix} ${operationName} timed out after ${timeoutMs}ms`);
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...options, signal: controller.signal });
+    return response;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`${operationName} timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Shared behaviour for embedding providers: task prefixes, chunking and token counting.
+ * Subclasses only implement the HTTP calls.
+ */
+export abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: string;
+  abstract readonly model: string;
+  protected prefixes: EmbeddingPrefixes;
+
+  constructor(prefixes: EmbeddingPrefixes) {
+    this.prefixes = prefixes;
+  }
+
+  abstract generateEmbeddings(texts: string[]): Promise<number[][]>;
+
+  abstract healthCheck(): Promise<boolean>;
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const embeddings = await this.generateEmbeddings([text]);
+    return embeddings[0];
+  }
+
+  /**
+   * Generate embedding for a document with the configured document prefix.
+   */
+  async generateDocumentEmbedding(text: string): Promise<number[]> {
+    return this.generateEmbedding(`${this.prefixes.document}${text}`);
+  }
+
+  /**
+   * Generate embeddings for multiple documents with the configured document prefix.
+   */
+  async generateDocumentEmbeddings(texts: string[]): Promise<number[][]> {
+    const prefixedTexts = texts.map((text) => `${this.prefixes.document}${text}`);
+    return this.generateEmbeddings(prefixedTexts);
+  }
+
+  /**
+   * Generate embedding for a query with the configured query prefix.
+   */
+  async generateQueryEmbedding(text: string): Promise<number[]> {
+    return this.generateEmbedding(`${this.prefixes.query}${text}`);
+  }
+
+  /**
+   * Chunk text if it exceeds token limit.
+   * Splits at paragraph boundaries to maintain semantic coherence.
+   */
+  chunkText(text: string, maxTokens: number = 6000): string[] {
+    const tokens = encode(text);
+
+    // If text fits in one chunk, return as-is
+    if (tokens.length <= maxTokens) {
+      return [text];
+    }
+
+    // Split at paragraph boundaries (double newline)
+    const paragraphs = text.split(/\n\n+/);
+    const chunks: string[] = [];
+    let currentChunk = '';
+    let _currentTokens = 0;
+
+    for (const para of paragraphs) {
+      const paraTokens = encode(para);
+      const testChunk = currentChunk ? `${currentChunk}\n\n${para}` : para;
+      const testTokenCount = encode(testChunk).length;
+
+      // If adding this paragraph would exceed the limit and we have content, save current chunk
+      if (testTokenCount > maxTokens && currentChunk) {
+        chunks.push(currentChunk.trim());
+        currentChunk = para;
+        _currentTokens = paraTokens.length;
+      }
+      // If a single paragraph is too large, split it by sentences
+      else if (paraTokens.length > maxTokens) {
+        // Save any accumulated text first
+        if (currentChunk) {
+          chunks.push(currentChunk.trim());
+          currentChunk = '';
+          _currentTokens = 0;
+        }
+
+        // Split large paragraph by sentences
+        const sentences = para.split(/[.!?]+\s+/);
+        let sentenceChunk = '';
+
+        for (const sentence of sentences) {
+          const sentenceWithPunctuation = sentence + (sentence.match(/[.!?]$/) ? '' : '.');
+          const testSentenceChunk = sentenceChunk
+            ? `${sentenceChunk} ${sentenceWithPunctuation}`
+            : sentenceWithPunctuation;
+          const sentenceTokenCount = encode(testSentenceChunk).length;
+
+          if (sentenceTokenCount > maxTokens && sentenceChunk) {
+            chunks.push(sentenceChunk.trim());
+            sentenceChunk = sentenceWithPunctuation;
+          } else {
+            sentenceChunk = testSentenceChunk;
+          }
+        }
+
+        if (sentenceChunk) {
+          currentChunk = sentenceChunk;
+          _currentTokens = encode(sentenceChunk).length;
+        }
+      }
+      // Otherwise, accumulate the paragraph
+      else {
+        currentChunk = testChunk;
+        _currentTokens = testTokenCount;
+      }
+    }
+
+    // Add the final chunk if it exists
+    if (currentChunk) {
+      chunks.push(currentChunk.trim());
+    }
+
+    return chunks.filter((chunk) => chunk.length > 0);
+  }
+
+  /**
+   * Count tokens in text using gpt-tokenizer (an approximation for most embedding models)
+   */
+  countTokens(text: string): number {
+    return encode(text).length;
+  }
+}
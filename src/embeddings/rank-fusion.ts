@@ -0,0 +1,46 @@
+// ABOUTME: Reciprocal rank fusion for combining ranked result lists
+// ABOUTME: Used by hybrid search to merge BM25 keyword and vector similarity rankings
+
+// Standard RRF damping constant (Cormack et al., 2009)
+export const RRF_K = 60;
+
+export interface FusedResult<T> {
+  key: string;
+  item: T;
+  score: number;
+  ranks: Record<string, number>; // 1-based rank in each list the item appeared in
+}
+
+/**
+ * Fuse several rankings with reciprocal rank fusion: score = Σ 1 / (k + rank).
+ * Items are matched across lists by keyOf; the first list an item appears in supplies `item`.
+ * Returns all items, best first.
+ */
+export function reciprocalRankFusion<T>(
+  rankings: Record<string, T[]>,
+  keyOf: (item: T) => string,
+  k: number = RRF_K
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  for (const [signal, items] of Object.entries(rankings)) {
+    items.forEach((item, index) => {
+      const key = keyOf(item);
+      const rank = index + 1;
+
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { key, item, score: 0, ranks: {} };
+        fused.set(key, entry);
+      }
+
+      // Only the best rank counts if a list contains the same key twice
+      if (entry.ranks[signal] === undefined) {
+        entry.ranks[signal] = rank;
+        entry.score += 1 / (k + rank);
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
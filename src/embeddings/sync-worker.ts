@@ -2,14 +2,22 @@
 // ABOUTME: Periodically checks for changes and updates the embeddings database
 
 import { EmbeddingsDB } from './database.js';
-import { OllamaClient } from './ollama-client.js';
-import { queryTiddlers, Tiddler } from '../tiddlywiki-http.js';
+import type { EmbeddingProvider } from './provider.js';
+import { queryTiddlers, getTiddlers, Tiddler } from '../tiddlywiki-http.js';
 import * as logger from '../logger.js';
 
 // Sentinel value for tiddlers without modified timestamp
 // Prevents infinite re-indexing loop for tiddlers that don't track modifications
 const MISSING_TIMESTAMP = '00000000000000000';
 
+/**
+ * Whether a title belongs in the index: not a system tiddler, and not a filesystem path
+ * (un-imported .tid files). Real tiddler titles don't contain full filesystem paths.
+ */
+function isIndexable(title: string): boolean {
+  return !title.startsWith('$:/') && !title.startsWith('/') && !title.includes('.tid');
+}
+
 export interface SyncWorkerConfig {
   syncIntervalMs: number; // How often to check for updates (default: 5 min)
   batchSize: number; // Number of tiddlers to process in parallel (default: 5)
@@ -18,15 +26,23 @@ export interface SyncWorkerConfig {
 
 export class SyncWorker {
   private db: EmbeddingsDB;
-  private ollama: OllamaClient;
+  private provider: EmbeddingProvider;
   private config: SyncWorkerConfig;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
   private isSyncing: boolean = false;
-
-  constructor(db: EmbeddingsDB, ollama: OllamaClient, config: Partial<SyncWorkerConfig> = {}) {
+  // Indexing in progress per title, so concurrent refreshes of one tiddler don't interleave
+  private indexingTitles: Map<string, Promise<string>> = new Map();
+  // Callbacks for detected wiki changes (e.g., cache invalidation)
+  private changeListeners: Array<() => void> = [];
+
+  constructor(
+    db: EmbeddingsDB,
+    provider: EmbeddingProvider,
+    config: Partial<SyncWorkerConfig> = {}
+  ) {
     this.db = db;
-    this.ollama = ollama;
+    this.provider = provider;
     this.config = {
       syncIntervalMs: config.syncIntervalMs || 5 * 60 * 1000, // 5 minutes
       batchSize: config.batchSize || 5,
@@ -51,10 +67,12 @@ export class SyncWorker {
     logger.log('[SyncWorker] Starting...');
     this.isRunning = true;
 
-    // Check Ollama health
-    const healthy = await this.ollama.healthCheck();
+    // Check embedding provider health
+    const healthy = await this.provider.healthCheck();
     if (!healthy) {
-      logger.error('[SyncWorker] Ollama is not healthy, will retry on next sync');
+      logger.error(
+        `[SyncWorker] Embedding provider (${this.provider.name}) is not healthy, will retry on next sync`
+      );
     }
 
     // Run initial sync (non-blocking)
@@ -95,6 +113,7 @@ export class SyncWorker {
    * Get sync worker status
    */
   getStatus() {
+    const { model, dimension } = this.db.getIndexInfo();
     return {
       running: this.isRunning,
       syncing: this.isSyncing,
@@ -102,9 +121,29 @@ export class SyncWorker {
       totalEmbeddings: this.db.getEmbeddingsCount(),
       syncInterval: this.config.syncIntervalMs / 1000,
       enabled: this.config.enabled,
+      model,
+      dimension,
     };
   }
 
+  /**
+   * Register a callback for wiki changes: new, modified or deleted tiddlers found by a
+   * sync cycle, or tiddlers refreshed, removed or renamed after a write through MCP.
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('[SyncWorker] Change listener error:', error);
+      }
+    }
+  }
+
   /**
    * Run a sync cycle
    */
@@ -120,10 +159,12 @@ export class SyncWorker {
     try {
       logger.debug('[SyncWorker] Starting sync cycle...');
 
-      // Check Ollama health
-      const healthy = await this.ollama.healthCheck();
+      // Check embedding provider health
+      const healthy = await this.provider.healthCheck();
       if (!healthy) {
-        logger.error('[SyncWorker] Ollama is not available, skipping sync');
+        logger.error(
+          `[SyncWorker] Embedding provider (${this.provider.name}) is not available, skipping sync`
+        );
         return;
       }
 
@@ -133,16 +174,15 @@ export class SyncWorker {
         false // Only need metadata for comparison
       );
 
-      // Filter out filesystem paths (un-imported .tid files)
-      // Real tiddler titles don't contain full filesystem paths
-      const validTiddlers = allTiddlers.filter(
-        (t) => !t.title.startsWith('/') && !t.title.includes('.tid')
-      );
+      const validTiddlers = allTiddlers.filter((t) => isIndexable(t.title));
 
       logger.debug(
         `[SyncWorker] Found ${validTiddlers.length} total tiddlers (${allTiddlers.length - validTiddlers.length} filesystem paths filtered)`
       );
 
+      // Remove embeddings for tiddlers that were deleted or renamed in the wiki
+      const pruned = this.pruneDeletedTiddlers(validTiddlers);
+
       // Determine which tiddlers need indexing
       const tiddlersToIndex: Tiddler[] = [];
       const RETRY_ERROR_AFTER_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -185,12 +225,16 @@ export class SyncWorker {
         }
       }
 
-      if (tiddlersToIndex.length === 0) {
+      if (tiddlersToIndex.length === 0 && pruned === 0) {
         logger.debug('[SyncWorker] No tiddlers need indexing');
         return;
       }
 
-      logger.debug(`[SyncWorker] Indexing ${tiddlersToIndex.length} tiddlers...`);
+      this.notifyChange();
+
+      if (tiddlersToIndex.length > 0) {
+        logger.debug(`[SyncWorker] Indexing ${tiddlersToIndex.length} tiddlers...`);
+      }
 
       // Process tiddlers in batches and track results
       const stats = {
@@ -202,7 +246,17 @@ export class SyncWorker {
       for (let i = 0; i < tiddlersToIndex.length; i += this.config.batchSize) {
         const batch = tiddlersToIndex.slice(i, i + this.config.batchSize);
 
-        const results = await Promise.all(batch.map((tiddler) => this.indexTiddler(tiddler)));
+        // Fetch the batch's text together; a tiddler whose fetch failed is retried on its own
+        const fetched = await getTiddlers(batch.map((tiddler) => tiddler.title));
+        const results = await Promise.all(
+          batch.map((tiddler, j) => {
+            const result = fetched[j];
+            return this.indexTiddler(
+              tiddler,
+              result.status === 'fulfilled' ? result.value : undefined
+            );
+          })
+        );
 
         // Count results by status
         for (const status of results) {
@@ -219,7 +273,7 @@ export class SyncWorker {
 
       const duration = ((Date.now() - startTime) / 1000).toFixed(1);
       logger.log(
-        `[SyncWorker] Sync cycle completed in ${duration}s. Results: ${stats.indexed} indexed, ${stats.empty} empty, ${stats.error} errors`
+        `[SyncWorker] Sync cycle completed in ${duration}s. Results: ${stats.indexed} indexed, ${stats.empty} empty, ${stats.error} errors, ${pruned} pruned`
       );
     } catch (error) {
       logger.error('[SyncWorker] Sync cycle error:', error);
@@ -230,16 +284,74 @@ export class SyncWorker {
   }
 
   /**
-   * Index a single tiddler
+   * Delete embeddings and sync status for indexed tiddlers that no longer exist in the wiki.
+   * Returns the number of tiddlers pruned.
+   */
+  private pruneDeletedTiddlers(currentTiddlers: Tiddler[]): number {
+    const indexed = this.db.getAllSyncStatuses();
+
+    // An empty wiki listing is far more likely a server problem than a wiki with no tiddlers
+    if (currentTiddlers.length === 0 && indexed.length > 0) {
+      logger.warn('[SyncWorker] Wiki returned no tiddlers, skipping pruning of deleted tiddlers');
+      return 0;
+    }
+
+    const currentTitles = new Set(currentTiddlers.map((t) => t.title));
+    let pruned = 0;
+
+    for (const status of indexed) {
+      if (!currentTitles.has(status.tiddler_title)) {
+        logger.debug(`[SyncWorker] Pruning ${status.tiddler_title}: no longer in wiki`);
+        this.db.deleteEmbeddingsForTiddler(status.tiddler_title);
+        pruned++;
+      }
+    }
+
+    return pruned;
+  }
+
+  /**
+   * Index a single tiddler, waiting for any in-progress indexing of the same title first.
+   * `fetched` is the tiddler's content if already fetched (null: it no longer exists).
+   * Returns status: 'indexed', 'empty', or 'error'
+   */
+  private indexTiddler(tiddlerMetadata: Tiddler, fetched?: Tiddler | null): Promise<string> {
+    const title = tiddlerMetadata.title;
+    const previous = this.indexingTitles.get(title);
+    // Content fetched before an in-progress refresh finishes may be older than it; refetch
+    const content = previous ? undefined : fetched;
+    const current = (previous ?? Promise.resolve('')).then(() =>
+      this.indexTiddlerContent(tiddlerMetadata, content)
+    );
+
+    this.indexingTitles.set(title, current);
+    current.finally(() => {
+      if (this.indexingTitles.get(title) === current) {
+        this.indexingTitles.delete(title);
+      }
+    });
+
+    return current;
+  }
+
+  /**
+   * Fetch, chunk, and embed a single tiddler
    * Returns status: 'indexed', 'empty', or 'error'
    */
-  private async indexTiddler(tiddlerMetadata: Tiddler): Promise<string> {
+  private async indexTiddlerContent(
+    tiddlerMetadata: Tiddler,
+    fetched?: Tiddler | null
+  ): Promise<string> {
     try {
-      // Fetch full tiddler content
-      const [fullTiddler] = await queryTiddlers(
-        `[title[${tiddlerMetadata.title}]]`,
-        true // Include text
-      );
+      // Fetch full tiddler content unless the caller already has it
+      let fullTiddler = fetched;
+      if (fullTiddler === undefined) {
+        const [result] = await getTiddlers([tiddlerMetadata.title]);
+        if (result.status === 'rejected') {
+          throw result.reason;
+        }
+        fullTiddler = result.value;
+      }
 
       if (!fullTiddler || !fullTiddler.text) {
         logger.warn(
@@ -262,11 +374,11 @@ export class SyncWorker {
       this.db.deleteEmbeddingsForTiddler(fullTiddler.title);
 
       // Chunk the text if needed
-      const chunks = this.ollama.chunkText(fullTiddler.text);
+      const chunks = this.provider.chunkText(fullTiddler.text);
 
       try {
-        // Generate embeddings for all chunks with search_document prefix
-        const embeddings = await this.ollama.generateDocumentEmbeddings(chunks);
+        // Generate embeddings for all chunks with the document prefix
+        const embeddings = await this.provider.generateDocumentEmbeddings(chunks);
 
         // Store embeddings
         for (let i = 0; i < chunks.length; i++) {
@@ -292,14 +404,14 @@ export class SyncWorker {
           null
         );
 
-        const tokenCount = this.ollama.countTokens(fullTiddler.text);
+        const tokenCount = this.provider.countTokens(fullTiddler.text);
         logger.debug(
           `[SyncWorker] Indexed ${fullTiddler.title} (${tokenCount} tokens, ${chunks.length} chunks)`
         );
 
         return 'indexed';
       } catch (embeddingError) {
-        // Handle Ollama API errors (e.g., context length exceeded)
+        // Handle embedding API errors (e.g., context length exceeded)
         const errorMessage =
           embeddingError instanceof Error ? embeddingError.message : String(embeddingError);
         logger.error(
@@ -325,6 +437,81 @@ export class SyncWorker {
     }
   }
 
+  /**
+   * Re-index a single tiddler right away (e.g., after it was written through MCP).
+   * On failure the sync status is cleared so the next sync cycle retries it.
+   * Titles the sync cycle never indexes are skipped.
+   */
+  async refreshTiddler(tiddler: Tiddler): Promise<string> {
+    this.notifyChange();
+    if (!isIndexable(tiddler.title)) {
+      return 'skipped';
+    }
+    const status = await this.indexTiddler(tiddler);
+    if (status === 'error') {
+      logger.warn(`[SyncWorker] Immediate refresh of ${tiddler.title} failed, deferring to sync`);
+      this.db.deleteEmbeddingsForTiddler(tiddler.title);
+    }
+    return status;
+  }
+
+  /**
+   * Re-index tiddlers one at a time in the background (e.g., after a write through MCP), so
+   * the write's response never waits on the embedding provider. Failures are logged and
+   * left to the next sync cycle.
+   */
+  refreshInBackground(tiddlers: Tiddler[]): void {
+    if (tiddlers.length === 0) {
+      return;
+    }
+    this.notifyChange();
+    void (async () => {
+      for (const tiddler of tiddlers) {
+        try {
+          await this.refreshTiddler(tiddler);
+        } catch (error) {
+          logger.warn(
+            `[SyncWorker] Background refresh of ${tiddler.title} failed, deferring to sync:`,
+            error
+          );
+        }
+      }
+    })();
+  }
+
+  /**
+   * Remove a single tiddler's embeddings right away (e.g., after it was deleted through MCP)
+   */
+  async removeTiddler(title: string): Promise<void> {
+    // Let any in-progress indexing finish so it doesn't re-insert rows after the delete
+    await this.indexingTitles.get(title);
+    this.db.deleteEmbeddingsForTiddler(title);
+    this.notifyChange();
+    logger.debug(`[SyncWorker] Removed embeddings for ${title}`);
+  }
+
+  /**
+   * Move a renamed tiddler's embeddings to its new title (e.g., after rename_tiddler).
+   * The stored vectors are reused when text and tags are unchanged; otherwise it is re-indexed
+   * in the background.
+   */
+  async renameTiddler(oldTitle: string, tiddler: Tiddler, contentChanged: boolean): Promise<void> {
+    await this.indexingTitles.get(oldTitle);
+
+    const moved =
+      !contentChanged &&
+      isIndexable(tiddler.title) &&
+      this.db.renameTiddler(oldTitle, tiddler.title, tiddler.modified || MISSING_TIMESTAMP);
+    if (moved) {
+      this.notifyChange();
+      logger.debug(`[SyncWorker] Moved embeddings from ${oldTitle} to ${tiddler.title}`);
+      return;
+    }
+
+    this.db.deleteEmbeddingsForTiddler(oldTitle);
+    this.refreshInBackground([tiddler]);
+  }
+
   /**
    * Force a sync cycle (for manual triggering)
    */
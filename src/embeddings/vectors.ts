@@ -0,0 +1,43 @@
+// ABOUTME: Vector helpers for working with stored embeddings
+// ABOUTME: Pools chunk vectors into one per tiddler and compares vectors by cosine similarity
+
+function norm(vector: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i];
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Average a tiddler's chunk vectors into one vector, rescaled to the chunks' mean
+ * length so distances stay comparable with an ordinary query embedding.
+ */
+export function meanPool(vectors: ArrayLike<number>[]): number[] {
+  const mean = Array.from(
+    { length: vectors[0].length },
+    (_, i) => vectors.reduce((sum, v) => sum + v[i], 0) / vectors.length
+  );
+  const meanLength = vectors.reduce((sum, v) => sum + norm(v), 0) / vectors.length;
+  const length = norm(mean);
+  return length > 0 ? mean.map((x) => (x * meanLength) / length) : mean;
+}
+
+/**
+ * Scale a vector to unit length, so the dot product of two results is their cosine similarity.
+ */
+export function normalize(vector: ArrayLike<number>): Float32Array {
+  const length = norm(vector);
+  return Float32Array.from(vector, (x) => (length > 0 ? x / length : 0));
+}
+
+/**
+ * Dot product of two vectors of the same length.
+ */
+export function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -14,36 +14,155 @@ import {
 import { randomUUID } from 'node:crypto';
 import express from 'express';
 import type { Request, Response } from 'express';
-import { initTiddlyWiki } from './tiddlywiki-http.js';
+import {
+  initTiddlyWiki,
+  runWithWiki,
+  getWikiName,
+  getCircuitStatus,
+  UnknownWikiError,
+  DEFAULT_WIKI_NAME,
+} from './tiddlywiki-http.js';
+import { loadWikiConfiguration, type WikiSettings } from './wiki-config.js';
+import { describeAuth } from './wiki-auth.js';
 import { getFilterReference } from './filter-reference.js';
-import { EmbeddingsDB } from './embeddings/database.js';
-import { OllamaClient } from './embeddings/ollama-client.js';
+import {
+  EmbeddingsDB,
+  EmbeddingModelMismatchError,
+  DEFAULT_EMBEDDING_DIMENSION,
+} from './embeddings/database.js';
+import { createEmbeddingProvider } from './embeddings/create-provider.js';
+import type { EmbeddingProvider } from './embeddings/provider.js';
 import { SyncWorker } from './embeddings/sync-worker.js';
+import { TagCache } from './tags.js';
 import * as logger from './logger.js';
 import {
   handleSearchTiddlers,
+  handleGetTiddler,
   handleUpdateTiddler,
   handleCreateTiddler,
   handleDeleteTiddler,
+  handleRenameTiddler,
+  handleMergeTiddlers,
+  handleBatchTiddlers,
+  handleAddTags,
+  handleRemoveTags,
+  handleRenameTag,
+  handleListTags,
+  handleGetLinks,
+  handleFindMissing,
+  handleFindOrphans,
+  handleFindDuplicates,
+  handleListWikis,
+  handleSearchAcrossWikis,
+  WikiSelection,
+  NO_ELICITATION,
 } from './tools/index.js';
-import type { ToolDependencies } from './tools/index.js';
+import type { ToolDependencies, ToolResult, WikiTarget, ApprovalContext } from './tools/index.js';
+
+/**
+ * Per-wiki infrastructure (created at startup, shared across requests)
+ */
+interface WikiRuntime {
+  settings: WikiSettings;
+  embeddingsDB: EmbeddingsDB | null;
+  syncWorker: SyncWorker | null;
+  // Tag listing cache, invalidated by the sync worker when it sees wiki changes
+  tagCache: TagCache;
+}
 
-// Global embeddings infrastructure (singletons - shared across requests)
-let embeddingsDB: EmbeddingsDB | null = null;
-let ollamaClient: OllamaClient | null = null;
-let syncWorker: SyncWorker | null = null;
+// Embedding provider (singleton - shared by every wiki)
+let embeddingProvider: EmbeddingProvider | null = null;
+
+// Configured wikis by name, default first
+const wikiRuntimes = new Map<string, WikiRuntime>();
+let defaultWiki = DEFAULT_WIKI_NAME;
 
 // Server for stdio transport (created once, used for the lifetime of the process)
 let stdioServer: Server | null = null;
 
 /**
- * Get the current tool dependencies for handlers that need embeddings.
+ * Get the tool dependencies for handlers that need embeddings (search, and write tools
+ * that refresh embeddings after a change) or the tag cache, for the wiki the current
+ * call runs against.
+ */
+function getToolDependencies(wiki: string = getWikiName()): ToolDependencies {
+  const runtime = wikiRuntimes.get(wiki);
+  if (!runtime) {
+    throw new UnknownWikiError(wiki);
+  }
+  return {
+    embeddingsDB: runtime.embeddingsDB,
+    embeddingProvider: runtime.embeddingsDB ? embeddingProvider : null,
+    syncWorker: runtime.syncWorker,
+    tagCache: runtime.tagCache,
+  };
+}
+
+/**
+ * The named wikis (all of them by default), with their tool dependencies.
+ */
+function getWikiTargets(names: string[] = [...wikiRuntimes.keys()]): WikiTarget[] {
+  return [...new Set(names)].map((name) => ({
+    name,
+    url: wikiRuntimes.get(name)?.settings.tiddlywikiUrl ?? '',
+    deps: getToolDependencies(name),
+  }));
+}
+
+/**
+ * Add the optional `wiki` argument to a tool's input schema. search_tiddlers also accepts
+ * a list of wikis to search together.
  */
-function getToolDependencies(): ToolDependencies {
+function addWikiArgument<T extends { name: string; inputSchema: { properties?: object } }>(
+  tool: T
+): T {
+  if (tool.name === 'list_wikis') {
+    return tool;
+  }
+  const configured = `default: "${defaultWiki}"; configured: ${[...wikiRuntimes.keys()].join(', ')}`;
+  const wiki =
+    tool.name === 'search_tiddlers'
+      ? {
+          oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' }, minItems: 1 }],
+          description: `Wiki to search (${configured}). Pass a list of wiki names to run a semantic search across several wikis; every result is labelled with the wiki it came from.`,
+        }
+      : {
+          type: 'string',
+          description: `Wiki to use (${configured}). See list_wikis.`,
+        };
   return {
-    embeddingsDB,
-    ollamaClient,
-    syncWorker,
+    ...tool,
+    inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, wiki } },
+  };
+}
+
+/**
+ * Get the approval context for write tools.
+ * Uses MCP elicitation when the connected client supports it, otherwise the token flow.
+ */
+function getApprovalContext(server: Server): ApprovalContext {
+  if (!server.getClientCapabilities()?.elicitation) {
+    return NO_ELICITATION;
+  }
+
+  return {
+    elicit: async (message: string) => {
+      const result = await server.elicitInput({
+        message,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: {
+              type: 'boolean',
+              title: 'Apply this change',
+              default: true,
+            },
+          },
+          required: ['approve'],
+        },
+      });
+      return result.action === 'accept' && result.content?.approve !== false;
+    },
   };
 }
 
@@ -69,6 +188,69 @@ function createServer(): Server {
   return server;
 }
 
+/**
+ * Route a tool call to its handler. Runs inside runWithWiki, so handlers talk to the
+ * selected wiki.
+ */
+async function callTool(
+  server: Server,
+  name: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  switch (name) {
+    case 'search_tiddlers':
+      return await handleSearchTiddlers(args, getToolDependencies());
+
+    case 'get_tiddler':
+      return await handleGetTiddler(args);
+
+    case 'list_tags':
+      return await handleListTags(args, getToolDependencies());
+
+    case 'get_links':
+      return await handleGetLinks(args);
+
+    case 'find_missing':
+      return await handleFindMissing(args);
+
+    case 'find_orphans':
+      return await handleFindOrphans(args);
+
+    case 'find_duplicates':
+      return await handleFindDuplicates(args, getToolDependencies());
+
+    case 'update_tiddler':
+      return await handleUpdateTiddler(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'create_tiddler':
+      return await handleCreateTiddler(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'delete_tiddler':
+      return await handleDeleteTiddler(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'rename_tiddler':
+      return await handleRenameTiddler(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'merge_tiddlers':
+      return await handleMergeTiddlers(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'batch_tiddlers':
+      return await handleBatchTiddlers(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'add_tags':
+      return await handleAddTags(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'remove_tags':
+      return await handleRemoveTags(args, getToolDependencies(), getApprovalContext(server));
+
+    case 'rename_tag':
+      return await handleRenameTag(args, getToolDependencies(), getApprovalContext(server));
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
 /**
  * Register all MCP handlers on a server instance.
  * Separated from server creation to allow reuse with different transports.
@@ -116,7 +298,7 @@ function registerHandlers(server: Server): void {
         {
           name: 'search_tiddlers',
           description:
-            'Search tiddlers using filter syntax, semantic similarity, or both. Supports filter-based queries (e.g., by tag, date, title), semantic/conceptual search, and hybrid combinations. Returns matching tiddlers with metadata and optionally text content.',
+            'Search tiddlers using filter syntax, semantic similarity, or both. Supports filter-based queries (e.g., by tag, date, title), semantic/conceptual search, "more like this" search from an existing tiddler, and filtered semantic search (both combined). Returns matching tiddlers with metadata and optionally text content; semantic results include a short snippet of the best-matching passage, so includeText is often unnecessary.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -125,10 +307,29 @@ function registerHandlers(server: Server): void {
                 description:
                   'Natural language semantic search query (e.g., "times I felt anxious about parenting", "entries about work stress"). Finds conceptually related entries even without exact keyword matches.',
               },
+              similarTo: {
+                type: 'string',
+                description:
+                  'Find tiddlers similar to this one ("more like this"), using its stored embeddings as the query instead of a semantic string. The tiddler must already be indexed and is left out of the results. Works with filter, limit, aggregate and expand; not with mode "hybrid".',
+              },
               filter: {
                 type: 'string',
                 description:
-                  'TiddlyWiki filter expression (e.g., "[tag[Journal]prefix[2025-11]]" for November 2025 journal entries, "[title[2025-11-12]]" for specific entry). Can be used alone for filter-based search, or combined with semantic for hybrid search.',
+                  'TiddlyWiki filter expression (e.g., "[tag[Journal]prefix[2025-11]]" for November 2025 journal entries, "[title[2025-11-12]]" for specific entry). Can be used alone for filter-based search, or combined with semantic to rank only the matching tiddlers.',
+              },
+              mode: {
+                type: 'string',
+                enum: ['semantic', 'hybrid'],
+                description:
+                  'How to rank a semantic query (default: "semantic"). "hybrid" fuses vector similarity with BM25 keyword ranking, so exact names, acronyms and rare terms are found too. Each hybrid result lists the signals (vector, keyword) that matched it.',
+                default: 'semantic',
+              },
+              aggregate: {
+                type: 'string',
+                enum: ['max', 'mean'],
+                description:
+                  'How semantic results score a tiddler from its matching chunks: "max" uses the best chunk (default), "mean" averages them. Each tiddler appears once, with a snippet from its best chunk.',
+                default: 'max',
               },
               includeText: {
                 type: 'boolean',
@@ -147,13 +348,181 @@ function registerHandlers(server: Server): void {
                 description:
                   'Maximum number of results to return (default: 10 for semantic search, unlimited for filter-only, max: 100). Use for pagination to avoid response size limits.',
               },
+              expand: {
+                type: 'boolean',
+                description:
+                  'Semantic and similarTo searches only: also return a "neighbors" list of tiddlers one hop from the top 5 hits, reached by links ("link": the hit links to it), backlinks ("backlink": it links to the hit) or shared tags ("tag"). Neighbors are ranked by a score combining graph proximity and similarity to the query, and each lists the hits it was reached from in "via". At most `limit` neighbors are returned. Default: false.',
+                default: false,
+              },
+            },
+          },
+        },
+        {
+          name: 'get_tiddler',
+          description:
+            'Read a single tiddler by title. Returns its fields and revision; optionally only selected fields, a line range, or the section under a heading, so large tiddlers can be read in parts. Can also return the tiddler rendered to HTML by TiddlyWiki.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              title: {
+                type: 'string',
+                description: 'Title of the tiddler to read',
+              },
+              fields: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Fields to return, e.g. ["tags", "modified"] (default: all). Leave out "text" to fetch only metadata. Title and revision are always included.',
+              },
+              startLine: {
+                type: 'number',
+                description: 'First line of text to return (1-based, default: 1)',
+              },
+              endLine: {
+                type: 'number',
+                description: 'Last line of text to return, inclusive (default: last line)',
+              },
+              section: {
+                type: 'string',
+                description:
+                  'Return only the text under this heading ("#" in Markdown, "!" in wikitext), up to the next heading of the same or higher level. Cannot be combined with startLine/endLine.',
+              },
+              render: {
+                type: 'boolean',
+                description:
+                  'Return the tiddler rendered to HTML by TiddlyWiki (macros and transclusions resolved) instead of raw text',
+                default: false,
+              },
+            },
+            required: ['title'],
+          },
+        },
+        {
+          name: 'list_tags',
+          description:
+            'List the tags used in the wiki with how many tiddlers carry each, the color/icon/caption fields of the tag tiddler, and the tag hierarchy (parents: tags of the tag itself; children: tags tagged with it). Check this before tagging to reuse existing tag names instead of guessing spelling or case.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              match: {
+                type: 'string',
+                description: 'Only tags containing this text, case-insensitive (e.g., "journal")',
+              },
+              includeSystem: {
+                type: 'boolean',
+                description:
+                  'Include system tags ($:/...) and tags used only by system tiddlers (default: false)',
+                default: false,
+              },
+              sort: {
+                type: 'string',
+                enum: ['count', 'name'],
+                description: 'Sort by usage count (default) or name',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of tags to return (default: 500)',
+              },
             },
           },
         },
+        {
+          name: 'get_links',
+          description:
+            'Show where a tiddler sits in the link graph: the tiddlers it links to, links to tiddlers that do not exist yet, backlinks (tiddlers linking to it), tiddlers it transcludes, and tiddlers that transclude it. Each list is capped by limit; counts give the full sizes.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              title: {
+                type: 'string',
+                description: 'Title of the tiddler',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum titles returned per list (default: 100)',
+              },
+            },
+            required: ['title'],
+          },
+        },
+        {
+          name: 'find_missing',
+          description:
+            'Find missing tiddlers: titles that are linked to but do not exist, each with the tiddlers that link to it, most-referenced first. Useful for finding notes that still need to be written.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              filter: {
+                type: 'string',
+                description:
+                  'Only check links from tiddlers matching this filter, e.g. "[tag[Journal]]" (default: all non-system tiddlers)',
+              },
+              offset: {
+                type: 'number',
+                description: 'Number of results to skip (default: 0)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of results to return (default: 100)',
+              },
+            },
+          },
+        },
+        {
+          name: 'find_orphans',
+          description:
+            'Find orphan tiddlers: non-system tiddlers with no tags that nothing links to, transcludes, or uses as a tag, so they cannot be reached by browsing the wiki.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              offset: {
+                type: 'number',
+                description: 'Number of results to skip (default: 0)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of results to return (default: 100)',
+              },
+            },
+          },
+        },
+        {
+          name: 'find_duplicates',
+          description:
+            "Find near-duplicate tiddlers (copy-pasted or half-merged notes) by comparing their stored embeddings; no embedding calls are made. Returns clusters of tiddlers whose pairwise cosine similarity is above the threshold, most similar first, with each pair's similarity and a short diff of their text, for proposing merges. Requires the semantic search index.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              threshold: {
+                type: 'number',
+                description:
+                  'Minimum cosine similarity (0.5-1) for a pair to count as duplicates (default: 0.95). Lower it to find looser near-duplicates.',
+              },
+              filter: {
+                type: 'string',
+                description:
+                  'Only compare tiddlers matching this TiddlyWiki filter (e.g., "[tag[Journal]]"). Needed when more than 5000 tiddlers are indexed.',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of clusters to return (default: 20)',
+              },
+            },
+          },
+        },
+        {
+          name: 'list_wikis',
+          description:
+            'List the wikis this server is configured for, with their URLs, which one is the default, and whether each can be searched semantically (embeddings enabled and indexed). Every other tool takes an optional wiki argument naming one of them; search_tiddlers also accepts a list of wikis for semantic search across several wikis.',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
         {
           name: 'update_tiddler',
           description:
-            'Update an existing tiddler. Shows a diff of changes and requests approval before applying. Preserves metadata like created timestamp. Supports arbitrary custom fields beyond the standard ones (e.g., caption, summary, author, or any TiddlyWiki field).',
+            'Update an existing tiddler. Shows a diff of changes and requests approval before applying: the user is asked directly if the client supports it, otherwise the call returns a proposal with a confirmationToken to send back once the user approves. Preserves metadata like created timestamp and never overwrites concurrent edits made after the tiddler was read. For long tiddlers, send edits instead of the full text: append, prepend, exact find/replace (fails if the text is missing or occurs more than once, unless all is set), regex replace, insert under a heading, or a unified-diff patch. Supports arbitrary custom fields beyond the standard ones (e.g., caption, summary, author, or any TiddlyWiki field).',
           inputSchema: {
             type: 'object',
             properties: {
@@ -165,6 +534,63 @@ function registerHandlers(server: Server): void {
                 type: 'string',
                 description: 'New text content (optional)',
               },
+              edits: {
+                type: 'array',
+                description:
+                  'Partial edits applied in order to the current text (optional, instead of text). Each edit has a mode and its own fields.',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  properties: {
+                    mode: {
+                      type: 'string',
+                      enum: ['append', 'prepend', 'replace', 'regex', 'insert_at_heading', 'patch'],
+                      description: 'Kind of edit',
+                    },
+                    text: {
+                      type: 'string',
+                      description: 'Text to add (append, prepend, insert_at_heading)',
+                    },
+                    find: {
+                      type: 'string',
+                      description: 'Exact text to find (replace)',
+                    },
+                    replace: {
+                      type: 'string',
+                      description: 'Replacement text (replace, regex; regex may use $1 etc.)',
+                    },
+                    all: {
+                      type: 'boolean',
+                      description:
+                        'Replace every occurrence (replace); otherwise the text must occur exactly once',
+                    },
+                    pattern: {
+                      type: 'string',
+                      description: 'JavaScript regular expression (regex)',
+                    },
+                    flags: {
+                      type: 'string',
+                      description: 'Regular expression flags (regex, default: g)',
+                    },
+                    heading: {
+                      type: 'string',
+                      description:
+                        'Heading text, Markdown # or wikitext ! (insert_at_heading, case-insensitive)',
+                    },
+                    position: {
+                      type: 'string',
+                      enum: ['start', 'end'],
+                      description:
+                        'Insert right after the heading or at the end of its section (insert_at_heading, default: end)',
+                    },
+                    patch: {
+                      type: 'string',
+                      description: 'Unified diff against the current text (patch)',
+                    },
+                  },
+                  required: ['mode'],
+                },
+              },
               tags: {
                 type: 'string',
                 description: 'New tags as space-separated string (optional)',
@@ -174,6 +600,21 @@ function registerHandlers(server: Server): void {
                 description:
                   'Content type like "text/markdown" or "text/vnd.tiddlywiki" (optional)',
               },
+              expectedRevision: {
+                type: ['string', 'number'],
+                description:
+                  'Revision of the tiddler your edit is based on (optional). If the tiddler has changed since, the update fails with a conflict and a three-way diff instead of overwriting.',
+              },
+              expectedModified: {
+                type: 'string',
+                description:
+                  'Modified timestamp your edit is based on (optional, alternative to expectedRevision)',
+              },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
             },
             additionalProperties: {
               type: 'string',
@@ -185,7 +626,7 @@ function registerHandlers(server: Server): void {
         {
           name: 'create_tiddler',
           description:
-            'Create a new tiddler. Shows a preview and requests approval before creating. Supports arbitrary custom fields beyond the standard ones (e.g., caption, summary, author, or any TiddlyWiki field).',
+            'Create a new tiddler. Shows a preview and requests approval before creating (directly or via a confirmationToken, like update_tiddler). Supports arbitrary custom fields beyond the standard ones (e.g., caption, summary, author, or any TiddlyWiki field).',
           inputSchema: {
             type: 'object',
             properties: {
@@ -208,6 +649,11 @@ function registerHandlers(server: Server): void {
                 description: 'Content type (default: text/markdown)',
                 default: 'text/markdown',
               },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
             },
             additionalProperties: {
               type: 'string',
@@ -219,7 +665,7 @@ function registerHandlers(server: Server): void {
         {
           name: 'delete_tiddler',
           description:
-            'Delete a tiddler. Shows current content and requests approval before deleting.',
+            'Delete a tiddler. Shows current content and requests approval before deleting (directly or via a confirmationToken, like update_tiddler).',
           inputSchema: {
             type: 'object',
             properties: {
@@ -227,35 +673,272 @@ function registerHandlers(server: Server): void {
                 type: 'string',
                 description: 'Title of the tiddler to delete',
               },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
             },
             required: ['title'],
           },
         },
-      ],
+        {
+          name: 'rename_tiddler',
+          description:
+            'Rename a tiddler, keeping its created/creator metadata. Also rewrites [[links]], {{transclusions}}, <<macro>> parameters, widget attributes, filter operands, tags and list fields in every tiddler that refers to the old title. Shows a preview of every affected tiddler and requests approval before applying (directly or via a confirmationToken, like update_tiddler). If any write fails, the changes already made are rolled back.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              title: {
+                type: 'string',
+                description: 'Current title of the tiddler',
+              },
+              newTitle: {
+                type: 'string',
+                description: 'New title (must not already exist)',
+              },
+              updateReferences: {
+                type: 'boolean',
+                description:
+                  'Rewrite references to the old title in other tiddlers (default: true)',
+                default: true,
+              },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
+            },
+            required: ['title', 'newTitle'],
+          },
+        },
+        {
+          name: 'merge_tiddlers',
+          description:
+            'Merge several tiddlers into one target (an existing tiddler, whose text comes first, or a new title). Text is concatenated or interleaved section by section; tags and list fields are unioned; other fields are unioned with the first value winning, and every field whose values differ is reported as a conflict. References to the sources ([[links]], {{transclusions}}, tags, list fields, ...) are rewritten to the target, and the sources are deleted or replaced with redirect stubs. Everything is shown in one preview and approved once (directly or via a confirmationToken, like update_tiddler). If any write fails, the changes already made are rolled back.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sources: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Titles of the tiddlers to merge into the target, in order (max 20)',
+              },
+              target: {
+                type: 'string',
+                description:
+                  "Title to merge into. If it exists, its text and field values come first; otherwise it is created, keeping the oldest source's created date.",
+              },
+              strategy: {
+                type: 'string',
+                enum: ['concatenate', 'interleave'],
+                description:
+                  'How to combine text: "concatenate" appends each text in turn (default); "interleave" merges section by section, gathering the content under matching headings and dropping identical sections.',
+                default: 'concatenate',
+              },
+              sourceAction: {
+                type: 'string',
+                enum: ['delete', 'redirect'],
+                description:
+                  'What happens to the sources: "delete" (default) or "redirect", which replaces each with an untagged stub linking to the target and a merged-into field.',
+                default: 'delete',
+              },
+              updateReferences: {
+                type: 'boolean',
+                description: 'Rewrite references to the sources in other tiddlers (default: true)',
+                default: true,
+              },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
+            },
+            required: ['sources', 'target'],
+          },
+        },
+        {
+          name: 'batch_tiddlers',
+          description:
+            'Create, update and delete several tiddlers in one call. Every operation is validated before anything is written (creates must not exist yet, updates and deletes must exist, expectedRevision/expectedModified must match), then one combined preview is shown and approval requested (directly or via a confirmationToken, like update_tiddler). Returns a result for each operation. With rollbackOnFailure, a failure stops the batch and undoes the operations already applied.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operations: {
+                type: 'array',
+                description: 'Operations to apply (1-100); each title may appear only once',
+                minItems: 1,
+                maxItems: 100,
+                items: {
+                  type: 'object',
+                  properties: {
+                    op: {
+                      type: 'string',
+                      enum: ['create', 'update', 'delete'],
+                      description: 'Operation to perform',
+                    },
+                    title: {
+                      type: 'string',
+                      description: 'Title of the tiddler',
+                    },
+                    text: {
+                      type: 'string',
+                      description: 'Text content (required for create)',
+                    },
+                    tags: {
+                      type: 'string',
+                      description: 'Tags (space-separated)',
+                    },
+                    type: {
+                      type: 'string',
+                      description: 'Content type (default for create: text/markdown)',
+                    },
+                    expectedRevision: {
+                      type: ['string', 'number'],
+                      description: 'For update: revision the change is based on',
+                    },
+                    expectedModified: {
+                      type: 'string',
+                      description: 'For update: modified timestamp the change is based on',
+                    },
+                  },
+                  additionalProperties: {
+                    type: 'string',
+                    description: 'Any additional TiddlyWiki field for create or update',
+                  },
+                  required: ['op', 'title'],
+                },
+              },
+              rollbackOnFailure: {
+                type: 'boolean',
+                description:
+                  'If an operation fails, stop and undo the operations already applied (default: false)',
+                default: false,
+              },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
+            },
+            required: ['operations'],
+          },
+        },
+        {
+          name: 'add_tags',
+          description:
+            'Add tags to one tiddler or to every tiddler matching a filter (up to 500), keeping existing tags and their order. Multi-word tags are bracketed correctly. Shows which tiddlers change and requests approval before applying (directly or via a confirmationToken, like update_tiddler).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              title: {
+                type: 'string',
+                description: 'Title of a single tiddler (use either title or filter)',
+              },
+              filter: {
+                type: 'string',
+                description:
+                  'TiddlyWiki filter selecting the tiddlers to change, e.g. "[tag[Inbox]prefix[2025]]" (use either title or filter)',
+              },
+              tags: {
+                type: ['array', 'string'],
+                items: { type: 'string' },
+                description:
+                  'Tags to add: an array like ["Project Alpha", "todo"], or a TiddlyWiki tag string like "[[Project Alpha]] todo"',
+              },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
+            },
+            required: ['tags'],
+          },
+        },
+        {
+          name: 'remove_tags',
+          description:
+            'Remove tags from one tiddler or from every tiddler matching a filter (up to 500), leaving other tags untouched. Shows which tiddlers change and requests approval before applying (directly or via a confirmationToken, like update_tiddler).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              title: {
+                type: 'string',
+                description: 'Title of a single tiddler (use either title or filter)',
+              },
+              filter: {
+                type: 'string',
+                description:
+                  'TiddlyWiki filter selecting the tiddlers to change, e.g. "[tag[Inbox]prefix[2025]]" (use either title or filter)',
+              },
+              tags: {
+                type: ['array', 'string'],
+                items: { type: 'string' },
+                description:
+                  'Tags to remove: an array like ["Project Alpha"], or a TiddlyWiki tag string like "[[Project Alpha]]"',
+              },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
+            },
+            required: ['tags'],
+          },
+        },
+        {
+          name: 'rename_tag',
+          description:
+            'Rename a tag: replaces it in the tags of every tiddler that carries it (keeping tag order) and renames the tiddler titled after the tag, so its description and list ordering carry over. Shows a preview and requests approval before applying (directly or via a confirmationToken, like update_tiddler).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tag: {
+                type: 'string',
+                description: 'Current tag',
+              },
+              newTag: {
+                type: 'string',
+                description: 'New tag',
+              },
+              renameTagTiddler: {
+                type: 'boolean',
+                description:
+                  'Also rename the tiddler titled after the tag, if it exists and the new title is free (default: true)',
+                default: true,
+              },
+              confirmationToken: {
+                type: 'string',
+                description:
+                  'Token returned by a previous call to this tool. Send it back with the same arguments after the user approves the proposed change.',
+              },
+            },
+            required: ['tag', 'newTag'],
+          },
+        },
+      ].map(addWikiArgument),
     };
   });
 
   // Tool implementation handler
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+    const { name, arguments: rawArgs } = request.params;
 
     try {
-      switch (name) {
-        case 'search_tiddlers':
-          return await handleSearchTiddlers(args, getToolDependencies());
-
-        case 'update_tiddler':
-          return await handleUpdateTiddler(args);
-
-        case 'create_tiddler':
-          return await handleCreateTiddler(args);
-
-        case 'delete_tiddler':
-          return await handleDeleteTiddler(args);
+      if (name === 'list_wikis') {
+        return await handleListWikis(getWikiTargets(), defaultWiki);
+      }
 
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+      // Every other tool runs against the wiki named in its arguments (or the default)
+      const { wiki: wikiArg, ...args } = rawArgs ?? {};
+      const wiki = WikiSelection.parse(wikiArg);
+      if (Array.isArray(wiki)) {
+        if (name !== 'search_tiddlers') {
+          throw new Error(`${name} works on one wiki at a time; pass a single wiki name`);
+        }
+        return await handleSearchAcrossWikis(args, getWikiTargets(wiki));
       }
+      return await runWithWiki(wiki, () => callTool(server, name, args));
     } catch (error) {
       const err = error as Error;
       logger.error(`[MCP Server] Error executing tool ${name}:`, err.message);
@@ -307,9 +990,16 @@ async function startHttpTransport() {
 
   app.use(express.json());
 
-  // Health check endpoint for Nomad
+  // Health check endpoint for Nomad. Stays 200 while a wiki is down ("degraded"), since
+  // restarting this server wouldn't bring the wiki back; the circuit state shows which one.
   app.get('/health', (_req: Request, res: Response) => {
-    res.status(200).json({ status: 'healthy', service: 'tiddlywiki-mcp-server' });
+    const wikis = getCircuitStatus();
+    const degraded = Object.values(wikis).some((circuit) => circuit.state !== 'closed');
+    res.status(200).json({
+      status: degraded ? 'degraded' : 'healthy',
+      service: 'tiddlywiki-mcp-server',
+      wikis,
+    });
   });
 
   // Request timeout (90 seconds) as safety net against any blocking operations
@@ -401,84 +1091,179 @@ async function startHttpTransport() {
   });
 }
 
+/**
+ * Open a wiki's embeddings database and start its sync worker. The worker is started inside
+ * runWithWiki so its sync cycles query that wiki. Leaves the wiki without semantic search
+ * if anything fails, except a model mismatch, which is rethrown.
+ */
+async function startWikiEmbeddings(
+  runtime: WikiRuntime,
+  provider: EmbeddingProvider,
+  dimension: number,
+  onModelChange: 'rebuild' | 'fail'
+): Promise<void> {
+  const { name, embeddingsDbPath } = runtime.settings;
+  try {
+    // Initialize database for the provider's model (rebuilds or fails if the model changed)
+    const embeddingsDB = new EmbeddingsDB(embeddingsDbPath, {
+      model: provider.model,
+      dimension,
+      onModelChange,
+    });
+    runtime.embeddingsDB = embeddingsDB;
+    logger.debug(
+      `[MCP Server] Embeddings database for wiki "${name}" initialized (${embeddingsDbPath})`
+    );
+
+    // Initialize and start sync worker
+    const syncWorker = new SyncWorker(embeddingsDB, provider, {
+      syncIntervalMs: 5 * 60 * 1000, // 5 minutes
+      batchSize: 5,
+      enabled: true,
+    });
+    syncWorker.onChange(() => runtime.tagCache.invalidate());
+    runtime.syncWorker = syncWorker;
+
+    await runWithWiki(name, () => syncWorker.start());
+    logger.debug(`[MCP Server] Sync worker for wiki "${name}" started`);
+
+    const status = syncWorker.getStatus();
+    logger.log(
+      `[MCP Server] Embeddings for wiki "${name}" ready (${status.indexedTiddlers} tiddlers, ${status.totalEmbeddings} chunks)`
+    );
+  } catch (error) {
+    // Never serve a search over vectors from a different model; refuse to start instead
+    if (error instanceof EmbeddingModelMismatchError) {
+      throw error;
+    }
+    const err = error as Error;
+    logger.warn(
+      `[MCP Server] WARNING: Failed to initialize embeddings for wiki "${name}": ${err.message}`
+    );
+    logger.warn(`[MCP Server] Semantic search will not be available for wiki "${name}"`);
+    // Don't fail startup, just disable embeddings for this wiki
+    runtime.syncWorker?.stop();
+    runtime.embeddingsDB?.close();
+    runtime.embeddingsDB = null;
+    runtime.syncWorker = null;
+  }
+}
+
+/**
+ * Stop every sync worker and close every embeddings database.
+ */
+function stopEmbeddings(): void {
+  for (const runtime of wikiRuntimes.values()) {
+    runtime.syncWorker?.stop();
+    runtime.embeddingsDB?.close();
+  }
+}
+
 // Main startup function
 async function main() {
-  const tiddlywikiUrl = process.env.TIDDLYWIKI_URL;
-  if (!tiddlywikiUrl) {
-    logger.error('[MCP Server] TIDDLYWIKI_URL environment variable is required');
+  let wikis: WikiSettings[];
+  try {
+    const configuration = loadWikiConfiguration();
+    wikis = configuration.wikis;
+    defaultWiki = configuration.defaultWiki;
+  } catch (error) {
+    logger.error(`[MCP Server] ${(error as Error).message}`);
     logger.error('[MCP Server] Example: TIDDLYWIKI_URL=http://localhost:8080');
+    logger.error(
+      '[MCP Server] Several wikis: WIKIS=journal,team TIDDLYWIKI_URL_JOURNAL=... TIDDLYWIKI_URL_TEAM=...'
+    );
     process.exit(1);
   }
 
-  const authHeader = process.env.AUTH_HEADER || 'X-Oidc-Username';
-  const authUser = process.env.AUTH_USER || 'mcp-user';
   const transport = process.env.MCP_TRANSPORT || 'stdio';
-  const ollamaUrl = process.env.OLLAMA_URL || 'http://localhost:11434';
   const embeddingsEnabled = process.env.EMBEDDINGS_ENABLED !== 'false'; // Enabled by default
-  const embeddingsDbPath = process.env.EMBEDDINGS_DB_PATH || './embeddings.db';
+  const embeddingsDimension = process.env.EMBEDDINGS_DIMENSION
+    ? parseInt(process.env.EMBEDDINGS_DIMENSION, 10)
+    : DEFAULT_EMBEDDING_DIMENSION;
+  const onModelChange = process.env.EMBEDDINGS_ON_MODEL_CHANGE || 'rebuild';
 
   logger.log(`[MCP Server] Starting TiddlyWiki MCP Server...`);
   logger.debug(`[MCP Server] Transport: ${transport}`);
-  logger.debug(`[MCP Server] TiddlyWiki URL: ${tiddlywikiUrl}`);
-  logger.debug(`[MCP Server] Auth: ${authHeader}=${authUser}`);
-  logger.debug(`[MCP Server] Embeddings: ${embeddingsEnabled ? embeddingsDbPath : 'disabled'}`);
-  if (embeddingsEnabled) {
-    logger.debug(`[MCP Server] Ollama URL: ${ollamaUrl}`);
+  for (const wiki of wikis) {
+    logger.debug(
+      `[MCP Server] Wiki "${wiki.name}": ${wiki.tiddlywikiUrl} (recipe: ${wiki.recipe ?? 'default'}, bag: ${wiki.bag ?? 'default'}, auth: ${describeAuth(wiki.auth, wiki.tls)}, author: ${wiki.authUser}, embeddings: ${embeddingsEnabled ? wiki.embeddingsDbPath : 'disabled'})`
+    );
   }
 
   try {
-    // Initialize TiddlyWiki HTTP client
-    initTiddlyWiki({
-      tiddlywikiUrl,
-      authHeader,
-      authUser,
-    });
+    // Initialize a TiddlyWiki HTTP client per wiki (default first)
+    for (const settings of wikis) {
+      initTiddlyWiki(
+        {
+          tiddlywikiUrl: settings.tiddlywikiUrl,
+          authUser: settings.authUser,
+          auth: settings.auth,
+          tls: settings.tls,
+          recipe: settings.recipe,
+          bag: settings.bag,
+          bulkText: settings.bulkText,
+        },
+        settings.name
+      );
+      wikiRuntimes.set(settings.name, {
+        settings,
+        embeddingsDB: null,
+        syncWorker: null,
+        tagCache: new TagCache(),
+      });
+    }
 
-    logger.debug(`[MCP Server] TiddlyWiki client initialized`);
+    logger.debug(`[MCP Server] TiddlyWiki clients initialized`);
 
     // Initialize embeddings infrastructure (if enabled)
     if (embeddingsEnabled) {
       try {
         logger.debug(`[MCP Server] Initializing embeddings infrastructure...`);
 
-        // Initialize database
-        embeddingsDB = new EmbeddingsDB(embeddingsDbPath);
-        logger.debug(`[MCP Server] Embeddings database initialized`);
+        if (!Number.isInteger(embeddingsDimension) || embeddingsDimension <= 0) {
+          throw new Error(`Invalid EMBEDDINGS_DIMENSION: ${process.env.EMBEDDINGS_DIMENSION}`);
+        }
+        if (onModelChange !== 'rebuild' && onModelChange !== 'fail') {
+          throw new Error(
+            `Invalid EMBEDDINGS_ON_MODEL_CHANGE: ${onModelChange}. Use 'rebuild' or 'fail'`
+          );
+        }
 
-        // Initialize Ollama client
-        ollamaClient = new OllamaClient(ollamaUrl);
+        // Initialize embedding provider (Ollama or OpenAI-compatible), shared by every wiki
+        embeddingProvider = createEmbeddingProvider();
+        logger.debug(
+          `[MCP Server] Embedding provider ready (${embeddingProvider.model}, ${embeddingsDimension} dimensions)`
+        );
 
-        // Check Ollama health
-        const healthy = await ollamaClient.healthCheck();
+        // Check embedding provider health
+        const healthy = await embeddingProvider.healthCheck();
         if (healthy) {
-          logger.debug(`[MCP Server] Ollama is healthy`);
+          logger.debug(`[MCP Server] Embedding provider (${embeddingProvider.name}) is healthy`);
         } else {
-          logger.warn(`[MCP Server] WARNING: Ollama is not responding at ${ollamaUrl}`);
-          logger.warn(`[MCP Server] Semantic search will not be available until Ollama is running`);
+          logger.warn(
+            `[MCP Server] WARNING: Embedding provider (${embeddingProvider.name}) is not responding`
+          );
+          logger.warn(
+            `[MCP Server] Semantic search will not be available until the embedding server is running`
+          );
         }
-
-        // Initialize and start sync worker
-        syncWorker = new SyncWorker(embeddingsDB, ollamaClient, {
-          syncIntervalMs: 5 * 60 * 1000, // 5 minutes
-          batchSize: 5,
-          enabled: true,
-        });
-
-        await syncWorker.start();
-        logger.debug(`[MCP Server] Sync worker started`);
-
-        const status = syncWorker.getStatus();
-        logger.log(
-          `[MCP Server] Embeddings ready (${status.indexedTiddlers} tiddlers, ${status.totalEmbeddings} chunks)`
-        );
       } catch (error) {
         const err = error as Error;
         logger.warn(`[MCP Server] WARNING: Failed to initialize embeddings: ${err.message}`);
         logger.warn(`[MCP Server] Semantic search will not be available`);
         // Don't fail startup, just disable embeddings
-        embeddingsDB = null;
-        ollamaClient = null;
-        syncWorker = null;
+        embeddingProvider = null;
+      }
+
+      if (embeddingProvider) {
+        for (const runtime of wikiRuntimes.values()) {
+          await startWikiEmbeddings(
+            runtime,
+            embeddingProvider,
+            embeddingsDimension,
+            onModelChange as 'rebuild' | 'fail'
+          );
+        }
       }
     }
 
@@ -500,23 +1285,13 @@ async function main() {
 // Graceful shutdown
 process.on('SIGINT', () => {
   logger.log(`[MCP Server] Shutting down...`);
-  if (syncWorker) {
-    syncWorker.stop();
-  }
-  if (embeddingsDB) {
-    embeddingsDB.close();
-  }
+  stopEmbeddings();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   logger.log(`[MCP Server] Shutting down...`);
-  if (syncWorker) {
-    syncWorker.stop();
-  }
-  if (embeddingsDB) {
-    embeddingsDB.close();
-  }
+  stopEmbeddings();
   process.exit(0);
 });
 
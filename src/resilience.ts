@@ -0,0 +1,85 @@
+// ABOUTME: Retry backoff and circuit breaker for requests to a remote server
+// ABOUTME: Spaces out retries with jittered exponential delays and fails fast while the server is down
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  openDurationMs: number;
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When an open circuit lets the next trial request through (ISO timestamp)
+  retryAt?: string;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): a random time up to baseMs × 2^attempt,
+ * capped at maxMs ("full jitter", so clients recovering together don't retry in step).
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random
+): number {
+  return Math.round(random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+/**
+ * Tracks consecutive failures of a server. After failureThreshold failures the circuit
+ * opens and requests are refused until openDurationMs has passed; then one trial request
+ * is let through (half-open), which closes the circuit on success or reopens it on failure.
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Whether a request may be made now. Moves an expired open circuit to half-open and
+   * admits the caller as its single trial request.
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'open' && now >= this.openedAt + this.options.openDurationMs) {
+      this.state = 'half-open';
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.state === 'open'
+        ? { retryAt: new Date(this.openedAt + this.options.openDurationMs).toISOString() }
+        : {}),
+    };
+  }
+}
@@ -0,0 +1,124 @@
+// ABOUTME: Tag listing for the wiki: usage counts, tag tiddler fields and tag-of-tag hierarchy
+// ABOUTME: Loads tag data with two filter queries and caches it until the wiki changes
+
+import { queryTiddlers, type Tiddler } from './tiddlywiki-http.js';
+import { parseStringArray } from './wikitext.js';
+import * as logger from './logger.js';
+
+// Fallback expiry for when no sync worker reports changes (embeddings disabled or unhealthy)
+export const DEFAULT_TAG_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface TagInfo {
+  tag: string;
+  count: number;
+  color?: string;
+  icon?: string;
+  caption?: string;
+  parents: string[]; // Tags of this tag's own tiddler
+  children: string[]; // Tags whose tiddler is tagged with this tag
+}
+
+/**
+ * Raw tag data as loaded from the wiki; summarized per request.
+ */
+export interface TagSnapshot {
+  taggers: Array<{ title: string; tags: string[] }>;
+  tagTiddlers: Map<string, Tiddler>;
+}
+
+function isSystemTitle(title: string): boolean {
+  return title.startsWith('$:/');
+}
+
+/**
+ * Read a field from a tiddler listing. Custom fields may be top-level or nested under `fields`.
+ */
+function getField(tiddler: Tiddler | undefined, name: string): string | undefined {
+  if (!tiddler) return undefined;
+  const value = tiddler[name] ?? tiddler.fields?.[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Load every tagged tiddler's tags and every existing tag tiddler, without text.
+ */
+export async function loadTagSnapshot(): Promise<TagSnapshot> {
+  const [tagged, tagTiddlers] = await Promise.all([
+    queryTiddlers('[all[tiddlers]has[tags]]'),
+    queryTiddlers('[all[tiddlers]tags[]]'),
+  ]);
+  logger.debug(
+    `[Tags] Loaded ${tagged.length} tagged tiddlers and ${tagTiddlers.length} tag tiddlers`
+  );
+  return {
+    taggers: tagged.map((t) => ({ title: t.title, tags: parseStringArray(t.tags) })),
+    tagTiddlers: new Map(tagTiddlers.map((t) => [t.title, t])),
+  };
+}
+
+/**
+ * Count tag usage and attach tag tiddler metadata. System tags ($:/...) and
+ * tags used only by system tiddlers are left out unless includeSystem is set.
+ */
+export function summarizeTags(snapshot: TagSnapshot, includeSystem: boolean = false): TagInfo[] {
+  const counts = new Map<string, number>();
+  for (const { title, tags } of snapshot.taggers) {
+    if (!includeSystem && isSystemTitle(title)) continue;
+    for (const tag of tags) {
+      if (!includeSystem && isSystemTitle(tag)) continue;
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  const tags = new Map<string, TagInfo>();
+  for (const [tag, count] of counts) {
+    const tiddler = snapshot.tagTiddlers.get(tag);
+    tags.set(tag, {
+      tag,
+      count,
+      color: getField(tiddler, 'color'),
+      icon: getField(tiddler, 'icon'),
+      caption: getField(tiddler, 'caption'),
+      parents: parseStringArray(tiddler?.tags).filter((parent) => counts.has(parent)),
+      children: [],
+    });
+  }
+  for (const info of tags.values()) {
+    for (const parent of info.parents) {
+      tags.get(parent)!.children.push(info.tag);
+    }
+  }
+
+  return [...tags.values()];
+}
+
+/**
+ * Caches the tag snapshot. Invalidated by write tools and when the sync worker detects a
+ * change, and expires after a TTL in case changes go unnoticed.
+ */
+export class TagCache {
+  private ttlMs: number;
+  private snapshot: Promise<TagSnapshot> | null = null;
+  private loadedAt: number = 0;
+
+  constructor(ttlMs: number = DEFAULT_TAG_CACHE_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  async get(): Promise<TagSnapshot> {
+    if (!this.snapshot || Date.now() - this.loadedAt > this.ttlMs) {
+      const loading = loadTagSnapshot();
+      this.snapshot = loading;
+      this.loadedAt = Date.now();
+      // Don't cache failures
+      loading.catch(() => {
+        if (this.snapshot === loading) this.snapshot = null;
+      });
+    }
+    return this.snapshot;
+  }
+}
@@ -0,0 +1,147 @@
+// ABOUTME: Partial text edits for tiddlers: append/prepend, find/replace, regex, headings, patches
+// ABOUTME: Lets callers change part of a long tiddler without resending its full text
+
+import { applyPatch } from 'diff';
+import { findHeadings } from './wikitext.js';
+import type { TextEditType } from './tools/types.js';
+
+/**
+ * Raised when an edit can't be applied unambiguously. `details` carries context
+ * for the caller, such as the available headings or the number of matches.
+ */
+export class TextEditError extends Error {
+  readonly details: Record<string, unknown>;
+
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'TextEditError';
+    this.details = details;
+  }
+}
+
+function countOccurrences(text: string, find: string): number {
+  return text.split(find).length - 1;
+}
+
+function insertAtHeading(
+  text: string,
+  heading: string,
+  insert: string,
+  position: 'start' | 'end',
+  markdown: boolean
+): string {
+  const lines = text.split('\n');
+  const headings = findHeadings(lines, markdown);
+  const wanted = heading.trim().toLowerCase();
+  const matches = headings.filter((h) => h.text.trim().toLowerCase() === wanted);
+
+  if (matches.length === 0) {
+    throw new TextEditError(`Heading not found: ${heading}`, {
+      headings: headings.map((h) => h.text),
+    });
+  }
+  if (matches.length > 1) {
+    throw new TextEditError(`Heading "${heading}" appears ${matches.length} times`, {
+      lines: matches.map((h) => h.line),
+      suggestion: 'Use a replace edit with enough surrounding text to be unique',
+    });
+  }
+
+  const target = matches[0];
+  let index = target.line; // 0-based index of the line after the heading
+  if (position === 'end') {
+    const next = headings.slice(headings.indexOf(target) + 1).find((h) => h.level <= target.level);
+    index = next ? next.line - 1 : lines.length;
+    // Keep blank lines that separate the section from the next heading
+    while (index > target.line && lines[index - 1].trim() === '') {
+      index--;
+    }
+  }
+
+  lines.splice(index, 0, ...insert.replace(/\n$/, '').split('\n'));
+  return lines.join('\n');
+}
+
+/**
+ * Apply one edit to a tiddler's text. Throws TextEditError if it doesn't apply cleanly.
+ */
+export function applyTextEdit(text: string, edit: TextEditType, markdown: boolean): string {
+  switch (edit.mode) {
+    case 'append':
+      return !text || text.endsWith('\n') ? text + edit.text : `${text}\n${edit.text}`;
+
+    case 'prepend':
+      return !text || edit.text.endsWith('\n') ? edit.text + text : `${edit.text}\n${text}`;
+
+    case 'replace': {
+      const count = countOccurrences(text, edit.find);
+      if (count === 0) {
+        throw new TextEditError('Text to replace was not found', { find: edit.find });
+      }
+      if (count > 1 && !edit.all) {
+        throw new TextEditError(`Text to replace occurs ${count} times`, {
+          find: edit.find,
+          matches: count,
+          suggestion: 'Include more surrounding text to make it unique, or set all: true',
+        });
+      }
+      if (edit.all) {
+        return text.split(edit.find).join(edit.replace);
+      }
+      const at = text.indexOf(edit.find);
+      return text.slice(0, at) + edit.replace + text.slice(at + edit.find.length);
+    }
+
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(edit.pattern, edit.flags ?? 'g');
+      } catch (error) {
+        throw new TextEditError(`Invalid regular expression: ${(error as Error).message}`, {
+          pattern: edit.pattern,
+        });
+      }
+      if (text.search(pattern) === -1) {
+        throw new TextEditError('Regular expression did not match', { pattern: edit.pattern });
+      }
+      return text.replace(pattern, edit.replace);
+    }
+
+    case 'insert_at_heading':
+      return insertAtHeading(text, edit.heading, edit.text, edit.position ?? 'end', markdown);
+
+    case 'patch': {
+      let patched: string | false;
+      try {
+        patched = applyPatch(text, edit.patch);
+      } catch (error) {
+        throw new TextEditError(`Invalid patch: ${(error as Error).message}`);
+      }
+      if (patched === false) {
+        throw new TextEditError('Patch does not apply to the current text', {
+          suggestion: 'Re-read the tiddler and generate the patch against its current text',
+        });
+      }
+      return patched;
+    }
+  }
+}
+
+/**
+ * Apply edits in order. A failure reports which edit (0-based) could not be applied.
+ */
+export function applyTextEdits(text: string, edits: TextEditType[], markdown: boolean): string {
+  return edits.reduce((current, edit, index) => {
+    try {
+      return applyTextEdit(current, edit, markdown);
+    } catch (error) {
+      if (error instanceof TextEditError) {
+        throw new TextEditError(`Edit ${index} (${edit.mode}): ${error.message}`, {
+          edit: index,
+          ...error.details,
+        });
+      }
+      throw error;
+    }
+  }, text);
+}
@@ -1,13 +1,49 @@
 // ABOUTME: HTTP client for TiddlyWiki server communication
 // ABOUTME: Handles tiddler CRUD operations with proper metadata preservation
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { getServiceUrl } from './service-discovery.js';
+import { CircuitBreaker, backoffDelay, type CircuitStatus } from './resilience.js';
+import { mapWithConcurrency, READ_CONCURRENCY } from './concurrency.js';
+import {
+  authHeaders,
+  createTlsDispatcher,
+  type WikiAuth,
+  type WikiTlsSettings,
+} from './wiki-auth.js';
+import type { Dispatcher } from 'undici';
 import * as logger from './logger.js';
 
 // Timeout configuration (in milliseconds)
 const TIMEOUT_READ = 30000; // 30 seconds for read operations
 const TIMEOUT_WRITE = 60000; // 60 seconds for write operations
 
+// Retry configuration: attempts per request and the jittered exponential backoff between them
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 2000;
+
+// Circuit breaker: consecutive failed attempts that mark a wiki unavailable, and how long
+// requests then fail fast before one is tried again
+const BREAKER_FAILURE_THRESHOLD = 5;
+const BREAKER_OPEN_MS = 30000;
+
+// Responses meaning the server, or a proxy in front of it, can't serve requests right now
+const UNAVAILABLE_STATUSES = new Set([502, 503, 504]);
+
+// Connection errors raised before a request reached the server
+const NOT_SENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+/**
+ * Thrown when a request exceeds its timeout
+ */
+class RequestTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
 /**
  * Fetch with timeout using AbortController
  */
@@ -28,7 +64,7 @@ async function fetchWithTimeout(
     return response;
   } catch (error) {
     if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`${operationName} timed out after ${timeoutMs}ms`);
+      throw new RequestTimeoutError(`${operationName} timed out after ${timeoutMs}ms`);
     }
     throw error;
   } finally {
@@ -36,6 +72,72 @@ async function fetchWithTimeout(
   }
 }
 
+/**
+ * The system error code behind a failed fetch (undici puts it on the cause)
+ */
+function connectionErrorCode(error: unknown): string | undefined {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+  return cause?.code ?? code;
+}
+
+/**
+ * Fetch from the current wiki, retrying failed attempts with jittered exponential backoff.
+ * Reads are retried after connection errors and 502/503/504 responses. Writes are retried
+ * only when the server can't have applied them: the connection was never made, or it
+ * answered 503. Timeouts aren't retried, since the attempt already used the whole timeout.
+ *
+ * Every attempt is reported to the wiki's circuit breaker; while it is open, requests fail
+ * fast with WikiUnavailableError instead of waiting on a server that is down.
+ */
+async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  timeoutMs: number,
+  operationName: string
+): Promise<Response> {
+  const wiki = currentWiki();
+  const method = options.method ?? 'GET';
+  const isRead = method === 'GET' || method === 'HEAD';
+  const requestOptions = wiki.dispatcher ? { ...options, dispatcher: wiki.dispatcher } : options;
+
+  for (let attempt = 1; ; attempt++) {
+    if (!wiki.breaker.tryAcquire()) {
+      throw new WikiUnavailableError(wiki.name, wiki.breaker.getStatus());
+    }
+
+    let failure: string;
+    try {
+      const response = await fetchWithTimeout(url, requestOptions, timeoutMs, operationName);
+      if (!UNAVAILABLE_STATUSES.has(response.status)) {
+        wiki.breaker.recordSuccess();
+        return response;
+      }
+      wiki.breaker.recordFailure();
+      if (attempt >= MAX_ATTEMPTS || !(isRead || response.status === 503)) {
+        return response;
+      }
+      await response.body?.cancel().catch(() => undefined);
+      failure = `${response.status} ${response.statusText}`;
+    } catch (error) {
+      wiki.breaker.recordFailure();
+      const code = connectionErrorCode(error);
+      const retryable =
+        !(error instanceof RequestTimeoutError) &&
+        (isRead || (code !== undefined && NOT_SENT_ERROR_CODES.has(code)));
+      if (attempt >= MAX_ATTEMPTS || !retryable) {
+        throw error;
+      }
+      failure = code ?? (error as Error).message;
+    }
+
+    const delay = backoffDelay(attempt - 1, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+    logger.warn(
+      `[TiddlyWiki HTTP] ${operationName} failed (${failure}); retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
 export interface Tiddler {
   title: string;
   text?: string;
@@ -50,36 +152,261 @@ export interface Tiddler {
   [key: string]: any; // Allow custom fields
 }
 
+/**
+ * Thrown when a write is rejected because the tiddler changed on the server (HTTP 412)
+ */
+export class TiddlerConflictError extends Error {
+  readonly title: string;
+
+  constructor(title: string, message: string) {
+    super(message);
+    this.name = 'TiddlerConflictError';
+    this.title = title;
+  }
+}
+
+export interface PutTiddlerOptions {
+  /** ETag of the revision being replaced; the server rejects the write if it has moved on */
+  ifMatch?: string;
+}
+
 export interface TiddlyWikiConfig {
   tiddlywikiUrl: string;
-  authHeader: string;
+  /** Username recorded as creator/modifier of tiddlers written through MCP */
   authUser: string;
+  /** How requests authenticate (credentials are kept apart from authUser) */
+  auth: WikiAuth;
+  /** CA and client certificate for HTTPS connections */
+  tls?: WikiTlsSettings;
+  /** Recipe tiddlers are read and written through (default: "default") */
+  recipe?: string;
+  /** Bag that writes through the recipe land in, where new tiddlers go (default: "default") */
+  bag?: string;
+  /**
+   * Fetch text for many tiddlers at once through tiddlers.json (needs a server that honours
+   * its `exclude` parameter) instead of one request per tiddler
+   */
+  bulkText?: boolean;
 }
 
-let config: TiddlyWikiConfig | null = null;
-let baseUrlCache: string | null = null;
-let cacheTime: number = 0;
+// Name of the wiki when only one is configured
+export const DEFAULT_WIKI_NAME = 'default';
+
+// TiddlyWiki's own server has a single recipe and bag, both named "default"
+export const DEFAULT_RECIPE = 'default';
+export const DEFAULT_BAG = 'default';
+
 const CACHE_TTL = 60000; // 1 minute
 
-// Mutex for base URL resolution to prevent duplicate DNS lookups
-let pendingResolution: Promise<string> | null = null;
+// Recently read tiddler revisions, used as the base for three-way conflict diffs
+const SNAPSHOT_MAX_TITLES = 200;
+const SNAPSHOTS_PER_TITLE = 5;
+
+// Titles per tiddlers.json request when fetching text in bulk, keeping the URL short
+const BULK_TITLES_PER_REQUEST = 50;
 
 /**
- * Initialize the TiddlyWiki HTTP client
+ * Connection state for one configured wiki
  */
-export function initTiddlyWiki(cfg: TiddlyWikiConfig): void {
-  config = cfg;
-  logger.log('[TiddlyWiki HTTP] Initialized with URL:', cfg.tiddlywikiUrl);
+interface WikiState {
+  name: string;
+  config: TiddlyWikiConfig;
+  baseUrlCache: string | null;
+  cacheTime: number;
+  // Mutex for base URL resolution to prevent duplicate DNS lookups
+  pendingResolution: Promise<string> | null;
+  snapshots: Map<string, Tiddler[]>;
+  // In-flight reads by title, shared by concurrent getTiddler calls
+  pendingReads: Map<string, Promise<Tiddler | null>>;
+  breaker: CircuitBreaker;
+  // HTTP client with the wiki's TLS settings, when it has any
+  dispatcher?: Dispatcher;
 }
 
+const wikis = new Map<string, WikiState>();
+let defaultWiki: string | null = null;
+
+// The wiki selected for the current tool call or sync cycle (see runWithWiki)
+const activeWiki = new AsyncLocalStorage<WikiState>();
+
 /**
- * Get the configured auth user
+ * Thrown when a call names a wiki that isn't configured
  */
-export function getAuthUser(): string {
-  if (!config) {
+export class UnknownWikiError extends Error {
+  constructor(name: string) {
+    super(`Unknown wiki: ${name}. Available: ${[...wikis.keys()].join(', ')}`);
+    this.name = 'UnknownWikiError';
+  }
+}
+
+/**
+ * Thrown instead of making a request while a wiki's circuit breaker is open
+ */
+export class WikiUnavailableError extends Error {
+  readonly wiki: string;
+
+  constructor(wiki: string, status: CircuitStatus) {
+    super(
+      `Wiki "${wiki}" is unavailable: ${status.consecutiveFailures} consecutive requests failed. ` +
+        `Requests fail fast until ${status.retryAt ?? 'the current trial request finishes'}`
+    );
+    this.name = 'WikiUnavailableError';
+    this.wiki = wiki;
+  }
+}
+
+/**
+ * The wiki requests go to: the one selected with runWithWiki, else the default
+ */
+function currentWiki(): WikiState {
+  const wiki = activeWiki.getStore() ?? (defaultWiki ? wikis.get(defaultWiki) : undefined);
+  if (!wiki) {
     throw new Error('TiddlyWiki client not initialized');
   }
-  return config.authUser;
+  return wiki;
+}
+
+/**
+ * The current wiki's recipe path, e.g. "/recipes/default"
+ */
+function recipePath(): string {
+  return `/recipes/${encodeURIComponent(currentWiki().config.recipe ?? DEFAULT_RECIPE)}`;
+}
+
+/**
+ * The bag new tiddlers are written to. Falls back to "default" before initialization so
+ * ETags can still be built.
+ */
+function configuredBag(): string {
+  const wiki = activeWiki.getStore() ?? (defaultWiki ? wikis.get(defaultWiki) : undefined);
+  return wiki?.config.bag ?? DEFAULT_BAG;
+}
+
+/**
+ * Report the bag on a tiddler from the server. TiddlyWiki's server leaves it out of
+ * listings, since everything there lives in its one bag.
+ */
+function withBag(tiddler: Tiddler): Tiddler {
+  return tiddler.bag ? tiddler : { ...tiddler, bag: configuredBag() };
+}
+
+/**
+ * Remember a tiddler as read from the server (bounded, oldest titles evicted first)
+ */
+function rememberSnapshot(tiddler: Tiddler): void {
+  const { snapshots } = currentWiki();
+  const history = snapshots.get(tiddler.title) || [];
+  snapshots.delete(tiddler.title); // Re-insert to mark as most recently used
+
+  const latest = history[history.length - 1];
+  if (!latest || latest.revision !== tiddler.revision || latest.modified !== tiddler.modified) {
+    history.push(tiddler);
+  }
+  snapshots.set(tiddler.title, history.slice(-SNAPSHOTS_PER_TITLE));
+
+  if (snapshots.size > SNAPSHOT_MAX_TITLES) {
+    const oldest = snapshots.keys().next().value;
+    if (oldest !== undefined) {
+      snapshots.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Look up a previously read version of a tiddler by revision and/or modified timestamp
+ */
+export function getTiddlerSnapshot(
+  title: string,
+  match: { revision?: string | number; modified?: string }
+): Tiddler | null {
+  const history = currentWiki().snapshots.get(title) || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const snapshot = history[i];
+    const revisionMatches =
+      match.revision === undefined || String(snapshot.revision) === String(match.revision);
+    const modifiedMatches = match.modified === undefined || snapshot.modified === match.modified;
+    if (revisionMatches && modifiedMatches) {
+      return snapshot;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the TiddlyWeb ETag for a tiddler as served by TiddlyWiki ("bag/title/revision:").
+ * Returns null when the tiddler has no revision (e.g., it was never read from the server).
+ */
+export function getTiddlerEtag(tiddler: Tiddler): string | null {
+  if (tiddler.revision === undefined || tiddler.revision === null) {
+    return null;
+  }
+  const bag = tiddler.bag || configuredBag();
+  return `"${bag}/${encodeURIComponent(tiddler.title)}/${tiddler.revision}:"`;
+}
+
+/**
+ * Initialize the TiddlyWiki HTTP client for a wiki. The first wiki initialized is the
+ * default; initializing a name again replaces its configuration.
+ */
+export function initTiddlyWiki(cfg: TiddlyWikiConfig, name: string = DEFAULT_WIKI_NAME): void {
+  wikis.set(name, {
+    name,
+    config: cfg,
+    baseUrlCache: null,
+    cacheTime: 0,
+    pendingResolution: null,
+    snapshots: new Map(),
+    pendingReads: new Map(),
+    breaker: new CircuitBreaker({
+      failureThreshold: BREAKER_FAILURE_THRESHOLD,
+      openDurationMs: BREAKER_OPEN_MS,
+    }),
+    dispatcher: createTlsDispatcher(cfg.tls),
+  });
+  defaultWiki ??= name;
+  logger.log(`[TiddlyWiki HTTP] Initialized wiki "${name}" with URL:`, cfg.tiddlywikiUrl);
+}
+
+/**
+ * Names of the initialized wikis, default first
+ */
+export function listWikis(): string[] {
+  return [...wikis.keys()].sort((a, b) => Number(b === defaultWiki) - Number(a === defaultWiki));
+}
+
+/**
+ * Circuit breaker state of every wiki, for health reporting
+ */
+export function getCircuitStatus(): Record<string, CircuitStatus> {
+  return Object.fromEntries(
+    listWikis().map((name) => [name, wikis.get(name)!.breaker.getStatus()])
+  );
+}
+
+/**
+ * Name of the wiki requests currently go to
+ */
+export function getWikiName(): string {
+  return currentWiki().name;
+}
+
+/**
+ * Run fn with every client call inside it (including ones it schedules) sent to the named
+ * wiki. Without a name, calls go to the default wiki.
+ */
+export function runWithWiki<T>(name: string | undefined, fn: () => T): T {
+  const wiki = wikis.get(name ?? defaultWiki ?? DEFAULT_WIKI_NAME);
+  if (!wiki) {
+    throw new UnknownWikiError(name ?? DEFAULT_WIKI_NAME);
+  }
+  return activeWiki.run(wiki, fn);
+}
+
+/**
+ * Get the configured auth user
+ */
+export function getAuthUser(): string {
+  return currentWiki().config.authUser;
 }
 
 /**
@@ -90,48 +417,40 @@ export function getAuthUser(): string {
  * resolution, subsequent requests await the same promise.
  */
 async function getBaseUrl(): Promise<string> {
-  if (!config) {
-    throw new Error('TiddlyWiki client not initialized');
-  }
-
+  const wiki = currentWiki();
   const now = Date.now();
 
   // Return cached value if still valid
-  if (baseUrlCache && now - cacheTime < CACHE_TTL) {
-    return baseUrlCache;
+  if (wiki.baseUrlCache && now - wiki.cacheTime < CACHE_TTL) {
+    return wiki.baseUrlCache;
   }
 
   // If resolution is already in progress, wait for it
-  if (pendingResolution) {
-    return pendingResolution;
+  if (wiki.pendingResolution) {
+    return wiki.pendingResolution;
   }
 
   // Start new resolution with mutex
-  pendingResolution = (async () => {
+  wiki.pendingResolution = (async () => {
     try {
-      const url = await getServiceUrl(config!.tiddlywikiUrl, '');
-      baseUrlCache = url;
-      cacheTime = Date.now();
+      const url = await getServiceUrl(wiki.config.tiddlywikiUrl, '');
+      wiki.baseUrlCache = url;
+      wiki.cacheTime = Date.now();
       return url;
     } finally {
-      pendingResolution = null;
+      wiki.pendingResolution = null;
     }
   })();
 
-  return pendingResolution;
+  return wiki.pendingResolution;
 }
 
 /**
  * Get common headers for TiddlyWiki API requests
  */
 function getHeaders(includeJson: boolean = false): HeadersInit {
-  if (!config) {
-    throw new Error('TiddlyWiki client not initialized');
-  }
-
-  const headers: HeadersInit = {
-    [config.authHeader]: config.authUser,
-  };
+  const { config } = currentWiki();
+  const headers: HeadersInit = authHeaders(config.auth);
 
   if (includeJson) {
     headers['Content-Type'] = 'application/json';
@@ -142,24 +461,20 @@ function getHeaders(includeJson: boolean = false): HeadersInit {
 }
 
 /**
- * Query tiddlers using filter syntax
+ * Fetch tiddlers.json for a filter. Without text, that's the server's default; with text,
+ * `exclude` is set to a field the server adds back anyway, so nothing is left out.
  */
-export async function queryTiddlers(
-  filter: string,
-  includeText: boolean = false,
-  offset: number = 0,
-  limit?: number
-): Promise<Tiddler[]> {
+async function listTiddlers(filter: string, withText: boolean): Promise<Tiddler[]> {
   const baseUrl = await getBaseUrl();
   const encodedFilter = encodeURIComponent(filter);
-  const url = `${baseUrl}/recipes/default/tiddlers.json?filter=${encodedFilter}`;
+  const url =
+    `${baseUrl}${recipePath()}/tiddlers.json?filter=${encodedFilter}` +
+    (withText ? '&exclude=revision' : '');
 
   const filterPreview = filter.length > 80 ? filter.substring(0, 80) + '...' : filter;
-  logger.debug(
-    `[TiddlyWiki HTTP] queryTiddlers: filter="${filterPreview}" includeText=${includeText}`
-  );
+  logger.debug(`[TiddlyWiki HTTP] queryTiddlers: filter="${filterPreview}" withText=${withText}`);
 
-  const response = await fetchWithTimeout(
+  const response = await fetchWithRetry(
     url,
     { method: 'GET', headers: getHeaders() },
     TIMEOUT_READ,
@@ -174,52 +489,150 @@ export async function queryTiddlers(
     throw new Error(`Failed to query tiddlers: ${response.status} ${response.statusText}`);
   }
 
-  let tiddlers = (await response.json()) as Tiddler[];
+  const tiddlers = ((await response.json()) as Tiddler[]).map(withBag);
   logger.debug(`[TiddlyWiki HTTP] queryTiddlers: ${tiddlers.length} tiddlers matched`);
+  return tiddlers;
+}
+
+/**
+ * Query tiddlers using filter syntax
+ */
+export async function queryTiddlers(
+  filter: string,
+  includeText: boolean = false,
+  offset: number = 0,
+  limit?: number
+): Promise<Tiddler[]> {
+  // If includeText is false, the API already excludes text by default
+  if (!includeText) {
+    const tiddlers = await listTiddlers(filter, false);
+    return tiddlers.slice(offset, limit !== undefined ? offset + limit : undefined);
+  }
+
+  const { tiddlers, unreadable } = await queryTiddlersWithText(filter, offset, limit);
+  if (unreadable.length > 0) {
+    logger.warn(
+      `[TiddlyWiki HTTP] ${unreadable.length}/${tiddlers.length + unreadable.length} tiddlers failed to fetch`
+    );
+  }
+  return tiddlers;
+}
+
+/**
+ * Query tiddlers with their text, reporting the matches whose text could not be read
+ * instead of dropping them. For callers that must change every match or none.
+ */
+export async function queryTiddlersWithText(
+  filter: string,
+  offset: number = 0,
+  limit?: number
+): Promise<{ tiddlers: Tiddler[]; unreadable: Array<{ title: string; error: string }> }> {
+  let listed = await listTiddlers(filter, false);
 
   // Apply offset and limit BEFORE fetching full content (optimization)
   const endIndex = limit !== undefined ? offset + limit : undefined;
-  tiddlers = tiddlers.slice(offset, endIndex);
+  listed = listed.slice(offset, endIndex);
+  if (listed.length === 0) {
+    return { tiddlers: [], unreadable: [] };
+  }
 
-  // If includeText is false, the API already excludes text by default
-  // If includeText is true, we need to fetch each tiddler individually
-  if (includeText && tiddlers.length > 0) {
-    logger.debug(`[TiddlyWiki HTTP] Fetching full content for ${tiddlers.length} tiddlers...`);
+  logger.debug(`[TiddlyWiki HTTP] Fetching full content for ${listed.length} tiddlers...`);
+  const results = await getTiddlers(listed.map((t) => t.title));
+
+  const tiddlers: Tiddler[] = [];
+  const unreadable: Array<{ title: string; error: string }> = [];
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      const reason = result.reason;
+      unreadable.push({
+        title: listed[i].title,
+        error: reason instanceof Error ? reason.message : String(reason),
+      });
+    } else if (result.value) {
+      tiddlers.push(result.value);
+    }
+  });
 
-    // Use Promise.allSettled to avoid cascade failures
-    const results = await Promise.allSettled(tiddlers.map((t) => getTiddler(t.title)));
+  logger.debug(`[TiddlyWiki HTTP] Successfully fetched ${tiddlers.length} tiddlers with content`);
+  return { tiddlers, unreadable };
+}
 
-    const successful = results
-      .filter((r): r is PromiseFulfilledResult<Tiddler | null> => r.status === 'fulfilled')
-      .map((r) => r.value)
-      .filter((t): t is Tiddler => t !== null);
+/**
+ * Get several tiddlers with their text, settled per title in input order (null when a
+ * tiddler doesn't exist). With bulkText configured, titles are fetched in groups through
+ * tiddlers.json; otherwise one getTiddler each. Either way only a few requests are in flight.
+ */
+export async function getTiddlers(
+  titles: string[]
+): Promise<PromiseSettledResult<Tiddler | null>[]> {
+  if (!currentWiki().config.bulkText) {
+    return mapWithConcurrency(titles, READ_CONCURRENCY, (title) => getTiddler(title));
+  }
 
-    const failed = results.filter((r) => r.status === 'rejected').length;
-    if (failed > 0) {
-      logger.warn(`[TiddlyWiki HTTP] ${failed}/${tiddlers.length} tiddlers failed to fetch`);
-    }
+  // A title containing "]" can't be written as a [[title]] filter run; fetch those singly
+  const listable: number[] = [];
+  const single: number[] = [];
+  titles.forEach((title, index) => (title.includes(']') ? single : listable).push(index));
 
-    logger.debug(
-      `[TiddlyWiki HTTP] Successfully fetched ${successful.length} tiddlers with content`
-    );
-    return successful;
+  const groups: number[][] = [];
+  for (let i = 0; i < listable.length; i += BULK_TITLES_PER_REQUEST) {
+    groups.push(listable.slice(i, i + BULK_TITLES_PER_REQUEST));
   }
 
-  return tiddlers;
+  const results: PromiseSettledResult<Tiddler | null>[] = new Array(titles.length);
+  await mapWithConcurrency(groups, READ_CONCURRENCY, async (group) => {
+    try {
+      const filter = group.map((index) => `[[${titles[index]}]]`).join(' ');
+      const found = new Map<string, Tiddler>();
+      for (const tiddler of await listTiddlers(filter, true)) {
+        rememberSnapshot(tiddler);
+        found.set(tiddler.title, tiddler);
+      }
+      for (const index of group) {
+        results[index] = { status: 'fulfilled', value: found.get(titles[index]) ?? null };
+      }
+    } catch (reason) {
+      for (const index of group) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  });
+
+  const singles = await mapWithConcurrency(single, READ_CONCURRENCY, (index) =>
+    getTiddler(titles[index])
+  );
+  single.forEach((index, i) => (results[index] = singles[i]));
+  return results;
 }
 
 /**
- * Get a single tiddler by title
+ * Get a single tiddler by title. Concurrent reads of the same title share one request;
+ * each caller gets its own copy of the tiddler.
  */
-export async function getTiddler(title: string): Promise<Tiddler | null> {
+export function getTiddler(title: string): Promise<Tiddler | null> {
+  const { pendingReads } = currentWiki();
+  let read = pendingReads.get(title);
+  if (!read) {
+    const started = fetchTiddler(title).finally(() => {
+      if (pendingReads.get(title) === started) {
+        pendingReads.delete(title);
+      }
+    });
+    pendingReads.set(title, started);
+    read = started;
+  }
+  return read.then((tiddler) => (tiddler ? structuredClone(tiddler) : null));
+}
+
+async function fetchTiddler(title: string): Promise<Tiddler | null> {
   const baseUrl = await getBaseUrl();
   const encodedTitle = encodeURIComponent(title);
-  const url = `${baseUrl}/recipes/default/tiddlers/${encodedTitle}`;
+  const url = `${baseUrl}${recipePath()}/tiddlers/${encodedTitle}`;
 
   const titlePreview = title.length > 50 ? title.substring(0, 50) + '...' : title;
   logger.debug(`[TiddlyWiki HTTP] getTiddler: "${titlePreview}"`);
 
-  const response = await fetchWithTimeout(
+  const response = await fetchWithRetry(
     url,
     { method: 'GET', headers: getHeaders() },
     TIMEOUT_READ,
@@ -240,37 +653,102 @@ export async function getTiddler(title: string): Promise<Tiddler | null> {
   }
 
   logger.debug(`[TiddlyWiki HTTP] getTiddler: "${titlePreview}" OK`);
-  return (await response.json()) as Tiddler;
+  const tiddler = withBag((await response.json()) as Tiddler);
+  rememberSnapshot(tiddler);
+  return tiddler;
+}
+
+/**
+ * Get a tiddler rendered to HTML by the server (wikitext, macros and transclusions resolved).
+ * Uses TiddlyWiki's static rendering route and returns the page body, or null if not found.
+ */
+export async function renderTiddler(title: string): Promise<string | null> {
+  const baseUrl = await getBaseUrl();
+  const encodedTitle = encodeURIComponent(title);
+  const url = `${baseUrl}/${encodedTitle}`;
+
+  const titlePreview = title.length > 50 ? title.substring(0, 50) + '...' : title;
+  logger.debug(`[TiddlyWiki HTTP] renderTiddler: "${titlePreview}"`);
+
+  const response = await fetchWithRetry(
+    url,
+    { method: 'GET', headers: getHeaders() },
+    TIMEOUT_READ,
+    `renderTiddler("${titlePreview}")`
+  );
+
+  if (response.status === 404) {
+    logger.debug(`[TiddlyWiki HTTP] renderTiddler: "${titlePreview}" not found (404)`);
+    return null;
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => '(no body)');
+    logger.error(
+      `[TiddlyWiki HTTP] renderTiddler failed: ${response.status} ${response.statusText} - ${errorBody}`
+    );
+    throw new Error(
+      `Failed to render tiddler "${title}": ${response.status} ${response.statusText}`
+    );
+  }
+
+  const html = await response.text();
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  logger.debug(`[TiddlyWiki HTTP] renderTiddler: "${titlePreview}" OK`);
+  return (body ? body[1] : html).trim();
 }
 
 /**
- * Create or update a tiddler
+ * Create or update a tiddler.
+ * The write goes back to the tiddler's bag: through the recipe for the configured bag
+ * (the only write route TiddlyWiki's own server has) and new tiddlers, straight to the bag
+ * otherwise. With options.ifMatch, the write only succeeds if the server still has that revision.
  */
-export async function putTiddler(tiddler: Tiddler): Promise<void> {
+export async function putTiddler(tiddler: Tiddler, options: PutTiddlerOptions = {}): Promise<void> {
   const baseUrl = await getBaseUrl();
   const encodedTitle = encodeURIComponent(tiddler.title);
-  const url = `${baseUrl}/recipes/default/tiddlers/${encodedTitle}`;
+  const path =
+    !tiddler.bag || tiddler.bag === configuredBag()
+      ? recipePath()
+      : `/bags/${encodeURIComponent(tiddler.bag)}`;
+  const url = `${baseUrl}${path}/tiddlers/${encodedTitle}`;
 
   // Remove server-managed fields (but keep modified/modifier which we set explicitly)
   const { revision, bag, ...tiddlerFields } = tiddler;
 
+  // A read already in flight may predate this write; later reads make their own request
+  currentWiki().pendingReads.delete(tiddler.title);
+
   const titlePreview =
     tiddler.title.length > 50 ? tiddler.title.substring(0, 50) + '...' : tiddler.title;
   logger.debug(
     `[TiddlyWiki HTTP] putTiddler: "${titlePreview}" (${JSON.stringify(tiddlerFields).length} bytes)`
   );
 
-  const response = await fetchWithTimeout(
+  const headers = getHeaders(true) as Record<string, string>;
+  if (options.ifMatch) {
+    headers['If-Match'] = options.ifMatch;
+  }
+
+  const response = await fetchWithRetry(
     url,
     {
       method: 'PUT',
-      headers: getHeaders(true),
+      headers,
       body: JSON.stringify(tiddlerFields),
     },
     TIMEOUT_WRITE,
     `putTiddler("${titlePreview}")`
   );
 
+  if (response.status === 412) {
+    logger.warn(`[TiddlyWiki HTTP] putTiddler: "${titlePreview}" changed on server (412)`);
+    throw new TiddlerConflictError(
+      tiddler.title,
+      `Tiddler "${tiddler.title}" was modified on the server since it was read`
+    );
+  }
+
   if (!response.ok) {
     const errorBody = await response.text().catch(() => '(no body)');
     logger.error(
@@ -285,17 +763,18 @@ export async function putTiddler(tiddler: Tiddler): Promise<void> {
 }
 
 /**
- * Delete a tiddler
+ * Delete a tiddler from its bag (the configured bag if not given)
  */
-export async function deleteTiddler(title: string): Promise<void> {
+export async function deleteTiddler(title: string, bag: string = configuredBag()): Promise<void> {
   const baseUrl = await getBaseUrl();
   const encodedTitle = encodeURIComponent(title);
-  const url = `${baseUrl}/bags/default/tiddlers/${encodedTitle}`;
+  const url = `${baseUrl}/bags/${encodeURIComponent(bag)}/tiddlers/${encodedTitle}`;
 
   const titlePreview = title.length > 50 ? title.substring(0, 50) + '...' : title;
   logger.debug(`[TiddlyWiki HTTP] deleteTiddler: "${titlePreview}"`);
+  currentWiki().pendingReads.delete(title);
 
-  const response = await fetchWithTimeout(
+  const response = await fetchWithRetry(
     url,
     {
       method: 'DELETE',
@@ -373,8 +852,7 @@ export function updateTiddlerObject(
     // Set modification metadata
     modified: generateTimestamp(),
     modifier,
-    // Remove server-managed fields
+    // Remove the server-managed revision; the bag stays so the write goes back to it
     revision: undefined,
-    bag: undefined,
   };
 }
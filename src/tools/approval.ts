@@ -0,0 +1,180 @@
+// ABOUTME: Approval flow for tools that write to the wiki
+// ABOUTME: Uses MCP elicitation when available, otherwise a propose/commit token exchange
+
+import { createHash, randomUUID } from 'node:crypto';
+import { getWikiName } from '../tiddlywiki-http.js';
+import * as logger from '../logger.js';
+import type { ToolResult } from './types.js';
+
+// How long a proposal token stays valid (10 minutes)
+const PROPOSAL_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Per-request approval capabilities, provided by the MCP server.
+ */
+export interface ApprovalContext {
+  /**
+   * Ask the user to confirm a change via MCP elicitation. Resolves to true when approved.
+   * Null when the connected client does not support elicitation.
+   */
+  elicit: ((message: string) => Promise<boolean>) | null;
+}
+
+/**
+ * Approval context for clients without elicitation support (token flow only).
+ */
+export const NO_ELICITATION: ApprovalContext = { elicit: null };
+
+export interface ApprovalRequest {
+  /** Tool name, used in instructions and to scope tokens */
+  tool: string;
+  /** One-line description of the change, e.g. 'Update "My Tiddler"' */
+  summary: string;
+  /** Diff or preview shown to the user before anything is written */
+  preview: string;
+  /** Anything the change depends on (tool arguments, current tiddler state) */
+  subject: unknown;
+  /** Token from a previous proposal, if the caller is committing */
+  confirmationToken?: string;
+}
+
+export type ApprovalOutcome = { approved: true } | { approved: false; result: ToolResult };
+
+interface Proposal {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Pending proposals live at module level so they survive across stateless HTTP requests
+const proposals = new Map<string, Proposal>();
+
+/**
+ * Hash the tool name, target wiki and subject so a token only commits the exact change it
+ * was issued for, in the wiki it was proposed against.
+ */
+function fingerprint(tool: string, wiki: string, subject: unknown): string {
+  return createHash('sha256').update(JSON.stringify({ tool, wiki, subject })).digest('hex');
+}
+
+/**
+ * The summary shown to the user, naming the wiki the change goes to
+ */
+function describe(request: ApprovalRequest, wiki: string): string {
+  return `${request.summary} (wiki "${wiki}")`;
+}
+
+function pruneExpired(now: number): void {
+  for (const [token, proposal] of proposals) {
+    if (proposal.expiresAt <= now) {
+      proposals.delete(token);
+    }
+  }
+}
+
+/**
+ * Store a proposal and return a result asking the caller to confirm it.
+ */
+function propose(request: ApprovalRequest, wiki: string, note?: string): ToolResult {
+  const token = randomUUID();
+  proposals.set(token, {
+    fingerprint: fingerprint(request.tool, wiki, request.subject),
+    expiresAt: Date.now() + PROPOSAL_TTL_MS,
+  });
+
+  const lines: string[] = [];
+  if (note) {
+    lines.push(note);
+    lines.push('');
+  }
+  lines.push(`## Proposed: ${describe(request, wiki)}`);
+  lines.push('');
+  lines.push(request.preview);
+  lines.push('');
+  lines.push(
+    `**Nothing has been written yet.** Show this change to the user. Once they approve, call \`${request.tool}\` again with the same arguments plus \`"confirmationToken": "${token}"\` (valid for ${PROPOSAL_TTL_MS / 60000} minutes).`
+  );
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+  };
+}
+
+/**
+ * Ensure the user has approved a change before it is applied.
+ *
+ * - With a confirmationToken: approves if the token matches this exact change and hasn't expired.
+ * - With elicitation support: asks the user directly and waits for the answer.
+ * - Otherwise: returns a proposal with a token that must be sent back to commit.
+ */
+export async function requestApproval(
+  ctx: ApprovalContext,
+  request: ApprovalRequest
+): Promise<ApprovalOutcome> {
+  const now = Date.now();
+  pruneExpired(now);
+  const wiki = getWikiName();
+
+  if (request.confirmationToken !== undefined) {
+    const proposal = proposals.get(request.confirmationToken);
+    if (!proposal) {
+      return {
+        approved: false,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  error: 'Confirmation token is invalid or has expired',
+                  suggestion: `Call ${request.tool} again without confirmationToken to get a new proposal`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        },
+      };
+    }
+
+    // Tokens are single-use
+    proposals.delete(request.confirmationToken);
+
+    if (proposal.fingerprint !== fingerprint(request.tool, wiki, request.subject)) {
+      const result = propose(
+        request,
+        wiki,
+        '**The arguments, the target wiki or the tiddler changed since the proposal was made.** Review the updated proposal below.'
+      );
+      return { approved: false, result: { ...result, isError: true } };
+    }
+
+    return { approved: true };
+  }
+
+  if (ctx.elicit) {
+    try {
+      const approved = await ctx.elicit(`${describe(request, wiki)}\n\n${request.preview}`);
+      if (approved) {
+        return { approved: true };
+      }
+      return {
+        approved: false,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: `## Declined: ${describe(request, wiki)}\n\nThe user did not approve this change. Nothing was written.`,
+            },
+          ],
+        },
+      };
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Approval] Elicitation failed, falling back to confirmation token: ${errMsg}`);
+    }
+  }
+
+  return { approved: false, result: propose(request, wiki) };
+}
@@ -0,0 +1,331 @@
+// ABOUTME: Handler for the batch_tiddlers MCP tool
+// ABOUTME: Validates, previews and applies many create/update/delete operations in one call
+
+import {
+  getTiddler,
+  putTiddler,
+  deleteTiddler,
+  createTiddlerObject,
+  updateTiddlerObject,
+  getAuthUser,
+  getTiddlerEtag,
+  type Tiddler,
+} from '../tiddlywiki-http.js';
+import { mapWithConcurrency, READ_CONCURRENCY, WRITE_CONCURRENCY } from '../concurrency.js';
+import * as logger from '../logger.js';
+import type { ToolResult, ToolDependencies, BatchOperationType } from './types.js';
+import { BatchTiddlersInput } from './types.js';
+import { formatTiddlerPreview } from './create-tiddler.js';
+import { generateTiddlerDiff, matchesExpectation } from './update-tiddler.js';
+import { flattenFields } from './merge-tiddlers.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
+
+/**
+ * A validated operation with the tiddler state before and after it.
+ */
+interface PlannedOperation {
+  index: number;
+  op: BatchOperationType['op'];
+  title: string;
+  current: Tiddler | null;
+  next: Tiddler | null;
+}
+
+type ItemStatus = 'applied' | 'failed' | 'skipped' | 'rolled_back' | 'rollback_failed';
+
+interface ItemResult {
+  index: number;
+  op: BatchOperationType['op'];
+  title: string;
+  status: ItemStatus;
+  error?: string;
+}
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check one operation against the tiddler's current state and build the resulting tiddler.
+ * Returns an error string if the operation can't be applied.
+ */
+function planOperation(
+  operation: BatchOperationType,
+  index: number,
+  current: Tiddler | null
+): PlannedOperation | string {
+  const base = { index, op: operation.op, title: operation.title, current };
+
+  switch (operation.op) {
+    case 'create': {
+      if (current) {
+        return 'Tiddler already exists';
+      }
+      const { op: _op, title, text, tags, type, ...customFields } = operation;
+      const next = {
+        ...createTiddlerObject(title, text, tags || '', type || 'text/markdown', getAuthUser()),
+        ...customFields,
+      };
+      return { ...base, next };
+    }
+
+    case 'update': {
+      if (!current) {
+        return 'Tiddler not found';
+      }
+      const {
+        op: _op,
+        title: _title,
+        text,
+        tags,
+        type,
+        expectedRevision,
+        expectedModified,
+        ...customFields
+      } = operation;
+      if (!matchesExpectation(current, expectedRevision, expectedModified)) {
+        return `Conflict: tiddler was modified since the expected revision (current revision: ${current.revision}, modified: ${current.modified})`;
+      }
+      const updates: Partial<Tiddler> = { ...customFields };
+      if (text !== undefined) updates.text = text;
+      if (tags !== undefined) updates.tags = tags;
+      if (type !== undefined) updates.type = type;
+      // Flatten first: TiddlyWeb prefers nested `fields` values over top-level ones
+      return {
+        ...base,
+        next: updateTiddlerObject(flattenFields(current), updates, getAuthUser()),
+      };
+    }
+
+    case 'delete': {
+      if (!current) {
+        return 'Tiddler not found';
+      }
+      return { ...base, next: null };
+    }
+  }
+}
+
+function formatOperationPreview(item: PlannedOperation, position: number): string {
+  switch (item.op) {
+    case 'create':
+      return `### ${position}. Create "${item.title}"\n\n${formatTiddlerPreview(item.next!)}`;
+    case 'update':
+      return `### ${position}. Update "${item.title}"\n\n${generateTiddlerDiff(item.current!, item.next!) || '(no changes)'}`;
+    case 'delete':
+      return `### ${position}. Delete "${item.title}"\n\n${formatTiddlerPreview(item.current!)}`;
+  }
+}
+
+async function applyOperation(item: PlannedOperation): Promise<void> {
+  switch (item.op) {
+    case 'create':
+      await putTiddler(item.next!);
+      return;
+    case 'update':
+      await putTiddler(item.next!, { ifMatch: getTiddlerEtag(item.current!) ?? undefined });
+      return;
+    case 'delete':
+      await deleteTiddler(item.title, item.current?.bag);
+      return;
+  }
+}
+
+async function undoOperation(item: PlannedOperation): Promise<void> {
+  if (item.op === 'create') {
+    await deleteTiddler(item.title, item.next?.bag);
+  } else {
+    // Restores the previous content of updated and deleted tiddlers
+    await putTiddler(item.current!);
+  }
+}
+
+/**
+ * Handle batch_tiddlers tool requests.
+ * All operations are validated before anything is written, shown as one preview for approval,
+ * then applied with bounded concurrency. Optionally rolls back applied operations on failure.
+ */
+export async function handleBatchTiddlers(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
+  const input = BatchTiddlersInput.parse(args);
+  const { operations } = input;
+  const rollbackOnFailure = input.rollbackOnFailure ?? false;
+
+  // A title may only appear once, so operations never depend on each other's order
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const operation of operations) {
+    if (seen.has(operation.title)) duplicates.add(operation.title);
+    seen.add(operation.title);
+  }
+  if (duplicates.size > 0) {
+    return errorResult({
+      error: 'Each title may appear only once in a batch',
+      duplicates: [...duplicates],
+    });
+  }
+
+  // Validate every operation against the current wiki state up front
+  const fetched = await mapWithConcurrency(operations, READ_CONCURRENCY, (operation) =>
+    getTiddler(operation.title)
+  );
+  const planned: PlannedOperation[] = [];
+  const problems: Array<{ index: number; op: string; title: string; error: string }> = [];
+  operations.forEach((operation, index) => {
+    const lookup = fetched[index];
+    if (lookup.status === 'rejected') {
+      problems.push({
+        index,
+        op: operation.op,
+        title: operation.title,
+        error: errorMessage(lookup.reason),
+      });
+      return;
+    }
+    const plan = planOperation(operation, index, lookup.value);
+    if (typeof plan === 'string') {
+      problems.push({ index, op: operation.op, title: operation.title, error: plan });
+    } else {
+      planned.push(plan);
+    }
+  });
+
+  if (problems.length > 0) {
+    return errorResult({
+      error: `Batch validation failed for ${problems.length} of ${operations.length} operations; nothing was written`,
+      problems,
+    });
+  }
+
+  // One combined preview
+  const counts = (['create', 'update', 'delete'] as const)
+    .map((op) => [op, planned.filter((item) => item.op === op).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([op, count]) => `${count} ${op}${count === 1 ? '' : 's'}`)
+    .join(', ');
+  const preview = planned.map((item, i) => formatOperationPreview(item, i + 1)).join('\n\n');
+
+  // Get approval (token binds to the arguments and every existing tiddler's current revision)
+  const { confirmationToken, ...proposedArgs } = input;
+  const outcome = await requestApproval(approval, {
+    tool: 'batch_tiddlers',
+    summary: `Apply ${planned.length} changes (${counts})`,
+    preview,
+    subject: {
+      args: proposedArgs,
+      revisions: planned
+        .filter((item) => item.current)
+        .map((item) => [item.title, item.current!.revision, item.current!.modified]),
+    },
+    confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
+  // Apply; with rollbackOnFailure, stop starting new operations after the first failure
+  let aborted = false;
+  const settled = await mapWithConcurrency(planned, WRITE_CONCURRENCY, async (item) => {
+    if (aborted) {
+      return false;
+    }
+    try {
+      await applyOperation(item);
+      return true;
+    } catch (error) {
+      if (rollbackOnFailure) {
+        aborted = true;
+      }
+      throw error;
+    }
+  });
+
+  const results: ItemResult[] = planned.map((item, i) => {
+    const outcome = settled[i];
+    const base = { index: item.index, op: item.op, title: item.title };
+    if (outcome.status === 'rejected') {
+      return { ...base, status: 'failed', error: errorMessage(outcome.reason) };
+    }
+    return { ...base, status: outcome.value ? 'applied' : 'skipped' };
+  });
+  const failed = results.filter((r) => r.status === 'failed').length;
+
+  if (failed > 0 && rollbackOnFailure) {
+    for (let i = planned.length - 1; i >= 0; i--) {
+      if (results[i].status !== 'applied') continue;
+      try {
+        await undoOperation(planned[i]);
+        results[i].status = 'rolled_back';
+      } catch (error) {
+        results[i].status = 'rollback_failed';
+        results[i].error = errorMessage(error);
+        logger.error(
+          `[batch_tiddlers] Rollback of "${planned[i].title}" failed: ${results[i].error}`
+        );
+      }
+    }
+  }
+
+  // Keep tags and semantic search in step with what was actually written
+  if (results.some((r) => r.status === 'applied')) {
+    deps.tagCache.invalidate();
+  }
+  if (deps.syncWorker) {
+    const refreshed: Tiddler[] = [];
+    for (let i = 0; i < planned.length; i++) {
+      if (results[i].status !== 'applied') continue;
+      if (planned[i].op === 'delete') {
+        await deps.syncWorker.removeTiddler(planned[i].title);
+      } else {
+        refreshed.push(planned[i].next!);
+      }
+    }
+    deps.syncWorker.refreshInBackground(refreshed);
+  }
+
+  const tally = (status: ItemStatus) => results.filter((r) => r.status === status).length;
+  const summary = {
+    applied: tally('applied'),
+    failed,
+    skipped: tally('skipped'),
+    rolledBack: tally('rolled_back'),
+    rollbackFailed: tally('rollback_failed'),
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            ...(failed > 0
+              ? {
+                  error: rollbackOnFailure
+                    ? `${failed} operation(s) failed; applied operations were rolled back`
+                    : `${failed} of ${planned.length} operations failed`,
+                }
+              : {}),
+            summary,
+            results,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+    ...(failed > 0 ? { isError: true } : {}),
+  };
+}
+
+// Re-export the input schema for use in tool registration
+export { BatchTiddlersInput };
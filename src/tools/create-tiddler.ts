@@ -8,8 +8,9 @@ import {
   getAuthUser,
   type Tiddler,
 } from '../tiddlywiki-http.js';
-import type { ToolResult } from './types.js';
+import type { ToolResult, ToolDependencies } from './types.js';
 import { CreateTiddlerInput } from './types.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
 
 /**
  * Format a tiddler for preview display.
@@ -32,9 +33,13 @@ export function formatTiddlerPreview(tiddler: Tiddler): string {
 
 /**
  * Handle create_tiddler tool requests.
- * Checks for duplicates, creates the tiddler, and returns a preview.
+ * Checks for duplicates and shows a preview for approval before creating the tiddler.
  */
-export async function handleCreateTiddler(args: unknown): Promise<ToolResult> {
+export async function handleCreateTiddler(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
   const input = CreateTiddlerInput.parse(args);
 
   // Check if tiddler already exists
@@ -56,7 +61,8 @@ export async function handleCreateTiddler(args: unknown): Promise<ToolResult> {
   }
 
   // Create new tiddler object with custom fields
-  const { title, text, tags, type, ...customFields } = input;
+  const { confirmationToken, ...proposedArgs } = input;
+  const { title, text, tags, type, ...customFields } = proposedArgs;
   const newTiddler = {
     ...createTiddlerObject(title, text, tags || '', type || 'text/markdown', getAuthUser()),
     ...customFields, // Add any custom fields
@@ -65,9 +71,25 @@ export async function handleCreateTiddler(args: unknown): Promise<ToolResult> {
   // Generate preview
   const preview = formatTiddlerPreview(newTiddler);
 
+  // Get approval before writing
+  const outcome = await requestApproval(approval, {
+    tool: 'create_tiddler',
+    summary: `Create "${input.title}"`,
+    preview,
+    subject: { args: proposedArgs },
+    confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
   // Create the tiddler
   await putTiddler(newTiddler);
 
+  // Make the new tiddler searchable soon instead of at the next sync, without delaying the reply
+  deps.syncWorker?.refreshInBackground([newTiddler]);
+  deps.tagCache.invalidate();
+
   return {
     content: [
       {
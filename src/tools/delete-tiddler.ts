@@ -2,15 +2,20 @@
 // ABOUTME: Deletes tiddlers with preview of what will be deleted
 
 import { getTiddler, deleteTiddler } from '../tiddlywiki-http.js';
-import type { ToolResult } from './types.js';
+import type { ToolResult, ToolDependencies } from './types.js';
 import { DeleteTiddlerInput } from './types.js';
 import { formatTiddlerPreview } from './create-tiddler.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
 
 /**
  * Handle delete_tiddler tool requests.
- * Shows a preview of the tiddler content before deletion.
+ * Shows a preview of the tiddler content for approval before deletion.
  */
-export async function handleDeleteTiddler(args: unknown): Promise<ToolResult> {
+export async function handleDeleteTiddler(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
   const input = DeleteTiddlerInput.parse(args);
 
   // Get current tiddler to show what will be deleted
@@ -30,8 +35,24 @@ export async function handleDeleteTiddler(args: unknown): Promise<ToolResult> {
   // Generate preview of what will be deleted
   const preview = formatTiddlerPreview(current);
 
+  // Get approval before deleting (token binds to the current revision)
+  const outcome = await requestApproval(approval, {
+    tool: 'delete_tiddler',
+    summary: `Delete "${input.title}"`,
+    preview,
+    subject: { title: input.title, modified: current.modified, revision: current.revision },
+    confirmationToken: input.confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
   // Delete the tiddler
-  await deleteTiddler(input.title);
+  await deleteTiddler(input.title, current.bag);
+
+  // Drop it from semantic search right away instead of waiting for the next sync
+  await deps.syncWorker?.removeTiddler(input.title);
+  deps.tagCache.invalidate();
 
   return {
     content: [
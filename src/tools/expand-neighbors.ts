@@ -0,0 +1,128 @@
+// ABOUTME: One-hop graph expansion for semantic search hits
+// ABOUTME: Finds linked, backlinking and same-tag tiddlers around top hits and ranks them
+
+import { queryTiddlers, type Tiddler } from '../tiddlywiki-http.js';
+import { parseStringArray } from '../wikitext.js';
+
+// Number of top hits whose neighborhoods are explored
+export const EXPAND_TOP_HITS = 5;
+
+// Tags with more members than this are too broad to say two tiddlers are related
+const MAX_TAG_FANOUT = 50;
+
+// How strongly each kind of connection suggests relevance; below 1 so that
+// several connections still rank above a single one
+const RELATION_WEIGHTS = {
+  link: 0.7,
+  backlink: 0.6,
+  tag: 0.4,
+} as const;
+
+/**
+ * A search hit to expand from, with its score from the search ranking.
+ */
+export interface SeedHit {
+  title: string;
+  score: number;
+  tags: string;
+}
+
+/**
+ * How a neighbor was reached: the hit links to it ("link"), it links to the hit
+ * ("backlink"), or it shares a tag with the hit ("tag").
+ */
+export interface NeighborEdge {
+  from: string;
+  relation: keyof typeof RELATION_WEIGHTS;
+  tag?: string;
+}
+
+export interface ExpandOptions {
+  // Query similarity (0-1) for whichever of the given titles are indexed
+  similarity: (titles: string[]) => Map<string, number>;
+  limit: number;
+  // Only these titles may be returned (the search filter's matches)
+  allowed?: Set<string>;
+  // Never returned, e.g. the seed tiddler of a similarTo search
+  exclude?: string;
+}
+
+export interface Neighbor {
+  tiddler: Tiddler;
+  score: number;
+  graphScore: number;
+  similarity?: number;
+  via: NeighborEdge[];
+}
+
+/**
+ * Collect one hop of neighbors around the top seeds and rank them by a combined score:
+ * the mean of a graph score and the neighbor's own similarity to the query.
+ *
+ * The graph score combines every edge as a noisy-or of (relation weight × seed score
+ * relative to the best seed), so tiddlers connected to several strong hits rank higher.
+ * Neighbors that aren't indexed get a similarity of 0.
+ */
+export async function expandNeighbors(
+  seeds: SeedHit[],
+  { similarity, limit, allowed, exclude }: ExpandOptions
+): Promise<Neighbor[]> {
+  const top = seeds.slice(0, EXPAND_TOP_HITS).filter((seed) => !seed.title.includes(']'));
+  if (top.length === 0 || limit <= 0) {
+    return [];
+  }
+  const seedTitles = new Set(seeds.map((seed) => seed.title));
+  if (exclude !== undefined) seedTitles.add(exclude);
+  const bestScore = Math.max(...top.map((seed) => seed.score)) || 1;
+
+  const tiddlers = new Map<string, Tiddler>();
+  const edges = new Map<string, Array<NeighborEdge & { weight: number }>>();
+  const addEdge = (tiddler: Tiddler, edge: NeighborEdge, seedScore: number) => {
+    if (seedTitles.has(tiddler.title) || (allowed && !allowed.has(tiddler.title))) return;
+    tiddlers.set(tiddler.title, tiddler);
+    const weight = RELATION_WEIGHTS[edge.relation] * (seedScore / bestScore);
+    edges.set(tiddler.title, [...(edges.get(tiddler.title) ?? []), { ...edge, weight }]);
+  };
+
+  await Promise.all(
+    top.map(async (seed) => {
+      const tags = parseStringArray(seed.tags).filter((tag) => !tag.includes(']'));
+      const [links, backlinks, ...tagged] = await Promise.all([
+        queryTiddlers(`[[${seed.title}]links[]!is[system]]`),
+        queryTiddlers(`[[${seed.title}]backlinks[]!is[system]]`),
+        ...tags.map((tag) =>
+          queryTiddlers(`[tag[${tag}]!is[system]]`, false, 0, MAX_TAG_FANOUT + 1)
+        ),
+      ]);
+
+      for (const tiddler of links)
+        addEdge(tiddler, { from: seed.title, relation: 'link' }, seed.score);
+      for (const tiddler of backlinks) {
+        addEdge(tiddler, { from: seed.title, relation: 'backlink' }, seed.score);
+      }
+      tagged.forEach((members, i) => {
+        if (members.length > MAX_TAG_FANOUT) return;
+        for (const tiddler of members) {
+          addEdge(tiddler, { from: seed.title, relation: 'tag', tag: tags[i] }, seed.score);
+        }
+      });
+    })
+  );
+
+  const similarities = edges.size > 0 ? similarity([...edges.keys()]) : new Map();
+  const neighbors: Neighbor[] = [...edges].map(([title, weighted]) => {
+    const graphScore = 1 - weighted.reduce((miss, edge) => miss * (1 - edge.weight), 1);
+    const sim = similarities.get(title);
+    return {
+      tiddler: tiddlers.get(title)!,
+      score: (graphScore + (sim ?? 0)) / 2,
+      graphScore,
+      similarity: sim,
+      via: weighted.map(({ weight: _weight, ...edge }) => edge),
+    };
+  });
+
+  return neighbors
+    .sort((a, b) => b.score - a.score || a.tiddler.title.localeCompare(b.tiddler.title))
+    .slice(0, limit);
+}
@@ -0,0 +1,181 @@
+// ABOUTME: Handler for the find_duplicates MCP tool
+// ABOUTME: Groups near-identical tiddlers by embedding similarity and diffs each pair
+
+import { createTwoFilesPatch } from 'diff';
+import { getTiddler, queryTiddlers } from '../tiddlywiki-http.js';
+import { meanPool, normalize, dot } from '../embeddings/vectors.js';
+import { mapWithConcurrency, READ_CONCURRENCY } from '../concurrency.js';
+import type { ToolResult, ToolDependencies } from './types.js';
+import { FindDuplicatesInput } from './types.js';
+import { checkResponseSize } from './link-graph.js';
+
+const DEFAULT_THRESHOLD = 0.95;
+const DEFAULT_CLUSTER_LIMIT = 20;
+
+// Pairwise comparison is quadratic; larger scans need a filter
+export const MAX_DUPLICATE_CANDIDATES = 5000;
+
+// Most similar pairs shown per cluster
+const MAX_PAIRS_PER_CLUSTER = 10;
+
+// Changed lines shown per pair diff
+const MAX_DIFF_LINES = 12;
+
+interface DuplicatePair {
+  a: string;
+  b: string;
+  similarity: number;
+}
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * Group pairs into clusters of transitively similar tiddlers (union-find),
+ * best-matching cluster first.
+ */
+function clusterPairs(pairs: DuplicatePair[]): DuplicatePair[][] {
+  const parent = new Map<string, string>();
+  const find = (title: string): string => {
+    const up = parent.get(title) ?? title;
+    if (up === title) return title;
+    const root = find(up);
+    parent.set(title, root);
+    return root;
+  };
+  for (const { a, b } of pairs) {
+    parent.set(find(a), find(b));
+  }
+
+  const clusters = new Map<string, DuplicatePair[]>();
+  for (const pair of pairs) {
+    const root = find(pair.a);
+    clusters.set(root, [...(clusters.get(root) ?? []), pair]);
+  }
+  return [...clusters.values()]
+    .map((cluster) => cluster.sort((x, y) => y.similarity - x.similarity))
+    .sort((x, y) => y[0].similarity - x[0].similarity);
+}
+
+/**
+ * A short line diff between two texts: changed lines only, truncated.
+ */
+function shortDiff(a: string, aText: string, b: string, bText: string): string {
+  if (aText === bText) {
+    return '(identical text)';
+  }
+  const patch = createTwoFilesPatch(a, b, aText, bText, '', '', { context: 0 });
+  const changed = patch
+    .split('\n')
+    .filter((line) => /^[+-]/.test(line) && !/^(\+\+\+|---) /.test(line));
+  const shown = changed.slice(0, MAX_DIFF_LINES);
+  if (changed.length > shown.length) {
+    shown.push(`… ${changed.length - shown.length} more changed lines`);
+  }
+  return shown.join('\n');
+}
+
+/**
+ * Handle find_duplicates tool requests.
+ * Compares every pair of candidate tiddlers by the cosine similarity of their pooled chunk
+ * vectors, so only the stored embeddings are needed, then clusters the pairs above the
+ * threshold and adds a short text diff of each pair shown.
+ */
+export async function handleFindDuplicates(
+  args: unknown,
+  deps: ToolDependencies
+): Promise<ToolResult> {
+  const input = FindDuplicatesInput.parse(args ?? {});
+  const threshold = input.threshold ?? DEFAULT_THRESHOLD;
+  const limit = input.limit ?? DEFAULT_CLUSTER_LIMIT;
+  const { embeddingsDB } = deps;
+
+  if (!embeddingsDB) {
+    return errorResult({
+      error: 'Duplicate detection is not available',
+      reason: 'Embeddings database not initialized',
+      suggestion: 'Check server logs for initialization errors',
+    });
+  }
+
+  const titles = input.filter ? (await queryTiddlers(input.filter)).map((t) => t.title) : undefined;
+  if (titles && titles.length > MAX_DUPLICATE_CANDIDATES) {
+    return errorResult({
+      error: `Filter matches ${titles.length} tiddlers; at most ${MAX_DUPLICATE_CANDIDATES} can be compared at once`,
+      suggestion: 'Narrow the filter, e.g. by tag or date prefix',
+    });
+  }
+  // Check the count before loading every vector into memory
+  const indexedCount = titles ? 0 : embeddingsDB.getIndexedTiddlersCount();
+  if (indexedCount > MAX_DUPLICATE_CANDIDATES) {
+    return errorResult({
+      error: `${indexedCount} tiddlers are indexed; at most ${MAX_DUPLICATE_CANDIDATES} can be compared at once`,
+      suggestion: 'Pass a filter to compare a subset, e.g. by tag or date prefix',
+    });
+  }
+  const embeddings = embeddingsDB.getEmbeddingsByTiddler(titles);
+
+  const candidates = [...embeddings].map(([title, vectors]) => ({
+    title,
+    vector: normalize(meanPool(vectors)),
+  }));
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    // Yield between rows so a large scan doesn't block other requests
+    await new Promise(setImmediate);
+    for (let j = i + 1; j < candidates.length; j++) {
+      const similarity = dot(candidates[i].vector, candidates[j].vector);
+      if (similarity >= threshold) {
+        pairs.push({ a: candidates[i].title, b: candidates[j].title, similarity });
+      }
+    }
+  }
+
+  const allClusters = clusterPairs(pairs);
+  const clusters = allClusters.slice(0, limit);
+
+  // Fetch the text of every tiddler in a pair that will be shown
+  const shownPairs = clusters.map((cluster) => cluster.slice(0, MAX_PAIRS_PER_CLUSTER));
+  const shownTitles = [...new Set(shownPairs.flat().flatMap(({ a, b }) => [a, b]))];
+  const fetched = await mapWithConcurrency(shownTitles, READ_CONCURRENCY, (title) =>
+    getTiddler(title)
+  );
+  const texts = new Map<string, string>();
+  fetched.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled' && outcome.value) {
+      texts.set(shownTitles[i], outcome.value.text || '');
+    }
+  });
+
+  const result = {
+    threshold,
+    compared: candidates.length,
+    total_clusters: allClusters.length,
+    clusters: clusters.map((cluster, i) => ({
+      titles: [...new Set(cluster.flatMap(({ a, b }) => [a, b]))].sort(),
+      pair_count: cluster.length,
+      pairs: shownPairs[i].map(({ a, b, similarity }) => ({
+        a,
+        b,
+        similarity: similarity.toFixed(4),
+        diff:
+          texts.has(a) && texts.has(b)
+            ? shortDiff(a, texts.get(a)!, b, texts.get(b)!)
+            : '(text unavailable)',
+      })),
+    })),
+  };
+
+  return (
+    checkResponseSize(result, clusters.length, 'find_duplicates') ?? {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    }
+  );
+}
+
+// Re-export the input schema for use in tool registration
+export { FindDuplicatesInput };
@@ -0,0 +1,135 @@
+// ABOUTME: Handler for the get_tiddler MCP tool
+// ABOUTME: Reads one tiddler with field selection, line ranges, sections, or rendered HTML
+
+import { encode } from 'gpt-tokenizer';
+import { getTiddler, renderTiddler, type Tiddler } from '../tiddlywiki-http.js';
+import { findHeadings, isMarkdownType } from '../wikitext.js';
+import type { ToolResult } from './types.js';
+import { GetTiddlerInput } from './types.js';
+import { MAX_RESPONSE_TOKENS } from './search-tiddlers.js';
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * Merge custom fields into one flat record. The TiddlyWeb JSON format nests
+ * non-standard fields under `fields`; tiddlers built locally keep them top-level.
+ */
+function flattenFields(tiddler: Tiddler): Record<string, unknown> {
+  const { fields: nested, ...topLevel } = tiddler;
+  const flat: Record<string, unknown> = { ...topLevel };
+  if (nested && typeof nested === 'object') {
+    Object.assign(flat, nested);
+  }
+  return flat;
+}
+
+/**
+ * Handle get_tiddler tool requests.
+ * Returns one tiddler's fields, optionally narrowed to a line range or a section,
+ * so large tiddlers can be read in parts.
+ */
+export async function handleGetTiddler(args: unknown): Promise<ToolResult> {
+  const input = GetTiddlerInput.parse(args);
+
+  const tiddler = await getTiddler(input.title);
+  if (!tiddler) {
+    return errorResult({ error: `Tiddler not found: ${input.title}` });
+  }
+
+  const allFields = flattenFields(tiddler);
+  const wantField = (name: string) => !input.fields || input.fields.includes(name);
+
+  // Title and revision identify what was read, so follow-up reads and edits can detect changes;
+  // bag says where it lives when the recipe spans several
+  const result: Record<string, unknown> = {
+    title: tiddler.title,
+    revision: tiddler.revision ?? null,
+    bag: tiddler.bag ?? null,
+  };
+  for (const [name, value] of Object.entries(allFields)) {
+    if (!['text', 'title', 'revision', 'bag'].includes(name) && wantField(name)) {
+      result[name] = value;
+    }
+  }
+
+  if (input.render) {
+    const rendered = await renderTiddler(input.title);
+    if (rendered === null) {
+      return errorResult({ error: `Tiddler not found: ${input.title}` });
+    }
+    result.rendered = rendered;
+
+    // Rendered HTML can't be read in parts, so point at the wikitext instead
+    const tokenCount = encode(rendered).length;
+    if (tokenCount > MAX_RESPONSE_TOKENS) {
+      const lines = (tiddler.text ?? '').split('\n');
+      const headings = findHeadings(lines, isMarkdownType(tiddler.type));
+      return errorResult({
+        error: `Rendered HTML is ${tokenCount.toLocaleString()} tokens (exceeds ${MAX_RESPONSE_TOKENS.toLocaleString()} token limit)`,
+        totalLines: lines.length,
+        suggestion: 'Read the text without render, in parts with startLine/endLine or by section',
+        headings: headings.map((h) => ({ line: h.line, level: h.level, text: h.text })),
+      });
+    }
+  } else if (wantField('text')) {
+    const lines = (tiddler.text ?? '').split('\n');
+    const totalLines = lines.length;
+    const headings = findHeadings(lines, isMarkdownType(tiddler.type));
+    let start = input.startLine ?? 1;
+    let end = input.endLine ?? totalLines;
+
+    if (input.section !== undefined) {
+      const wanted = input.section.trim().toLowerCase();
+      const index = headings.findIndex((h) => h.text.trim().toLowerCase() === wanted);
+      if (index === -1) {
+        return errorResult({
+          error: `Section not found: ${input.section}`,
+          headings: headings.map((h) => h.text),
+        });
+      }
+      const heading = headings[index];
+      const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+      start = heading.line;
+      end = next ? next.line - 1 : totalLines;
+      result.section = heading.text;
+    }
+
+    if (start > totalLines) {
+      return errorResult({
+        error: `startLine ${start} is past the end of the text`,
+        totalLines,
+      });
+    }
+    end = Math.min(end, totalLines);
+
+    result.text = lines.slice(start - 1, end).join('\n');
+    result.lines = { start, end, total: totalLines };
+
+    // Large tiddlers are read in parts rather than truncated silently
+    const tokenCount = encode(result.text as string).length;
+    if (tokenCount > MAX_RESPONSE_TOKENS) {
+      const linesPerPart = Math.max(
+        1,
+        Math.floor(((end - start + 1) * MAX_RESPONSE_TOKENS) / tokenCount)
+      );
+      return errorResult({
+        error: `Requested text is ${tokenCount.toLocaleString()} tokens (exceeds ${MAX_RESPONSE_TOKENS.toLocaleString()} token limit)`,
+        totalLines,
+        suggestion: `Read it in parts with startLine/endLine (about ${linesPerPart} lines at a time) or by section`,
+        headings: headings.map((h) => ({ line: h.line, level: h.level, text: h.text })),
+      });
+    }
+  }
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+// Re-export the input schema for use in tool registration
+export { GetTiddlerInput };
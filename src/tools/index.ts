@@ -1,15 +1,52 @@
 // ABOUTME: Barrel export for MCP tool handlers
 // ABOUTME: Re-exports all tool handlers and their input schemas
 
-export { handleSearchTiddlers, SearchTiddlersInput } from './search-tiddlers.js';
+export {
+  handleSearchTiddlers,
+  handleSearchAcrossWikis,
+  SearchTiddlersInput,
+} from './search-tiddlers.js';
+export { handleGetTiddler, GetTiddlerInput } from './get-tiddler.js';
 export { handleUpdateTiddler, UpdateTiddlerInput } from './update-tiddler.js';
 export { handleCreateTiddler, CreateTiddlerInput, formatTiddlerPreview } from './create-tiddler.js';
 export { handleDeleteTiddler, DeleteTiddlerInput } from './delete-tiddler.js';
+export { handleRenameTiddler, RenameTiddlerInput } from './rename-tiddler.js';
+export { handleMergeTiddlers, MergeTiddlersInput } from './merge-tiddlers.js';
+export { handleBatchTiddlers, BatchTiddlersInput } from './batch-tiddlers.js';
+export { handleAddTags, handleRemoveTags, TagTiddlersInput } from './tag-tiddlers.js';
+export { handleRenameTag, RenameTagInput } from './rename-tag.js';
+export { handleListTags, ListTagsInput } from './list-tags.js';
+export {
+  handleGetLinks,
+  handleFindMissing,
+  handleFindOrphans,
+  GetLinksInput,
+  FindMissingInput,
+  FindOrphansInput,
+} from './link-graph.js';
+export { handleFindDuplicates, FindDuplicatesInput } from './find-duplicates.js';
+export { handleListWikis } from './list-wikis.js';
+export { WikiSelection } from './types.js';
+export { requestApproval, NO_ELICITATION } from './approval.js';
+export type { ApprovalContext } from './approval.js';
 export type {
   ToolResult,
   ToolDependencies,
+  WikiTarget,
+  WikiSelectionType,
   SearchTiddlersInputType,
+  GetTiddlerInputType,
   UpdateTiddlerInputType,
   CreateTiddlerInputType,
   DeleteTiddlerInputType,
+  RenameTiddlerInputType,
+  MergeTiddlersInputType,
+  BatchTiddlersInputType,
+  TagTiddlersInputType,
+  RenameTagInputType,
+  ListTagsInputType,
+  GetLinksInputType,
+  FindMissingInputType,
+  FindOrphansInputType,
+  FindDuplicatesInputType,
 } from './types.js';
@@ -0,0 +1,167 @@
+// ABOUTME: Handlers for the get_links, find_missing and find_orphans MCP tools
+// ABOUTME: Exposes the wiki's link graph: outgoing links, backlinks, transclusions, gaps
+
+import { encode } from 'gpt-tokenizer';
+import { getTiddler, queryTiddlers } from '../tiddlywiki-http.js';
+import { extractLinks, isMarkdownType } from '../wikitext.js';
+import type { ToolResult } from './types.js';
+import { GetLinksInput, FindMissingInput, FindOrphansInput } from './types.js';
+import { MAX_RESPONSE_TOKENS } from './search-tiddlers.js';
+
+const DEFAULT_LIST_LIMIT = 100;
+
+// Titles checked per existence query, keeping filter URLs short
+const EXISTENCE_BATCH_SIZE = 50;
+
+// Non-system tiddlers nothing links to, transcludes or tags with, and that have no tags themselves
+const ORPHAN_FILTER =
+  '[all[orphans]!is[system]!has[tags]] -[all[tiddlers]tags[]] -[all[tiddlers]transcludes[]] +[sort[title]]';
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+function jsonResult(body: unknown): ToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(body, null, 2) }] };
+}
+
+/**
+ * Return an error suggesting a smaller page if the response would exceed the token budget.
+ */
+export function checkResponseSize(
+  body: unknown,
+  itemCount: number,
+  tool: string
+): ToolResult | null {
+  const tokenCount = encode(JSON.stringify(body, null, 2)).length;
+  if (tokenCount <= MAX_RESPONSE_TOKENS) {
+    return null;
+  }
+  const suggestedLimit = Math.max(1, Math.floor((itemCount * MAX_RESPONSE_TOKENS) / tokenCount));
+  return errorResult({
+    error: `Response would be ${tokenCount.toLocaleString()} tokens (exceeds ${MAX_RESPONSE_TOKENS.toLocaleString()} token limit)`,
+    suggestion: `Call ${tool} again with limit: ${suggestedLimit}`,
+  });
+}
+
+/**
+ * Which of the given titles exist as tiddlers or shadow tiddlers.
+ * Titles containing "]" can't be filter operands and are never reported as existing.
+ */
+export async function findExistingTitles(titles: string[]): Promise<Set<string>> {
+  const checkable = titles.filter((title) => !title.includes(']'));
+  const existing = new Set<string>();
+  for (let i = 0; i < checkable.length; i += EXISTENCE_BATCH_SIZE) {
+    const batch = checkable.slice(i, i + EXISTENCE_BATCH_SIZE);
+    const filter = `${batch.map((title) => `[[${title}]]`).join(' ')} +[!is[missing]]`;
+    for (const tiddler of await queryTiddlers(filter)) {
+      existing.add(tiddler.title);
+    }
+  }
+  return existing;
+}
+
+/**
+ * Handle get_links tool requests.
+ * Links and transclusions come from TiddlyWiki's own filter operators; links to missing
+ * tiddlers are found in the text, since the API only returns tiddlers that exist.
+ */
+export async function handleGetLinks(args: unknown): Promise<ToolResult> {
+  const input = GetLinksInput.parse(args);
+  const { title } = input;
+  const limit = input.limit ?? DEFAULT_LIST_LIMIT;
+
+  if (title.includes(']')) {
+    return errorResult({ error: `Titles containing "]" can't be used in filters: ${title}` });
+  }
+  const tiddler = await getTiddler(title);
+  if (!tiddler) {
+    return errorResult({ error: `Tiddler not found: ${title}` });
+  }
+
+  const [links, backlinks, transcludes, transcludedBy] = (
+    await Promise.all([
+      queryTiddlers(`[[${title}]links[]]`),
+      queryTiddlers(`[[${title}]backlinks[]]`),
+      queryTiddlers(`[[${title}]transcludes[]]`),
+      queryTiddlers(`[[${title}]backtranscludes[]]`),
+    ])
+  ).map((tiddlers) => tiddlers.map((t) => t.title));
+
+  const known = new Set([...links, ...transcludes, title]);
+  const candidates = extractLinks(tiddler.text || '', isMarkdownType(tiddler.type)).filter(
+    (target) => !known.has(target) && !target.includes(']')
+  );
+  const existing = await findExistingTitles(candidates);
+  const missingLinks = candidates.filter((target) => !existing.has(target));
+
+  const lists = { links, missingLinks, backlinks, transcludes, transcludedBy };
+  const counts = Object.fromEntries(Object.entries(lists).map(([name, l]) => [name, l.length]));
+  const truncated = Object.values(lists).some((l) => l.length > limit);
+  const result = {
+    title,
+    counts,
+    ...(truncated ? { truncated: true } : {}),
+    ...Object.fromEntries(Object.entries(lists).map(([name, l]) => [name, l.slice(0, limit)])),
+  };
+
+  const longest = Math.min(limit, Math.max(...Object.values(counts)));
+  return checkResponseSize(result, longest, 'get_links') ?? jsonResult(result);
+}
+
+/**
+ * Handle find_missing tool requests.
+ * Lists titles that are linked to but don't exist, with the tiddlers linking to each,
+ * most-referenced first.
+ */
+export async function handleFindMissing(args: unknown): Promise<ToolResult> {
+  const input = FindMissingInput.parse(args ?? {});
+  const offset = input.offset ?? 0;
+  const limit = input.limit ?? DEFAULT_LIST_LIMIT;
+  const source = input.filter ?? '[all[tiddlers]!is[system]]';
+
+  // Let TiddlyWiki pick the tiddlers with missing links, then find which targets are missing
+  const sources = await queryTiddlers(`${source} :filter[links[]is[missing]]`, true);
+  const referrers = new Map<string, string[]>();
+  for (const tiddler of sources) {
+    for (const target of extractLinks(tiddler.text || '', isMarkdownType(tiddler.type))) {
+      if (target === tiddler.title || target.includes(']')) continue;
+      referrers.set(target, [...(referrers.get(target) ?? []), tiddler.title]);
+    }
+  }
+
+  const existing = await findExistingTitles([...referrers.keys()]);
+  const missing = [...referrers]
+    .filter(([target]) => !existing.has(target))
+    .map(([target, linkedFrom]) => ({ title: target, linkedFrom }))
+    .sort((a, b) => b.linkedFrom.length - a.linkedFrom.length || a.title.localeCompare(b.title));
+
+  const page = missing.slice(offset, offset + limit);
+  const result = { total: missing.length, offset, missing: page };
+  return checkResponseSize(result, page.length, 'find_missing') ?? jsonResult(result);
+}
+
+/**
+ * Handle find_orphans tool requests.
+ * Lists non-system tiddlers nothing links to, transcludes or tags with, and that
+ * have no tags of their own, so they can't be reached by browsing.
+ */
+export async function handleFindOrphans(args: unknown): Promise<ToolResult> {
+  const input = FindOrphansInput.parse(args ?? {});
+  const offset = input.offset ?? 0;
+  const limit = input.limit ?? DEFAULT_LIST_LIMIT;
+
+  const orphans = await queryTiddlers(ORPHAN_FILTER);
+  const page = orphans
+    .slice(offset, offset + limit)
+    .map((t) => ({ title: t.title, modified: t.modified }));
+
+  const result = { total: orphans.length, offset, orphans: page };
+  return checkResponseSize(result, page.length, 'find_orphans') ?? jsonResult(result);
+}
+
+// Re-export the input schemas for use in tool registration
+export { GetLinksInput, FindMissingInput, FindOrphansInput };
@@ -0,0 +1,54 @@
+// ABOUTME: Handler for the list_tags MCP tool
+// ABOUTME: Lists tags with usage counts, tag tiddler color/icon/caption, and parent/child tags
+
+import { summarizeTags } from '../tags.js';
+import type { ToolResult, ToolDependencies } from './types.js';
+import { ListTagsInput } from './types.js';
+
+const DEFAULT_TAG_LIMIT = 500;
+
+/**
+ * Handle list_tags tool requests.
+ * Lets agents pick existing tag names instead of guessing at spelling and case.
+ */
+export async function handleListTags(args: unknown, deps: ToolDependencies): Promise<ToolResult> {
+  const input = ListTagsInput.parse(args ?? {});
+  const limit = input.limit ?? DEFAULT_TAG_LIMIT;
+
+  const snapshot = await deps.tagCache.get();
+  let tags = summarizeTags(snapshot, input.includeSystem ?? false);
+
+  if (input.match !== undefined) {
+    const wanted = input.match.toLowerCase();
+    tags = tags.filter((info) => info.tag.toLowerCase().includes(wanted));
+  }
+
+  if (input.sort === 'name') {
+    tags.sort((a, b) => a.tag.localeCompare(b.tag, undefined, { sensitivity: 'base' }));
+  } else {
+    tags.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  const total = tags.length;
+  const returned = tags.slice(0, limit);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            total,
+            ...(total > returned.length ? { truncated: true } : {}),
+            tags: returned,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+// Re-export the input schema for use in tool registration
+export { ListTagsInput };
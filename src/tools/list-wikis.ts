@@ -0,0 +1,36 @@
+// ABOUTME: Handler for the list_wikis MCP tool
+// ABOUTME: Lists the configured wikis with their URL and whether semantic search is ready
+
+import type { ToolResult, WikiTarget } from './types.js';
+
+/**
+ * Handle list_wikis tool requests.
+ * Tells agents which names the `wiki` argument accepts and which wikis can be searched
+ * semantically (embeddings enabled and indexed).
+ */
+export async function handleListWikis(
+  wikis: WikiTarget[],
+  defaultWiki: string
+): Promise<ToolResult> {
+  const listed = wikis.map(({ name, url, deps }) => {
+    const status = deps.syncWorker?.getStatus();
+    return {
+      name,
+      url,
+      ...(name === defaultWiki ? { default: true } : {}),
+      semanticSearch: deps.embeddingsDB !== null && (status?.indexedTiddlers ?? 0) > 0,
+      ...(status
+        ? { indexedTiddlers: status.indexedTiddlers, syncing: status.syncing }
+        : { embeddings: 'disabled' }),
+    };
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ defaultWiki, wikis: listed }, null, 2),
+      },
+    ],
+  };
+}
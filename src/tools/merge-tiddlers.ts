@@ -0,0 +1,386 @@
+// ABOUTME: Handler for the merge_tiddlers MCP tool
+// ABOUTME: Combines several tiddlers into one, redirects references and removes or stubs the sources
+
+import {
+  getTiddler,
+  putTiddler,
+  deleteTiddler,
+  queryTiddlersWithText,
+  createTiddlerObject,
+  updateTiddlerObject,
+  getAuthUser,
+  getTiddlerEtag,
+  TiddlerConflictError,
+  type Tiddler,
+} from '../tiddlywiki-http.js';
+import {
+  addToList,
+  removeFromList,
+  parseStringArray,
+  interleaveSections,
+  isMarkdownType,
+} from '../wikitext.js';
+import * as logger from '../logger.js';
+import type { ToolResult, ToolDependencies } from './types.js';
+import { MergeTiddlersInput } from './types.js';
+import { generateTiddlerDiff } from './update-tiddler.js';
+import { formatTiddlerPreview } from './create-tiddler.js';
+import { buildReferrerFilter, rewriteTiddler } from './rename-tiddler.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
+
+// Fields combined by their own rules (or managed by the server) rather than checked for conflicts
+const NON_CONFLICTING_FIELDS = new Set([
+  'title',
+  'text',
+  'tags',
+  'list',
+  'created',
+  'creator',
+  'modified',
+  'modifier',
+  'revision',
+  'bag',
+  'fields',
+]);
+
+interface Rewrite {
+  original: Tiddler;
+  updated: Tiddler;
+}
+
+/**
+ * A field set to different values by the merged tiddlers. The first value wins:
+ * the target's, then the sources' in the order given.
+ */
+interface FieldConflict {
+  field: string;
+  kept: { from: string; value: unknown };
+  discarded: Array<{ from: string; value: unknown }>;
+}
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * A tiddler's other fields, whether top-level or nested under `fields`. Empty values are skipped.
+ */
+function otherFields(tiddler: Tiddler): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries({ ...tiddler, ...(tiddler.fields ?? {}) })) {
+    if (!NON_CONFLICTING_FIELDS.has(name) && value !== undefined && value !== '') {
+      fields[name] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * A tiddler with the fields nested under `fields` (as getTiddler returns them) moved to the
+ * top level, so they can be combined and written like any other field.
+ */
+export function flattenFields(tiddler: Tiddler): Tiddler {
+  const { fields: nested, ...rest } = tiddler;
+  return { ...rest, ...(nested ?? {}) };
+}
+
+/**
+ * Union the other fields of several tiddlers, keeping the first value of each field
+ * and reporting every field whose values differ.
+ */
+function mergeFields(tiddlers: Tiddler[]): {
+  fields: Record<string, unknown>;
+  conflicts: FieldConflict[];
+} {
+  const fields: Record<string, unknown> = {};
+  const conflicts = new Map<string, FieldConflict>();
+  const keptFrom = new Map<string, string>();
+
+  for (const tiddler of tiddlers) {
+    for (const [name, value] of Object.entries(otherFields(tiddler))) {
+      if (!(name in fields)) {
+        fields[name] = value;
+        keptFrom.set(name, tiddler.title);
+      } else if (JSON.stringify(fields[name]) !== JSON.stringify(value)) {
+        const conflict = conflicts.get(name) ?? {
+          field: name,
+          kept: { from: keptFrom.get(name)!, value: fields[name] },
+          discarded: [],
+        };
+        conflict.discarded.push({ from: tiddler.title, value });
+        conflicts.set(name, conflict);
+      }
+    }
+  }
+
+  return { fields, conflicts: [...conflicts.values()] };
+}
+
+/**
+ * The text left in a source when sourceAction is "redirect".
+ */
+function redirectText(target: string): string {
+  const link = target.includes(']') ? `<$link to="""${target}"""/>` : `[[${target}]]`;
+  return `Merged into ${link}.`;
+}
+
+function formatConflict({ field, kept, discarded }: FieldConflict): string {
+  const values = discarded.map(({ from, value }) => `${JSON.stringify(value)} (from "${from}")`);
+  return `- \`${field}\`: kept ${JSON.stringify(kept.value)} (from "${kept.from}"); discarded ${values.join(', ')}`;
+}
+
+/**
+ * Handle merge_tiddlers tool requests.
+ * Builds the merged target (text, unioned tags/list and fields), rewrites references to the
+ * sources, and deletes or stubs the sources, all previewed together and approved once.
+ * Writes made before a failure are undone.
+ */
+export async function handleMergeTiddlers(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
+  const input = MergeTiddlersInput.parse(args);
+  const { target } = input;
+  const strategy = input.strategy ?? 'concatenate';
+  const sourceAction = input.sourceAction ?? 'delete';
+  const updateReferences = input.updateReferences ?? true;
+
+  const sources: Tiddler[] = [];
+  for (const title of input.sources) {
+    const source = await getTiddler(title);
+    if (!source) {
+      return errorResult({ error: `Tiddler not found: ${title}` });
+    }
+    sources.push(source);
+  }
+  const existing = await getTiddler(target);
+  const parts = [...(existing ? [existing] : []), ...sources].map(flattenFields);
+
+  // Combine text, tags, list and other fields
+  const { fields, conflicts } = mergeFields(parts);
+  const type = (fields.type as string | undefined) ?? 'text/vnd.tiddlywiki';
+  const texts = parts.map((t) => (t.text || '').trim());
+  let merged: Partial<Tiddler> = {
+    ...fields,
+    type,
+    text:
+      strategy === 'interleave'
+        ? interleaveSections(texts, isMarkdownType(type))
+        : texts.filter(Boolean).join('\n\n'),
+    tags: parts.reduce<string | undefined>(
+      (acc, t) => addToList(acc, parseStringArray(t.tags)),
+      ''
+    ),
+    list: parts.reduce<string | undefined>(
+      (acc, t) => addToList(acc, parseStringArray(t.list)),
+      undefined
+    ),
+  };
+
+  // References between the merged tiddlers now point at the target, never at itself
+  for (const source of sources) {
+    merged = { ...merged, ...rewriteTiddler({ ...merged, title: target }, source.title, target) };
+  }
+  merged.tags = removeFromList(merged.tags, [target]);
+  merged.list = removeFromList(merged.list, [target]) || undefined;
+
+  let targetTiddler: Tiddler;
+  if (existing) {
+    const { fields: _nested, ...base } = existing;
+    targetTiddler = updateTiddlerObject(base, merged, getAuthUser());
+  } else {
+    // A new target is as old as its oldest source
+    const oldest = sources
+      .filter((source) => source.created)
+      .sort((a, b) => a.created!.localeCompare(b.created!))[0];
+    targetTiddler = {
+      ...createTiddlerObject(target, merged.text ?? '', merged.tags, type, getAuthUser()),
+      ...merged,
+      title: target,
+      ...(oldest ? { created: oldest.created, creator: oldest.creator } : {}),
+    };
+  }
+
+  // Rewrite references to every source, accumulating changes per referring tiddler
+  const involved = new Set([target, ...input.sources]);
+  const rewrites = new Map<string, Rewrite>();
+  if (updateReferences) {
+    for (const source of sources) {
+      const { tiddlers: candidates, unreadable } = await queryTiddlersWithText(
+        buildReferrerFilter(source.title)
+      );
+      // A referrer that can't be read would be left linking to a merged-away source
+      if (unreadable.length > 0) {
+        return errorResult({
+          error: `${unreadable.length} tiddler(s) that may refer to "${source.title}" could not be read; nothing was changed`,
+          unreadable,
+          suggestion: 'Call merge_tiddlers again once the wiki responds',
+        });
+      }
+      for (const candidate of candidates) {
+        if (involved.has(candidate.title)) continue;
+        const previous = rewrites.get(candidate.title);
+        const current = previous?.updated ?? candidate;
+        const changes = rewriteTiddler(current, source.title, target);
+        if (Object.keys(changes).length > 0) {
+          rewrites.set(candidate.title, {
+            original: previous?.original ?? candidate,
+            updated: updateTiddlerObject(current, changes, getAuthUser()),
+          });
+        }
+      }
+    }
+  }
+
+  const stubs: Rewrite[] =
+    sourceAction === 'redirect'
+      ? sources.map((source) => ({
+          original: source,
+          updated: updateTiddlerObject(
+            flattenFields(source),
+            {
+              text: redirectText(target),
+              type: 'text/vnd.tiddlywiki',
+              tags: '',
+              list: undefined,
+              'merged-into': target,
+            },
+            getAuthUser()
+          ),
+        }))
+      : [];
+
+  // Preview: target, field conflicts, referrers and what happens to the sources
+  const sourceList = input.sources.map((title) => `"${title}"`).join(', ');
+  const lines: string[] = [];
+  lines.push(`**Merge:** ${sourceList} → "${target}" (${strategy})`);
+  lines.push(
+    `**Sources:** ${sourceAction === 'delete' ? 'deleted' : 'replaced with redirect stubs'}`
+  );
+  lines.push('');
+  if (existing) {
+    lines.push(`### Target "${target}" (updated)`);
+    lines.push(generateTiddlerDiff(existing, targetTiddler) || '(no changes)');
+  } else {
+    lines.push(`### Target "${target}" (new)`);
+    lines.push(formatTiddlerPreview(targetTiddler));
+  }
+  if (conflicts.length > 0) {
+    lines.push('');
+    lines.push(`### Field conflicts (${conflicts.length})`);
+    lines.push(...conflicts.map(formatConflict));
+  }
+  lines.push('');
+  lines.push(`### References updated (${rewrites.size})`);
+  for (const { original, updated } of rewrites.values()) {
+    lines.push('');
+    lines.push(`#### "${original.title}"`);
+    lines.push(generateTiddlerDiff(original, updated));
+  }
+  const preview = lines.join('\n');
+
+  // Get approval (token binds to the arguments and every tiddler's current revision)
+  const { confirmationToken, ...proposedArgs } = input;
+  const outcome = await requestApproval(approval, {
+    tool: 'merge_tiddlers',
+    summary: `Merge ${sources.length} tiddler${sources.length === 1 ? '' : 's'} into "${target}" (${rewrites.size} referring tiddler${rewrites.size === 1 ? '' : 's'})`,
+    preview,
+    subject: {
+      args: proposedArgs,
+      revisions: [...parts, ...[...rewrites.values()].map((r) => r.original)].map((t) => [
+        t.title,
+        t.revision,
+        t.modified,
+      ]),
+    },
+    confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
+  // Apply: write the target, update referrers, then delete or stub the sources.
+  // TiddlyWiki has no transactions, so undo completed writes if a later one fails.
+  let targetWritten = false;
+  const written: Tiddler[] = [];
+  try {
+    await putTiddler(targetTiddler, {
+      ifMatch: existing ? (getTiddlerEtag(existing) ?? undefined) : undefined,
+    });
+    targetWritten = true;
+
+    for (const { original, updated } of [...rewrites.values(), ...stubs]) {
+      await putTiddler(updated, { ifMatch: getTiddlerEtag(original) ?? undefined });
+      written.push(original);
+    }
+
+    if (sourceAction === 'delete') {
+      for (const source of sources) {
+        await deleteTiddler(source.title, source.bag);
+        written.push(source);
+      }
+    }
+  } catch (error) {
+    const rollbackErrors: string[] = [];
+    for (const original of written.reverse()) {
+      try {
+        await putTiddler(original);
+      } catch (rollbackError) {
+        rollbackErrors.push(`${original.title}: ${(rollbackError as Error).message}`);
+      }
+    }
+    if (targetWritten) {
+      try {
+        if (existing) {
+          await putTiddler(existing);
+        } else {
+          await deleteTiddler(target, targetTiddler.bag);
+        }
+      } catch (rollbackError) {
+        rollbackErrors.push(`${target}: ${(rollbackError as Error).message}`);
+      }
+    }
+
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`[merge_tiddlers] Merge into "${target}" failed: ${errMsg}`);
+    return errorResult({
+      error: `Merge failed: ${errMsg}`,
+      rolledBack: rollbackErrors.length === 0,
+      rollbackErrors: rollbackErrors.length > 0 ? rollbackErrors : undefined,
+      suggestion:
+        error instanceof TiddlerConflictError
+          ? 'A tiddler changed during the merge; call merge_tiddlers again for a fresh proposal'
+          : undefined,
+    });
+  }
+
+  // Refresh tags and embeddings for everything written and drop deleted sources
+  deps.tagCache.invalidate();
+  if (deps.syncWorker) {
+    deps.syncWorker.refreshInBackground([
+      targetTiddler,
+      ...[...rewrites.values(), ...stubs].map(({ updated }) => updated),
+    ]);
+    if (sourceAction === 'delete') {
+      for (const source of sources) {
+        await deps.syncWorker.removeTiddler(source.title);
+      }
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `## Merged into "${target}"\n\n${preview}`,
+      },
+    ],
+  };
+}
+
+// Re-export the input schema for use in tool registration
+export { MergeTiddlersInput };
@@ -0,0 +1,206 @@
+// ABOUTME: Handler for the rename_tag MCP tool
+// ABOUTME: Retags every tiddler carrying a tag and moves the tag's own tiddler to the new title
+
+import {
+  getTiddler,
+  putTiddler,
+  deleteTiddler,
+  queryTiddlers,
+  updateTiddlerObject,
+  getAuthUser,
+  type Tiddler,
+} from '../tiddlywiki-http.js';
+import { parseStringArray, replaceInList, stringifyList } from '../wikitext.js';
+import { mapWithConcurrency, READ_CONCURRENCY } from '../concurrency.js';
+import * as logger from '../logger.js';
+import type { ToolResult, ToolDependencies } from './types.js';
+import { RenameTagInput } from './types.js';
+import { applyTagChanges, formatTagChange, type TagChange } from './tag-tiddlers.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
+
+/**
+ * Find every tiddler tagged with `tag`, with full content so it can be written back,
+ * and the tagged tiddlers that could not be read.
+ * Tags containing "]" can't be filter operands, so tagged tiddlers are matched locally.
+ */
+async function findTagged(
+  tag: string
+): Promise<{ tiddlers: Tiddler[]; unreadable: Array<{ title: string; error: string }> }> {
+  const filter = tag.includes(']') ? '[all[tiddlers]has[tags]]' : `[tag[${tag}]]`;
+  const listed = await queryTiddlers(filter);
+  const titles = listed.filter((t) => parseStringArray(t.tags).includes(tag)).map((t) => t.title);
+
+  const fetched = await mapWithConcurrency(titles, READ_CONCURRENCY, (title) => getTiddler(title));
+  const tiddlers: Tiddler[] = [];
+  const unreadable: Array<{ title: string; error: string }> = [];
+  fetched.forEach((outcome, i) => {
+    if (outcome.status === 'rejected') {
+      unreadable.push({ title: titles[i], error: (outcome.reason as Error).message });
+    } else if (outcome.value) {
+      tiddlers.push(outcome.value);
+    }
+  });
+  return { tiddlers, unreadable };
+}
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * Handle rename_tag tool requests.
+ * Replaces the tag in every tagged tiddler (keeping tag order) and, unless disabled or the
+ * new title is taken, moves the tag tiddler so its description and list order carry over.
+ */
+export async function handleRenameTag(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
+  const input = RenameTagInput.parse(args);
+  const { tag, newTag } = input;
+  const renameTagTiddler = input.renameTagTiddler ?? true;
+
+  // A tagged tiddler that can't be read would keep the old tag after the rename
+  const { tiddlers: tagged, unreadable } = await findTagged(tag);
+  if (unreadable.length > 0) {
+    return errorResult({
+      error: `${unreadable.length} tiddler(s) tagged ${stringifyList([tag])} could not be read; nothing was changed`,
+      unreadable,
+      suggestion: 'Call rename_tag again once the wiki responds',
+    });
+  }
+
+  // The tag tiddler moves only if it exists and the new title is free
+  const tagTiddler = renameTagTiddler ? await getTiddler(tag) : null;
+  const newTitleTaken = tagTiddler ? (await getTiddler(newTag)) !== null : false;
+  const movedTagTiddler: Tiddler | null =
+    tagTiddler && !newTitleTaken
+      ? {
+          ...updateTiddlerObject(
+            tagTiddler,
+            { tags: replaceInList(tagTiddler.tags, tag, newTag) },
+            getAuthUser()
+          ),
+          title: newTag,
+        }
+      : null;
+
+  const changes: TagChange[] = tagged
+    .filter((tiddler) => !(movedTagTiddler && tiddler.title === tag))
+    .map((tiddler) => ({
+      original: tiddler,
+      updated: updateTiddlerObject(
+        tiddler,
+        { tags: replaceInList(tiddler.tags, tag, newTag) },
+        getAuthUser()
+      ),
+    }));
+
+  if (changes.length === 0 && !movedTagTiddler) {
+    return errorResult({ error: `No tiddlers are tagged ${stringifyList([tag])}` });
+  }
+
+  // Preview
+  const lines: string[] = [];
+  lines.push(`**Rename tag:** ${stringifyList([tag])} → ${stringifyList([newTag])}`);
+  if (movedTagTiddler) {
+    lines.push(`**Tag tiddler:** "${tag}" → "${newTag}"`);
+  } else if (tagTiddler && newTitleTaken) {
+    lines.push(`**Tag tiddler:** "${tag}" kept (a tiddler titled "${newTag}" already exists)`);
+  }
+  lines.push('');
+  lines.push(`### Retagged (${changes.length})`);
+  lines.push(...changes.map(formatTagChange));
+  const preview = lines.join('\n');
+
+  // Get approval (token binds to the arguments and every tiddler's current revision)
+  const { confirmationToken, ...proposedArgs } = input;
+  const outcome = await requestApproval(approval, {
+    tool: 'rename_tag',
+    summary: `Rename tag "${tag}" to "${newTag}" on ${changes.length} tiddler${changes.length === 1 ? '' : 's'}`,
+    preview,
+    subject: {
+      args: proposedArgs,
+      revisions: [...(tagTiddler ? [tagTiddler] : []), ...changes.map((c) => c.original)].map(
+        (t) => [t.title, t.revision, t.modified]
+      ),
+    },
+    confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
+  // Create the new tag tiddler first so retagged tiddlers never point at a missing one
+  if (movedTagTiddler) {
+    try {
+      await putTiddler(movedTagTiddler);
+    } catch (error) {
+      return errorResult({
+        error: `The new tag tiddler "${newTag}" could not be created; no tiddlers were retagged`,
+        suggestion: 'Call rename_tag again to retry',
+        tag,
+        newTag,
+        retagged: [],
+        failed: [{ title: newTag, error: (error as Error).message }],
+        tagTiddlerMoved: false,
+      });
+    }
+  }
+
+  const { updated, failed } = await applyTagChanges(changes, deps);
+
+  // Remove the old tag tiddler only once nothing is tagged with the old tag any more
+  let tagTiddlerMoved = false;
+  if (movedTagTiddler && failed.length === 0) {
+    await deleteTiddler(tag, tagTiddler?.bag);
+    tagTiddlerMoved = true;
+    deps.tagCache.invalidate();
+    await deps.syncWorker?.renameTiddler(tag, movedTagTiddler, false);
+  } else if (movedTagTiddler) {
+    logger.warn(
+      `[rename_tag] Kept "${tag}" because ${failed.length} tiddler(s) could not be retagged`
+    );
+    // Retagged tiddlers now point at the new tag tiddler, so only undo the copy when none do
+    if (updated.length === 0) {
+      try {
+        await deleteTiddler(newTag, movedTagTiddler.bag);
+      } catch (error) {
+        logger.error(`[rename_tag] Failed to remove "${newTag}": ${(error as Error).message}`);
+      }
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            ...(failed.length > 0
+              ? {
+                  error: `${failed.length} of ${changes.length} tiddlers could not be retagged`,
+                  suggestion: 'Call rename_tag again to retry the remaining tiddlers',
+                }
+              : {}),
+            tag,
+            newTag,
+            retagged: updated,
+            failed: failed.length > 0 ? failed : undefined,
+            tagTiddlerMoved,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+    ...(failed.length > 0 ? { isError: true } : {}),
+  };
+}
+
+// Re-export the input schema for use in tool registration
+export { RenameTagInput };
@@ -0,0 +1,241 @@
+// ABOUTME: Handler for the rename_tiddler MCP tool
+// ABOUTME: Moves a tiddler to a new title and rewrites references to it in other tiddlers
+
+import {
+  getTiddler,
+  putTiddler,
+  deleteTiddler,
+  queryTiddlersWithText,
+  updateTiddlerObject,
+  getAuthUser,
+  getTiddlerEtag,
+  TiddlerConflictError,
+  type Tiddler,
+} from '../tiddlywiki-http.js';
+import { rewriteReferences, replaceInList } from '../wikitext.js';
+import * as logger from '../logger.js';
+import type { ToolResult, ToolDependencies } from './types.js';
+import { RenameTiddlerInput } from './types.js';
+import { generateTiddlerDiff } from './update-tiddler.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
+
+interface Rewrite {
+  original: Tiddler;
+  updated: Tiddler;
+}
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * Filter for tiddlers that may refer to a title: links, tags, list fields, and any
+ * text mention (transclusions and macro parameters aren't covered by backlinks).
+ * Titles containing "]" can't be written as filter operands, so all tiddlers are scanned.
+ */
+export function buildReferrerFilter(title: string): string {
+  if (title.includes(']')) {
+    return '[all[tiddlers]!is[system]]';
+  }
+  return (
+    `[[${title}]backlinks[]] [tag[${title}]] [[${title}]listed[]] ` +
+    `[all[tiddlers]search:text:literal[${title}]] +[!is[system]] -[[${title}]]`
+  );
+}
+
+/**
+ * Apply the rename to one tiddler's text, tags and list field.
+ * Exported for use by merge_tiddlers, which redirects references to merged tiddlers.
+ */
+export function rewriteTiddler(
+  tiddler: Tiddler,
+  oldTitle: string,
+  newTitle: string
+): Partial<Tiddler> {
+  const changes: Partial<Tiddler> = {};
+
+  const text = rewriteReferences(tiddler.text || '', oldTitle, newTitle);
+  if (text !== (tiddler.text || '')) changes.text = text;
+
+  const tags = replaceInList(tiddler.tags, oldTitle, newTitle);
+  if (tags !== tiddler.tags) changes.tags = tags;
+
+  // Tiddlers read one by one carry custom fields such as list nested under `fields`;
+  // the rewritten list goes back where it was found
+  const nested = tiddler.list === undefined && tiddler.fields?.list !== undefined;
+  const currentList: string | undefined = nested ? tiddler.fields!.list : tiddler.list;
+  const list = replaceInList(currentList, oldTitle, newTitle);
+  if (list !== currentList) {
+    if (nested) {
+      changes.fields = { ...tiddler.fields, list };
+    } else {
+      changes.list = list;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Handle rename_tiddler tool requests.
+ * Previews the move and every rewritten referrer, then applies all writes after approval,
+ * rolling back the ones already made if any write fails.
+ */
+export async function handleRenameTiddler(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
+  const input = RenameTiddlerInput.parse(args);
+  const { title, newTitle } = input;
+  const updateReferences = input.updateReferences ?? true;
+
+  const source = await getTiddler(title);
+  if (!source) {
+    return errorResult({ error: `Tiddler not found: ${title}` });
+  }
+  if (await getTiddler(newTitle)) {
+    return errorResult({
+      error: `Tiddler already exists: ${newTitle}`,
+      suggestion: 'Choose another title, or merge the tiddlers instead',
+    });
+  }
+
+  // The moved tiddler keeps created/creator; its own self-references are rewritten too
+  const ownChanges = updateReferences ? rewriteTiddler(source, title, newTitle) : {};
+  const renamed: Tiddler = {
+    ...updateTiddlerObject(source, ownChanges, getAuthUser()),
+    title: newTitle,
+  };
+
+  // Find and rewrite referrers
+  const rewrites: Rewrite[] = [];
+  if (updateReferences) {
+    const { tiddlers: candidates, unreadable } = await queryTiddlersWithText(
+      buildReferrerFilter(title)
+    );
+    // A referrer that can't be read would be left linking to the old title
+    if (unreadable.length > 0) {
+      return errorResult({
+        error: `${unreadable.length} tiddler(s) that may refer to "${title}" could not be read; nothing was changed`,
+        unreadable,
+        suggestion: 'Call rename_tiddler again once the wiki responds',
+      });
+    }
+    for (const candidate of candidates) {
+      if (candidate.title === title) continue;
+      const changes = rewriteTiddler(candidate, title, newTitle);
+      if (Object.keys(changes).length > 0) {
+        rewrites.push({
+          original: candidate,
+          updated: updateTiddlerObject(candidate, changes, getAuthUser()),
+        });
+      }
+    }
+  }
+
+  // Preview: the move itself, then every referrer's diff
+  const lines: string[] = [];
+  lines.push(`**Rename:** "${title}" → "${newTitle}"`);
+  const ownDiff = generateTiddlerDiff(source, { ...renamed, title });
+  if (ownDiff) {
+    lines.push('');
+    lines.push(ownDiff);
+  }
+  lines.push('');
+  lines.push(`### References updated (${rewrites.length})`);
+  for (const { original, updated } of rewrites) {
+    lines.push('');
+    lines.push(`#### "${original.title}"`);
+    lines.push(generateTiddlerDiff(original, updated));
+  }
+  const preview = lines.join('\n');
+
+  // Get approval (token binds to the arguments and every tiddler's current revision)
+  const { confirmationToken, ...proposedArgs } = input;
+  const outcome = await requestApproval(approval, {
+    tool: 'rename_tiddler',
+    summary: `Rename "${title}" to "${newTitle}" (${rewrites.length} referring tiddler${rewrites.length === 1 ? '' : 's'})`,
+    preview,
+    subject: {
+      args: proposedArgs,
+      revisions: [source, ...rewrites.map((r) => r.original)].map((t) => [
+        t.title,
+        t.revision,
+        t.modified,
+      ]),
+    },
+    confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
+  // Apply: create the new tiddler, update referrers, then delete the old one.
+  // TiddlyWiki has no transactions, so undo completed writes if a later one fails.
+  let created = false;
+  const written: Rewrite[] = [];
+  try {
+    await putTiddler(renamed);
+    created = true;
+
+    for (const rewrite of rewrites) {
+      const ifMatch = getTiddlerEtag(rewrite.original) ?? undefined;
+      await putTiddler(rewrite.updated, { ifMatch });
+      written.push(rewrite);
+    }
+
+    await deleteTiddler(title, source.bag);
+  } catch (error) {
+    const rollbackErrors: string[] = [];
+    for (const { original } of written.reverse()) {
+      try {
+        await putTiddler(original);
+      } catch (rollbackError) {
+        rollbackErrors.push(`${original.title}: ${(rollbackError as Error).message}`);
+      }
+    }
+    if (created) {
+      try {
+        await deleteTiddler(newTitle, renamed.bag);
+      } catch (rollbackError) {
+        rollbackErrors.push(`${newTitle}: ${(rollbackError as Error).message}`);
+      }
+    }
+
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`[rename_tiddler] Rename of "${title}" failed: ${errMsg}`);
+    return errorResult({
+      error: `Rename failed: ${errMsg}`,
+      rolledBack: rollbackErrors.length === 0,
+      rollbackErrors: rollbackErrors.length > 0 ? rollbackErrors : undefined,
+      suggestion:
+        error instanceof TiddlerConflictError
+          ? 'A referring tiddler changed during the rename; call rename_tiddler again for a fresh proposal'
+          : undefined,
+    });
+  }
+
+  // Move embeddings to the new title and refresh the rewritten referrers and tags
+  deps.tagCache.invalidate();
+  if (deps.syncWorker) {
+    const contentChanged = ownChanges.text !== undefined || ownChanges.tags !== undefined;
+    await deps.syncWorker.renameTiddler(title, renamed, contentChanged);
+    deps.syncWorker.refreshInBackground(rewrites.map(({ updated }) => updated));
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `## Renamed: "${title}" → "${newTitle}"\n\n${preview}`,
+      },
+    ],
+  };
+}
+
+// Re-export the input schema for use in tool registration
+export { RenameTiddlerInput };
@@ -2,12 +2,162 @@
 // ABOUTME: Supports filter-based, semantic, and hybrid search modes with pagination
 
 import { encode } from 'gpt-tokenizer';
-import { queryTiddlers, getTiddler } from '../tiddlywiki-http.js';
-import type { ToolResult, ToolDependencies } from './types.js';
+import { queryTiddlers, getTiddler, runWithWiki } from '../tiddlywiki-http.js';
+import type { SearchResult, KeywordSearchResult } from '../embeddings/database.js';
+import { reciprocalRankFusion } from '../embeddings/rank-fusion.js';
+import { meanPool } from '../embeddings/vectors.js';
+import type { EmbeddingProvider } from '../embeddings/provider.js';
+import type { ToolResult, ToolDependencies, WikiTarget, SearchTiddlersInputType } from './types.js';
 import { SearchTiddlersInput } from './types.js';
+import { expandNeighbors } from './expand-neighbors.js';
 
 // Token counting and response size validation
-const MAX_RESPONSE_TOKENS = 23000; // Safe threshold below ~25k limit
+export const MAX_RESPONSE_TOKENS = 23000; // Safe threshold below ~25k limit
+
+// Hybrid mode ranks this many candidates per signal for each requested result
+const HYBRID_CANDIDATE_MULTIPLIER = 3;
+
+// Upper bound on chunks fetched while looking for `limit` distinct tiddlers
+const MAX_CHUNK_CANDIDATES = 800;
+
+// Maximum snippet length (characters) taken from the best-matching chunk
+const SNIPPET_LENGTH = 240;
+
+/**
+ * A chunk-level search hit, from vector search alone or fused with keyword ranking.
+ */
+interface RankedChunk {
+  tiddler_title: string;
+  chunk_id: number;
+  chunk_text?: string;
+  created: string;
+  modified: string;
+  tags: string;
+  distance?: number;
+  rrf_score?: number;
+  signals?: Record<string, { rank: number; similarity_score?: string; bm25?: string }>;
+}
+
+/**
+ * Fuse vector and keyword rankings with reciprocal rank fusion,
+ * recording which signals contributed to each chunk.
+ */
+function fuseRankings(
+  vectorResults: SearchResult[],
+  keywordResults: KeywordSearchResult[]
+): RankedChunk[] {
+  const chunkKey = (r: { tiddler_title: string; chunk_id: number }) =>
+    `${r.tiddler_title}#${r.chunk_id}`;
+  const vectorByKey = new Map(vectorResults.map((r) => [chunkKey(r), r]));
+  const keywordByKey = new Map(keywordResults.map((r) => [chunkKey(r), r]));
+
+  const fused = reciprocalRankFusion<SearchResult | KeywordSearchResult>(
+    { vector: vectorResults, keyword: keywordResults },
+    chunkKey
+  );
+
+  return fused.map(({ key, item, score, ranks }) => {
+    const vectorHit = vectorByKey.get(key);
+    const keywordHit = keywordByKey.get(key);
+    const signals: NonNullable<RankedChunk['signals']> = {};
+
+    if (vectorHit) {
+      signals.vector = {
+        rank: ranks.vector,
+        similarity_score: (1 - vectorHit.distance).toFixed(4),
+      };
+    }
+    if (keywordHit) {
+      signals.keyword = { rank: ranks.keyword, bm25: keywordHit.bm25.toFixed(4) };
+    }
+
+    return {
+      tiddler_title: item.tiddler_title,
+      chunk_id: item.chunk_id,
+      chunk_text: item.chunk_text,
+      created: item.created,
+      modified: item.modified,
+      tags: item.tags,
+      distance: vectorHit?.distance,
+      rrf_score: score,
+      signals,
+    };
+  });
+}
+
+/**
+ * A tiddler-level search hit: its best chunk plus an aggregate score over its matching chunks.
+ */
+interface TiddlerHit {
+  best: RankedChunk;
+  score: number;
+  matchedChunks: number;
+}
+
+/**
+ * Score of a single chunk: RRF score in hybrid mode, cosine-style similarity otherwise.
+ */
+function chunkScore(chunk: RankedChunk): number {
+  return chunk.rrf_score ?? 1 - (chunk.distance ?? 1);
+}
+
+/**
+ * Collapse chunk hits to one hit per tiddler, scored by its best chunk ("max")
+ * or the mean of its matching chunks ("mean"). Returns hits best first.
+ */
+function groupByTiddler(chunks: RankedChunk[], aggregate: 'max' | 'mean'): TiddlerHit[] {
+  const byTitle = new Map<string, RankedChunk[]>();
+  for (const chunk of chunks) {
+    const group = byTitle.get(chunk.tiddler_title);
+    if (group) {
+      group.push(chunk);
+    } else {
+      byTitle.set(chunk.tiddler_title, [chunk]);
+    }
+  }
+
+  const hits: TiddlerHit[] = [];
+  for (const group of byTitle.values()) {
+    const scores = group.map(chunkScore);
+    const bestIndex = scores.indexOf(Math.max(...scores));
+    const score =
+      aggregate === 'mean'
+        ? scores.reduce((sum, s) => sum + s, 0) / scores.length
+        : scores[bestIndex];
+    hits.push({ best: group[bestIndex], score, matchedChunks: group.length });
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Extract a short snippet from chunk text, centered on the first query term it contains.
+ * Falls back to the start of the chunk when no term appears (purely semantic match) or
+ * there is no query text, as in a similarTo search.
+ */
+function buildSnippet(text: string, query?: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= SNIPPET_LENGTH) {
+    return normalized;
+  }
+
+  const terms = ((query ?? '').toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []).filter(
+    (t) => t.length > 2
+  );
+  const lower = normalized.toLowerCase();
+  const positions = terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0);
+  const anchor = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(
+    0,
+    Math.min(anchor - SNIPPET_LENGTH / 3, normalized.length - SNIPPET_LENGTH)
+  );
+  const end = start + SNIPPET_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < normalized.length ? '…' : '';
+
+  return `${prefix}${normalized.slice(start, end).trim()}${suffix}`;
+}
 
 /**
  * Count tokens in a string using gpt-tokenizer
@@ -56,172 +206,341 @@ Then increment offset by ${suggestedLimit} for subsequent batches (offset: ${sug
 }
 
 /**
- * Handle search_tiddlers tool requests.
- * Supports three modes:
- * - Filter-only: Pure TiddlyWiki filter expressions
- * - Semantic-only: Similarity search on indexed tiddlers
- * - Hybrid: Filter results, then re-rank by semantic similarity
+ * A formatted search result or neighbor, with the score it is ranked by.
  */
-export async function handleSearchTiddlers(
-  args: unknown,
-  deps: ToolDependencies
-): Promise<ToolResult> {
-  const input = SearchTiddlersInput.parse(args);
-  const includeText = input.includeText ?? false;
-  const hasSemantic = input.semantic !== undefined;
-  const hasFilter = input.filter !== undefined;
+interface ScoredResult {
+  score: number;
+  result: Record<string, unknown>;
+}
 
-  // Filter-only mode
-  if (hasFilter && !hasSemantic) {
-    const offset = input.offset ?? 0;
-    const limit = input.limit;
-    const filter = input.filter!;
-    const results = await queryTiddlers(filter, includeText, offset, limit);
+/**
+ * Ranked results of a semantic or similarTo search against one wiki.
+ */
+interface SemanticSearchOutcome {
+  mode: 'semantic' | 'hybrid';
+  indexedCount: number;
+  results: ScoredResult[];
+  neighbors?: ScoredResult[];
+}
 
-    // Validate response size
-    const sizeError = validateResponseSize(results, filter, includeText);
-    if (sizeError) {
-      return {
-        content: [{ type: 'text', text: sizeError }],
-        isError: true,
-      };
-    }
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-    };
+/**
+ * Run a semantic or similarTo search (with optional filter and expansion) against the
+ * current wiki. Returns an error result if the search can't run.
+ */
+async function semanticSearch(
+  input: SearchTiddlersInputType,
+  deps: ToolDependencies,
+  embedQuery?: (provider: EmbeddingProvider, text: string) => Promise<number[]>
+): Promise<SemanticSearchOutcome | ToolResult> {
+  const { embeddingsDB, embeddingProvider, syncWorker } = deps;
+  const includeText = input.includeText ?? false;
+  const { semantic, similarTo } = input;
+
+  // Check if embeddings infrastructure is available (similarTo only needs the database)
+  if (!embeddingsDB || (semantic !== undefined && !embeddingProvider)) {
+    return errorResult({
+      error: 'Semantic search is not available',
+      reason: 'Embeddings database or embedding provider not initialized',
+      suggestion: 'Check server logs for initialization errors',
+    });
   }
 
-  // Semantic mode (with optional filter)
-  if (hasSemantic) {
-    const { embeddingsDB, ollamaClient, syncWorker } = deps;
+  // Check if any tiddlers have been indexed
+  const indexedCount = embeddingsDB.getIndexedTiddlersCount();
+  if (indexedCount === 0) {
+    return errorResult({
+      error: 'No tiddlers have been indexed yet',
+      suggestion:
+        'The sync worker is still indexing entries. Please wait a few minutes and try again.',
+      status: syncWorker?.getStatus() || 'unknown',
+    });
+  }
 
-    // Check if embeddings infrastructure is available
-    if (!embeddingsDB || !ollamaClient) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                error: 'Semantic search is not available',
-                reason: 'Embeddings database or Ollama client not initialized',
-                suggestion: 'Check server logs for initialization errors',
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
+  // Generate embedding for the query with the query prefix, or pool the seed tiddler's
+  // stored chunk vectors
+  const mode = input.mode ?? 'semantic';
+  let queryEmbedding: number[];
+  if (similarTo !== undefined) {
+    const seedVectors = embeddingsDB.getTiddlerEmbeddings(similarTo);
+    if (seedVectors.length === 0) {
+      return errorResult({
+        error: `Tiddler is not indexed: ${similarTo}`,
+        suggestion:
+          'Check the title. New or changed tiddlers are indexed by the sync worker within a few minutes.',
+      });
     }
+    queryEmbedding = meanPool(seedVectors);
+  } else {
+    queryEmbedding = embedQuery
+      ? await embedQuery(embeddingProvider!, semantic!)
+      : await embeddingProvider!.generateQueryEmbedding(semantic!);
+  }
 
-    // Check if any tiddlers have been indexed
-    const indexedCount = embeddingsDB.getIndexedTiddlersCount();
-    if (indexedCount === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                error: 'No tiddlers have been indexed yet',
-                suggestion:
-                  'The sync worker is still indexing entries. Please wait a few minutes and try again.',
-                status: syncWorker?.getStatus() || 'unknown',
-              },
-              null,
-              2
-            ),
-          },
-        ],
-        isError: true,
-      };
-    }
+  // Resolve the optional TiddlyWiki filter first, so the ranking only considers matching
+  // tiddlers (filtering after a top-k search would discard most of the hits)
+  let filterTitles: string[] | undefined;
+  if (input.filter !== undefined) {
+    const filterMatches = await queryTiddlers(input.filter, false);
+    filterTitles = filterMatches.map((t) => t.title);
+  }
 
-    // Generate embedding for the query with search_query prefix
-    const semantic = input.semantic!;
-    const queryEmbedding = await ollamaClient.generateQueryEmbedding(semantic);
-
-    // Search for similar entries
-    const limit = input.limit || 10;
-    const results = embeddingsDB.searchSimilar(queryEmbedding, limit);
-
-    // Apply optional TiddlyWiki filter for hybrid search
-    let filteredResults = results;
-    if (hasFilter) {
-      const filter = input.filter!;
-      const filterMatches = await queryTiddlers(filter, false);
-      const filterTitles = new Set(filterMatches.map((t) => t.title));
-      filteredResults = results.filter((r) => filterTitles.has(r.tiddler_title));
+  // Search for similar entries, widening the chunk search until `limit` distinct
+  // tiddlers are found (several top chunks may belong to the same long tiddler)
+  const limit = input.limit || 10;
+  const aggregate = input.aggregate ?? 'max';
+  const allowed = filterTitles ? new Set(filterTitles) : null;
+
+  const fetchChunks = (k: number): { chunks: RankedChunk[]; exhausted: boolean } => {
+    let chunks: RankedChunk[];
+    let exhausted: boolean;
+    if (mode === 'hybrid') {
+      // Hybrid mode always has a semantic query (similarTo has no text to match keywords)
+      const queryText = semantic!;
+      // Rank a wider pool by each signal so fusion can surface chunks either one misses
+      const poolSize = k * HYBRID_CANDIDATE_MULTIPLIER;
+      const vectorResults = filterTitles
+        ? embeddingsDB.searchSimilar(queryEmbedding, poolSize, filterTitles)
+        : embeddingsDB.searchSimilar(queryEmbedding, poolSize);
+      const keywordResults = filterTitles
+        ? embeddingsDB.searchKeyword(queryText, poolSize, filterTitles)
+        : embeddingsDB.searchKeyword(queryText, poolSize);
+      chunks = fuseRankings(vectorResults, keywordResults);
+      exhausted = vectorResults.length < poolSize && keywordResults.length < poolSize;
+    } else {
+      chunks = filterTitles
+        ? embeddingsDB.searchSimilar(queryEmbedding, k, filterTitles)
+        : embeddingsDB.searchSimilar(queryEmbedding, k);
+      exhausted = chunks.length < k;
     }
 
-    // Fetch full tiddlers if includeText is true
-    const formattedResults = await Promise.all(
-      filteredResults.map(async (r) => {
+    // Guard against anything outside the filter slipping through
+    if (allowed) {
+      chunks = chunks.filter((r) => allowed.has(r.tiddler_title));
+    }
+    // The seed of a similarTo search is its own best match
+    if (similarTo !== undefined) {
+      chunks = chunks.filter((r) => r.tiddler_title !== similarTo);
+    }
+    return { chunks, exhausted };
+  };
+
+  let k = limit;
+  let hits: TiddlerHit[];
+  for (;;) {
+    const { chunks, exhausted } = fetchChunks(k);
+    hits = groupByTiddler(chunks, aggregate);
+    if (hits.length >= limit || exhausted || k >= MAX_CHUNK_CANDIDATES) {
+      break;
+    }
+    k = Math.min(k * 2, MAX_CHUNK_CANDIDATES);
+  }
+  hits = hits.slice(0, limit);
+
+  // Fetch full tiddlers if includeText is true
+  const results = await Promise.all(
+    hits.map(async ({ best, score, matchedChunks }) => {
+      const result: Record<string, unknown> = {
+        tiddler_title: best.tiddler_title,
+        chunk_id: best.chunk_id,
+      };
+      if (best.rrf_score !== undefined) {
+        if (best.distance !== undefined) {
+          result.similarity_score = (1 - best.distance).toFixed(4);
+        }
+        result.rrf_score = score.toFixed(4);
+        result.signals = best.signals;
+      } else {
+        result.similarity_score = score.toFixed(4);
+      }
+      result.matched_chunks = matchedChunks;
+      result.snippet = buildSnippet(best.chunk_text ?? '', semantic);
+      result.created = best.created;
+      result.modified = best.modified;
+      result.tags = best.tags;
+
+      // Fetch full tiddler text if requested
+      if (includeText) {
+        const fullTiddler = await getTiddler(best.tiddler_title);
+        if (fullTiddler) {
+          result.text = fullTiddler.text;
+          result.type = fullTiddler.type;
+        }
+      }
+
+      return { score, result };
+    })
+  );
+
+  // Add tiddlers one hop from the top hits, ranked by graph proximity and query similarity
+  let neighbors: ScoredResult[] | undefined;
+  if (input.expand) {
+    const expanded = await expandNeighbors(
+      hits.map(({ best, score }) => ({ title: best.tiddler_title, score, tags: best.tags })),
+      {
+        limit,
+        allowed: allowed ?? undefined,
+        exclude: similarTo,
+        similarity: (titles) => {
+          const k = Math.min(titles.length * 4, MAX_CHUNK_CANDIDATES);
+          const best = new Map<string, number>();
+          for (const chunk of embeddingsDB.searchSimilar(queryEmbedding, k, titles)) {
+            const sim = 1 - chunk.distance;
+            best.set(chunk.tiddler_title, Math.max(best.get(chunk.tiddler_title) ?? sim, sim));
+          }
+          return best;
+        },
+      }
+    );
+    neighbors = await Promise.all(
+      expanded.map(async ({ tiddler, score, graphScore, similarity, via }) => {
         const result: Record<string, unknown> = {
-          tiddler_title: r.tiddler_title,
-          chunk_id: r.chunk_id,
-          similarity_score: (1 - r.distance).toFixed(4), // Convert distance to similarity
-          created: r.created,
-          modified: r.modified,
-          tags: r.tags,
+          tiddler_title: tiddler.title,
+          score: score.toFixed(4),
+          graph_score: graphScore.toFixed(4),
         };
+        if (similarity !== undefined) {
+          result.similarity_score = similarity.toFixed(4);
+        }
+        result.via = via;
+        result.modified = tiddler.modified;
+        result.tags = tiddler.tags;
 
-        // Fetch full tiddler text if requested
         if (includeText) {
-          const fullTiddler = await getTiddler(r.tiddler_title);
+          const fullTiddler = await getTiddler(tiddler.title);
           if (fullTiddler) {
             result.text = fullTiddler.text;
             result.type = fullTiddler.type;
           }
         }
 
-        return result;
+        return { score, result };
       })
     );
+  }
 
-    // Validate response size
-    const responseJson = JSON.stringify(formattedResults, null, 2);
-    const tokenCount = countTokens(responseJson);
+  return { mode, indexedCount, results, neighbors };
+}
 
-    if (tokenCount > MAX_RESPONSE_TOKENS) {
-      const avgTokensPerItem = tokenCount / formattedResults.length;
-      const suggestedLimit = Math.floor(MAX_RESPONSE_TOKENS / avgTokensPerItem);
+/**
+ * Return an error suggesting a lower limit if semantic results would exceed the token budget.
+ */
+function validateSemanticResponseSize(
+  input: SearchTiddlersInputType,
+  results: unknown[],
+  neighbors: unknown[] | undefined,
+  wikis?: string[]
+): ToolResult | null {
+  const responseJson = JSON.stringify([...results, ...(neighbors ?? [])], null, 2);
+  const tokenCount = countTokens(responseJson);
+  if (tokenCount <= MAX_RESPONSE_TOKENS) {
+    return null;
+  }
 
-      const filterParam = hasFilter ? `,\n  filter: "${input.filter!}"` : '';
-      const errorMessage = `Semantic search matched ${formattedResults.length} results but response would be ${tokenCount.toLocaleString()} tokens (exceeds ${MAX_RESPONSE_TOKENS.toLocaleString()} token limit).
+  const avgTokensPerItem = tokenCount / (results.length + (neighbors?.length ?? 0));
+  // With expand, each unit of limit can bring a neighbor as well as a result
+  const itemsPerResult = neighbors ? 2 : 1;
+  const suggestedLimit = Math.floor(MAX_RESPONSE_TOKENS / avgTokensPerItem / itemsPerResult);
+
+  const filterParam = input.filter !== undefined ? `,\n  filter: "${input.filter}"` : '';
+  const modeParam = input.mode === 'hybrid' ? `,\n  mode: "hybrid"` : '';
+  const expandParam = input.expand ? `,\n  expand: true` : '';
+  const wikiParam = wikis ? `,\n  wiki: ${JSON.stringify(wikis)}` : '';
+  const errorMessage = `Semantic search matched ${results.length} results but response would be ${tokenCount.toLocaleString()} tokens (exceeds ${MAX_RESPONSE_TOKENS.toLocaleString()} token limit).
 
 To retrieve results, use the limit parameter.
 
 **Suggested query:**
 \`\`\`
 search_tiddlers({
-  semantic: "${semantic}",
-  includeText: ${includeText},
-  limit: ${suggestedLimit}${filterParam}
+  ${input.similarTo !== undefined ? `similarTo: "${input.similarTo}"` : `semantic: "${input.semantic}"`},
+  includeText: ${input.includeText ?? false},
+  limit: ${suggestedLimit}${filterParam}${modeParam}${expandParam}${wikiParam}
 })
 \`\`\`
 
 Note: Semantic search returns results ordered by similarity, so using a lower limit will return the most relevant matches.`;
 
+  return {
+    content: [{ type: 'text', text: errorMessage }],
+    isError: true,
+  };
+}
+
+/**
+ * Handle search_tiddlers tool requests.
+ * Supports three modes:
+ * - Filter-only: Pure TiddlyWiki filter expressions
+ * - Semantic-only: Similarity search on indexed tiddlers (optionally fused with BM25 keyword
+ *   ranking when mode is "hybrid"), one result per tiddler with a snippet of its best chunk
+ * - Filtered semantic: Rank only the tiddlers matching the filter, in either semantic mode
+ * `similarTo` replaces the semantic query with an indexed tiddler's stored vectors, so no
+ * embedding call is made. With `expand`, vector searches also return one hop of linked and
+ * same-tag neighbors.
+ */
+export async function handleSearchTiddlers(
+  args: unknown,
+  deps: ToolDependencies
+): Promise<ToolResult> {
+  const input = SearchTiddlersInput.parse(args);
+  const includeText = input.includeText ?? false;
+  const hasSemantic = input.semantic !== undefined;
+  const hasSimilarTo = input.similarTo !== undefined;
+  const hasFilter = input.filter !== undefined;
+
+  // Filter-only mode
+  if (hasFilter && !hasSemantic && !hasSimilarTo) {
+    const offset = input.offset ?? 0;
+    const limit = input.limit;
+    const filter = input.filter!;
+    const results = await queryTiddlers(filter, includeText, offset, limit);
+
+    // Validate response size
+    const sizeError = validateResponseSize(results, filter, includeText);
+    if (sizeError) {
       return {
-        content: [{ type: 'text', text: errorMessage }],
+        content: [{ type: 'text', text: sizeError }],
         isError: true,
       };
     }
 
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+    };
+  }
+
+  // Semantic mode (with optional filter)
+  if (hasSemantic || hasSimilarTo) {
+    const outcome = await semanticSearch(input, deps);
+    if ('content' in outcome) {
+      return outcome;
+    }
+    const results = outcome.results.map(({ result }) => result);
+    const neighbors = outcome.neighbors?.map(({ result }) => result);
+
+    const sizeError = validateSemanticResponseSize(input, results, neighbors);
+    if (sizeError) {
+      return sizeError;
+    }
+
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify(
             {
-              query: semantic,
-              total_results: formattedResults.length,
-              indexed_tiddlers: indexedCount,
-              results: formattedResults,
+              ...(hasSimilarTo ? { similar_to: input.similarTo } : { query: input.semantic }),
+              mode: outcome.mode,
+              total_results: results.length,
+              indexed_tiddlers: outcome.indexedCount,
+              results,
+              ...(neighbors ? { neighbors } : {}),
             },
             null,
             2
@@ -235,5 +554,112 @@ Note: Semantic search returns results ordered by similarity, so using a lower li
   throw new Error('Either semantic or filter must be provided');
 }
 
+/**
+ * Handle search_tiddlers requests that name several wikis.
+ * Runs the semantic search in each wiki, labels every result and neighbor with the wiki it
+ * came from, and merges them by score. Wikis where the search can't run (e.g. not indexed
+ * yet, unreachable or a failing embedding provider) are reported in `unavailable`; it's an
+ * error only if no wiki could be searched.
+ */
+export async function handleSearchAcrossWikis(
+  args: unknown,
+  wikis: WikiTarget[]
+): Promise<ToolResult> {
+  const input = SearchTiddlersInput.parse(args);
+  if (input.semantic === undefined) {
+    return errorResult({
+      error: 'Searching several wikis requires a semantic query',
+      suggestion:
+        'Pass a single wiki name for filter-only or similarTo searches, since filters and seed tiddlers belong to one wiki',
+    });
+  }
+  const limit = input.limit || 10;
+
+  // Wikis sharing a provider and model share one query embedding
+  const queryEmbeddings = new Map<string, Promise<number[]>>();
+  const embedQuery = (provider: EmbeddingProvider, text: string): Promise<number[]> => {
+    const key = `${provider.name}/${provider.model}`;
+    let embedding = queryEmbeddings.get(key);
+    if (!embedding) {
+      embedding = provider.generateQueryEmbedding(text);
+      queryEmbeddings.set(key, embedding);
+    }
+    return embedding;
+  };
+
+  const outcomes = await Promise.allSettled(
+    wikis.map(({ name, deps }) => runWithWiki(name, () => semanticSearch(input, deps, embedQuery)))
+  );
+
+  const results: ScoredResult[] = [];
+  const neighbors: ScoredResult[] = [];
+  const indexedTiddlers: Record<string, number> = {};
+  const unavailable: Array<{ wiki: string; error: unknown }> = [];
+  outcomes.forEach((settled, i) => {
+    const wiki = wikis[i].name;
+    if (settled.status === 'rejected') {
+      unavailable.push({ wiki, error: (settled.reason as Error).message });
+      return;
+    }
+    const outcome = settled.value;
+    if ('content' in outcome) {
+      unavailable.push({ wiki, error: JSON.parse(outcome.content[0].text).error });
+      return;
+    }
+    indexedTiddlers[wiki] = outcome.indexedCount;
+    const label = ({ score, result }: ScoredResult) => ({ score, result: { wiki, ...result } });
+    results.push(...outcome.results.map(label));
+    neighbors.push(...(outcome.neighbors ?? []).map(label));
+  });
+
+  if (unavailable.length === wikis.length) {
+    return errorResult({ error: 'Semantic search is not available in any wiki', unavailable });
+  }
+
+  const byScore = (a: ScoredResult, b: ScoredResult) => b.score - a.score;
+  const merged = results
+    .sort(byScore)
+    .slice(0, limit)
+    .map(({ result }) => result);
+  const mergedNeighbors = input.expand
+    ? neighbors
+        .sort(byScore)
+        .slice(0, limit)
+        .map(({ result }) => result)
+    : undefined;
+
+  const sizeError = validateSemanticResponseSize(
+    input,
+    merged,
+    mergedNeighbors,
+    wikis.map(({ name }) => name)
+  );
+  if (sizeError) {
+    return sizeError;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            query: input.semantic,
+            mode: input.mode ?? 'semantic',
+            wikis: wikis.map(({ name }) => name),
+            total_results: merged.length,
+            indexed_tiddlers: indexedTiddlers,
+            results: merged,
+            ...(mergedNeighbors ? { neighbors: mergedNeighbors } : {}),
+            ...(unavailable.length > 0 ? { unavailable } : {}),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
 // Re-export the input schema for use in tool registration
 export { SearchTiddlersInput };
@@ -0,0 +1,233 @@
+// ABOUTME: Handlers for the add_tags and remove_tags MCP tools
+// ABOUTME: Changes tags on one tiddler or a filter result without breaking [[Multi Word]] tags
+
+import {
+  getTiddler,
+  putTiddler,
+  queryTiddlersWithText,
+  updateTiddlerObject,
+  getAuthUser,
+  getTiddlerEtag,
+  type Tiddler,
+} from '../tiddlywiki-http.js';
+import { parseStringArray, stringifyList, addToList, removeFromList } from '../wikitext.js';
+import { mapWithConcurrency, WRITE_CONCURRENCY } from '../concurrency.js';
+import type { ToolResult, ToolDependencies } from './types.js';
+import { TagTiddlersInput } from './types.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
+
+// Upper bound on tiddlers changed by one filter-based call
+export const MAX_TAG_TARGETS = 500;
+
+export interface TagChange {
+  original: Tiddler;
+  updated: Tiddler;
+}
+
+function errorResult(body: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * One preview line per tiddler: tags added (+) and removed (-).
+ */
+export function formatTagChange({ original, updated }: TagChange): string {
+  const before = parseStringArray(original.tags);
+  const after = parseStringArray(updated.tags);
+  const added = after
+    .filter((tag) => !before.includes(tag))
+    .map((tag) => `+${stringifyList([tag])}`);
+  const removed = before
+    .filter((tag) => !after.includes(tag))
+    .map((tag) => `-${stringifyList([tag])}`);
+  return `- "${updated.title}": ${[...added, ...removed].join(' ')}`;
+}
+
+/**
+ * Write tag changes with bounded concurrency, each guarded by the revision it was based on.
+ * Failures are reported per tiddler rather than aborting the rest.
+ */
+export async function applyTagChanges(
+  changes: TagChange[],
+  deps: ToolDependencies
+): Promise<{ updated: string[]; failed: Array<{ title: string; error: string }> }> {
+  const settled = await mapWithConcurrency(changes, WRITE_CONCURRENCY, ({ original, updated }) =>
+    putTiddler(updated, { ifMatch: getTiddlerEtag(original) ?? undefined })
+  );
+
+  const updated: string[] = [];
+  const failed: Array<{ title: string; error: string }> = [];
+  for (let i = 0; i < changes.length; i++) {
+    const outcome = settled[i];
+    const title = changes[i].updated.title;
+    if (outcome.status === 'fulfilled') {
+      updated.push(title);
+    } else {
+      const reason = outcome.reason;
+      failed.push({ title, error: reason instanceof Error ? reason.message : String(reason) });
+    }
+  }
+
+  // Without a sync worker nothing else tells list_tags that tags changed
+  if (updated.length > 0) {
+    deps.tagCache.invalidate();
+  }
+  deps.syncWorker?.refreshInBackground(
+    changes.filter((_, i) => settled[i].status === 'fulfilled').map((c) => c.updated)
+  );
+  return { updated, failed };
+}
+
+async function handleTagChange(
+  action: 'add' | 'remove',
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext
+): Promise<ToolResult> {
+  const input = TagTiddlersInput.parse(args);
+  const { tags } = input;
+
+  // Resolve targets
+  let targets: Tiddler[];
+  if (input.title !== undefined) {
+    const tiddler = await getTiddler(input.title);
+    if (!tiddler) {
+      return errorResult({ error: `Tiddler not found: ${input.title}` });
+    }
+    targets = [tiddler];
+  } else {
+    const { tiddlers, unreadable } = await queryTiddlersWithText(
+      input.filter!,
+      0,
+      MAX_TAG_TARGETS + 1
+    );
+    if (tiddlers.length + unreadable.length > MAX_TAG_TARGETS) {
+      return errorResult({
+        error: `Filter matches more than ${MAX_TAG_TARGETS} tiddlers`,
+        suggestion: 'Narrow the filter and run the tool several times',
+      });
+    }
+    if (unreadable.length > 0) {
+      return errorResult({
+        error: `${unreadable.length} matching tiddler(s) could not be read; nothing was changed`,
+        unreadable,
+        suggestion: 'Call the tool again once the wiki responds',
+      });
+    }
+    targets = tiddlers;
+  }
+
+  const changes: TagChange[] = [];
+  for (const tiddler of targets) {
+    const newTags =
+      action === 'add' ? addToList(tiddler.tags, tags) : removeFromList(tiddler.tags, tags);
+    if (newTags !== tiddler.tags) {
+      changes.push({
+        original: tiddler,
+        updated: updateTiddlerObject(tiddler, { tags: newTags }, getAuthUser()),
+      });
+    }
+  }
+
+  const tagList = stringifyList(tags);
+  const unchanged = targets.length - changes.length;
+  if (changes.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              message: `No changes: ${targets.length === 0 ? 'no tiddlers matched' : `tags already ${action === 'add' ? 'present' : 'absent'}`}`,
+              tags,
+              matched: targets.length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  // Preview
+  const verb = action === 'add' ? 'Add' : 'Remove';
+  const preview = [
+    `**Tags:** ${verb.toLowerCase()} ${tagList} on ${changes.length} tiddler${changes.length === 1 ? '' : 's'}` +
+      (unchanged > 0 ? ` (${unchanged} already ${action === 'add' ? 'tagged' : 'untagged'})` : ''),
+    '',
+    ...changes.map(formatTagChange),
+  ].join('\n');
+
+  // Get approval (token binds to the arguments and every target's current revision)
+  const { confirmationToken, ...proposedArgs } = input;
+  const outcome = await requestApproval(approval, {
+    tool: action === 'add' ? 'add_tags' : 'remove_tags',
+    summary: `${verb} ${tagList} on ${changes.length} tiddler${changes.length === 1 ? '' : 's'}`,
+    preview,
+    subject: {
+      args: proposedArgs,
+      revisions: changes.map(({ original }) => [
+        original.title,
+        original.revision,
+        original.modified,
+      ]),
+    },
+    confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
+  const { updated, failed } = await applyTagChanges(changes, deps);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            ...(failed.length > 0
+              ? { error: `${failed.length} of ${changes.length} tiddlers could not be updated` }
+              : {}),
+            tags,
+            updated,
+            failed: failed.length > 0 ? failed : undefined,
+            unchanged,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+    ...(failed.length > 0 ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Handle add_tags tool requests.
+ */
+export async function handleAddTags(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
+  return handleTagChange('add', args, deps, approval);
+}
+
+/**
+ * Handle remove_tags tool requests.
+ */
+export async function handleRemoveTags(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
+  return handleTagChange('remove', args, deps, approval);
+}
+
+// Re-export the input schema for use in tool registration
+export { TagTiddlersInput };
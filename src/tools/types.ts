@@ -2,9 +2,11 @@
 // ABOUTME: Defines ToolResult, ToolDependencies, and Zod schemas for tool inputs
 
 import { z } from 'zod';
+import { parseStringArray } from '../wikitext.js';
 import type { EmbeddingsDB } from '../embeddings/database.js';
-import type { OllamaClient } from '../embeddings/ollama-client.js';
+import type { EmbeddingProvider } from '../embeddings/provider.js';
 import type { SyncWorker } from '../embeddings/sync-worker.js';
+import type { TagCache } from '../tags.js';
 
 /**
  * Standard result type returned by all tool handlers.
@@ -18,17 +20,38 @@ export interface ToolResult {
 }
 
 /**
- * Dependencies injected into tool handlers that need embeddings functionality.
- * All fields are nullable since embeddings may be disabled.
+ * Dependencies injected into tool handlers that need embeddings functionality
+ * (semantic search, and keeping embeddings fresh after writes) or shared caches.
+ * The embeddings fields are nullable since embeddings may be disabled.
  */
 export interface ToolDependencies {
   embeddingsDB: EmbeddingsDB | null;
-  ollamaClient: OllamaClient | null;
+  embeddingProvider: EmbeddingProvider | null;
   syncWorker: SyncWorker | null;
+  tagCache: TagCache;
+}
+
+/**
+ * A configured wiki and the dependencies for tool calls against it.
+ */
+export interface WikiTarget {
+  name: string;
+  url: string;
+  deps: ToolDependencies;
 }
 
 // Zod schemas for tool inputs
 
+// The optional `wiki` argument every tool accepts; search_tiddlers also takes several names
+export const WikiSelection = z
+  .union([
+    z.string().min(1, 'wiki must not be empty'),
+    z.array(z.string().min(1, 'wiki must not be empty')).min(1, 'wiki must name at least one wiki'),
+  ])
+  .optional();
+
+export type WikiSelectionType = z.infer<typeof WikiSelection>;
+
 export const SearchTiddlersInput = z
   .object({
     semantic: z
@@ -37,11 +60,29 @@ export const SearchTiddlersInput = z
       .describe(
         'Natural language semantic search query (e.g., "times I felt anxious about parenting")'
       ),
+    similarTo: z
+      .string()
+      .optional()
+      .describe(
+        'Title of an indexed tiddler to find similar tiddlers to, using its stored embeddings as the query instead of semantic'
+      ),
     filter: z
       .string()
       .optional()
       .describe(
-        'TiddlyWiki filter expression (e.g., "[tag[Journal]prefix[2025-11]]"). Can be used alone for filter-based search, or combined with semantic for hybrid search.'
+        'TiddlyWiki filter expression (e.g., "[tag[Journal]prefix[2025-11]]"). Can be used alone for filter-based search, or combined with semantic to rank only the matching tiddlers.'
+      ),
+    mode: z
+      .enum(['semantic', 'hybrid'])
+      .optional()
+      .describe(
+        'Ranking for the semantic query: "semantic" (vector similarity, default) or "hybrid" (vector + BM25 keyword ranking fused with reciprocal rank fusion)'
+      ),
+    aggregate: z
+      .enum(['max', 'mean'])
+      .optional()
+      .describe(
+        'How to score a tiddler from its matching chunks: "max" (best chunk, default) or "mean"'
       ),
     includeText: z
       .boolean()
@@ -62,21 +103,144 @@ export const SearchTiddlersInput = z
       .describe(
         'Maximum number of results to return (default: 10 for semantic, unlimited for filter, max: 100)'
       ),
+    expand: z
+      .boolean()
+      .optional()
+      .describe(
+        'Also return tiddlers one hop from the top semantic hits via links, backlinks and shared tags (default: false)'
+      ),
+  })
+  .refine(
+    (data) =>
+      data.semantic !== undefined || data.similarTo !== undefined || data.filter !== undefined,
+    { message: 'At least one of semantic, similarTo or filter must be provided' }
+  )
+  .refine((data) => data.semantic === undefined || data.similarTo === undefined, {
+    message: 'Provide either semantic or similarTo, not both',
+  })
+  .refine((data) => data.mode !== 'hybrid' || data.similarTo === undefined, {
+    message: 'mode "hybrid" needs a semantic query; similarTo searches by vector only',
   })
-  .refine((data) => data.semantic !== undefined || data.filter !== undefined, {
-    message: 'At least one of semantic or filter must be provided',
+  .refine((data) => !data.expand || data.semantic !== undefined || data.similarTo !== undefined, {
+    message: 'expand requires a semantic or similarTo query',
   });
 
 export type SearchTiddlersInputType = z.infer<typeof SearchTiddlersInput>;
 
+export const GetTiddlerInput = z
+  .object({
+    title: z.string().describe('Title of the tiddler to read'),
+    fields: z
+      .array(z.string())
+      .optional()
+      .describe('Fields to return (default: all). Title and revision are always included.'),
+    startLine: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('First line of text to return (1-based, default: 1)'),
+    endLine: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Last line of text to return (inclusive, default: last line)'),
+    section: z
+      .string()
+      .optional()
+      .describe(
+        'Return only the text under this heading (up to the next heading of the same level)'
+      ),
+    render: z
+      .boolean()
+      .optional()
+      .describe('Return the tiddler rendered to HTML by TiddlyWiki instead of its raw text'),
+  })
+  .refine((data) => !(data.section !== undefined && (data.startLine || data.endLine)), {
+    message: 'section cannot be combined with startLine/endLine',
+  })
+  .refine(
+    (data) => !(data.render && (data.section !== undefined || data.startLine || data.endLine)),
+    {
+      message: 'render cannot be combined with section or startLine/endLine',
+    }
+  )
+  .refine((data) => !(data.startLine && data.endLine && data.endLine < data.startLine), {
+    message: 'endLine must not be before startLine',
+  });
+
+export type GetTiddlerInputType = z.infer<typeof GetTiddlerInput>;
+
+export const TextEdit = z.discriminatedUnion('mode', [
+  z.object({
+    mode: z.literal('append'),
+    text: z.string().describe('Text to add at the end'),
+  }),
+  z.object({
+    mode: z.literal('prepend'),
+    text: z.string().describe('Text to add at the start'),
+  }),
+  z.object({
+    mode: z.literal('replace'),
+    find: z.string().min(1).describe('Exact text to find'),
+    replace: z.string().describe('Replacement text'),
+    all: z
+      .boolean()
+      .optional()
+      .describe('Replace every occurrence; otherwise the text must occur exactly once'),
+  }),
+  z.object({
+    mode: z.literal('regex'),
+    pattern: z.string().min(1).describe('JavaScript regular expression'),
+    replace: z.string().describe('Replacement; may use $1, $<name> etc.'),
+    flags: z.string().optional().describe('Regular expression flags (default: g)'),
+  }),
+  z.object({
+    mode: z.literal('insert_at_heading'),
+    heading: z.string().describe('Heading text (Markdown # or wikitext !), case-insensitive'),
+    text: z.string().describe('Text to insert'),
+    position: z
+      .enum(['start', 'end'])
+      .optional()
+      .describe('Insert right after the heading or at the end of its section (default: end)'),
+  }),
+  z.object({
+    mode: z.literal('patch'),
+    patch: z.string().describe('Unified diff to apply to the current text'),
+  }),
+]);
+
+export type TextEditType = z.infer<typeof TextEdit>;
+
 export const UpdateTiddlerInput = z
   .object({
     title: z.string().describe('Title of the tiddler to update'),
     text: z.string().optional().describe('New text content'),
+    edits: z
+      .array(TextEdit)
+      .min(1)
+      .optional()
+      .describe('Partial edits applied in order to the current text (instead of text)'),
     tags: z.string().optional().describe('New tags (space-separated)'),
     type: z.string().optional().describe('Content type (e.g., text/markdown)'),
+    expectedRevision: z
+      .union([z.string(), z.number()])
+      .optional()
+      .describe('Revision the update is based on; fails with a conflict if the tiddler moved on'),
+    expectedModified: z
+      .string()
+      .optional()
+      .describe('Modified timestamp the update is based on (alternative to expectedRevision)'),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe('Token from a previous proposal, sent back to apply the change'),
   })
-  .passthrough(); // Allow additional custom fields
+  .passthrough() // Allow additional custom fields
+  .refine((data) => data.text === undefined || data.edits === undefined, {
+    message: 'Provide either text or edits, not both',
+  });
 
 export type UpdateTiddlerInputType = z.infer<typeof UpdateTiddlerInput>;
 
@@ -86,6 +250,10 @@ export const CreateTiddlerInput = z
     text: z.string().describe('Text content'),
     tags: z.string().optional().describe('Tags (space-separated)'),
     type: z.string().optional().describe('Content type (default: text/markdown)'),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe('Token from a previous proposal, sent back to apply the change'),
   })
   .passthrough(); // Allow additional custom fields
 
@@ -93,6 +261,244 @@ export type CreateTiddlerInputType = z.infer<typeof CreateTiddlerInput>;
 
 export const DeleteTiddlerInput = z.object({
   title: z.string().describe('Title of the tiddler to delete'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Token from a previous proposal, sent back to apply the change'),
 });
 
 export type DeleteTiddlerInputType = z.infer<typeof DeleteTiddlerInput>;
+
+export const RenameTiddlerInput = z
+  .object({
+    title: z.string().describe('Current title of the tiddler'),
+    newTitle: z.string().min(1).describe('New title'),
+    updateReferences: z
+      .boolean()
+      .optional()
+      .describe(
+        'Rewrite links, transclusions, macro parameters and tags that point at the old title (default: true)'
+      ),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe('Token from a previous proposal, sent back to apply the change'),
+  })
+  .refine((data) => data.title !== data.newTitle, {
+    message: 'newTitle must differ from title',
+  });
+
+export type RenameTiddlerInputType = z.infer<typeof RenameTiddlerInput>;
+
+const BatchCreateOperation = z
+  .object({
+    op: z.literal('create'),
+    title: z.string().min(1).describe('Title of the new tiddler'),
+    text: z.string().describe('Text content'),
+    tags: z.string().optional().describe('Tags (space-separated)'),
+    type: z.string().optional().describe('Content type (default: text/markdown)'),
+  })
+  .passthrough(); // Allow additional custom fields
+
+const BatchUpdateOperation = z
+  .object({
+    op: z.literal('update'),
+    title: z.string().min(1).describe('Title of the tiddler to update'),
+    text: z.string().optional().describe('New text content'),
+    tags: z.string().optional().describe('New tags (space-separated)'),
+    type: z.string().optional().describe('Content type (e.g., text/markdown)'),
+    expectedRevision: z
+      .union([z.string(), z.number()])
+      .optional()
+      .describe('Revision the update is based on'),
+    expectedModified: z.string().optional().describe('Modified timestamp the update is based on'),
+  })
+  .passthrough(); // Allow additional custom fields
+
+const BatchDeleteOperation = z.object({
+  op: z.literal('delete'),
+  title: z.string().min(1).describe('Title of the tiddler to delete'),
+});
+
+export const BatchOperation = z.discriminatedUnion('op', [
+  BatchCreateOperation,
+  BatchUpdateOperation,
+  BatchDeleteOperation,
+]);
+
+export type BatchOperationType = z.infer<typeof BatchOperation>;
+
+export const BatchTiddlersInput = z.object({
+  operations: z
+    .array(BatchOperation)
+    .min(1)
+    .max(100)
+    .describe('Create, update and delete operations; each title may appear only once'),
+  rollbackOnFailure: z
+    .boolean()
+    .optional()
+    .describe('Undo already-applied operations if any operation fails (default: false)'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Token from a previous proposal, sent back to apply the change'),
+});
+
+export type BatchTiddlersInputType = z.infer<typeof BatchTiddlersInput>;
+
+/**
+ * Tags as an array of titles, or a TiddlyWiki title list string ("a [[Multi Word]] b").
+ */
+const TagList = z
+  .union([z.array(z.string().min(1)), z.string()])
+  .transform((value) => parseStringArray(value))
+  .refine((tags) => tags.length > 0, { message: 'At least one tag is required' });
+
+export const TagTiddlersInput = z
+  .object({
+    title: z.string().optional().describe('Title of a single tiddler to change'),
+    filter: z.string().optional().describe('TiddlyWiki filter selecting the tiddlers to change'),
+    tags: TagList.describe('Tags to add or remove'),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe('Token from a previous proposal, sent back to apply the change'),
+  })
+  .refine((data) => (data.title === undefined) !== (data.filter === undefined), {
+    message: 'Provide exactly one of title or filter',
+  });
+
+export type TagTiddlersInputType = z.infer<typeof TagTiddlersInput>;
+
+export const RenameTagInput = z
+  .object({
+    tag: z.string().min(1).describe('Current tag'),
+    newTag: z.string().min(1).describe('New tag'),
+    renameTagTiddler: z
+      .boolean()
+      .optional()
+      .describe('Also rename the tiddler titled after the tag, if it exists (default: true)'),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe('Token from a previous proposal, sent back to apply the change'),
+  })
+  .refine((data) => data.tag !== data.newTag, {
+    message: 'newTag must differ from tag',
+  });
+
+export type RenameTagInputType = z.infer<typeof RenameTagInput>;
+
+export const ListTagsInput = z.object({
+  match: z.string().optional().describe('Only tags containing this text (case-insensitive)'),
+  includeSystem: z
+    .boolean()
+    .optional()
+    .describe(
+      'Include system tags ($:/...) and tags used only by system tiddlers (default: false)'
+    ),
+  sort: z.enum(['count', 'name']).optional().describe('Sort order (default: count)'),
+  limit: z.number().int().positive().optional().describe('Maximum tags to return (default: 500)'),
+});
+
+export type ListTagsInputType = z.infer<typeof ListTagsInput>;
+
+export const GetLinksInput = z.object({
+  title: z.string().describe('Title of the tiddler'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Maximum titles returned per list (default: 100)'),
+});
+
+export type GetLinksInputType = z.infer<typeof GetLinksInput>;
+
+const GraphPagination = {
+  offset: z.number().int().min(0).optional().describe('Number of results to skip (default: 0)'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Maximum number of results to return (default: 100)'),
+};
+
+export const FindMissingInput = z.object({
+  filter: z
+    .string()
+    .optional()
+    .describe('Only check links from tiddlers matching this filter (default: all non-system)'),
+  ...GraphPagination,
+});
+
+export type FindMissingInputType = z.infer<typeof FindMissingInput>;
+
+export const FindOrphansInput = z.object(GraphPagination);
+
+export type FindOrphansInputType = z.infer<typeof FindOrphansInput>;
+
+export const FindDuplicatesInput = z.object({
+  threshold: z
+    .number()
+    .min(0.5)
+    .max(1)
+    .optional()
+    .describe('Minimum cosine similarity for two tiddlers to count as duplicates (default: 0.95)'),
+  filter: z
+    .string()
+    .optional()
+    .describe('Only compare tiddlers matching this filter (default: all indexed tiddlers)'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Maximum number of clusters to return (default: 20)'),
+});
+
+export type FindDuplicatesInputType = z.infer<typeof FindDuplicatesInput>;
+
+export const MergeTiddlersInput = z
+  .object({
+    sources: z
+      .array(z.string().min(1))
+      .min(1)
+      .max(20)
+      .describe('Titles of the tiddlers to merge into the target, in order'),
+    target: z
+      .string()
+      .min(1)
+      .describe(
+        'Title to merge into: an existing tiddler keeps its text first, a new one is created'
+      ),
+    strategy: z
+      .enum(['concatenate', 'interleave'])
+      .optional()
+      .describe(
+        'How to combine text: "concatenate" (one after another, default) or "interleave" (section by section, matching headings)'
+      ),
+    sourceAction: z
+      .enum(['delete', 'redirect'])
+      .optional()
+      .describe(
+        'What happens to the sources: "delete" (default) or "redirect" (replace with a stub linking to the target)'
+      ),
+    updateReferences: z
+      .boolean()
+      .optional()
+      .describe('Rewrite links, transclusions and tags pointing at the sources (default: true)'),
+    confirmationToken: z
+      .string()
+      .optional()
+      .describe('Token from a previous proposal, sent back to apply the change'),
+  })
+  .refine((data) => new Set(data.sources).size === data.sources.length, {
+    message: 'sources must not repeat a title',
+  })
+  .refine((data) => !data.sources.includes(data.target), {
+    message: 'target must not be one of the sources',
+  });
+
+export type MergeTiddlersInputType = z.infer<typeof MergeTiddlersInput>;
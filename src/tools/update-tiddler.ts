@@ -1,5 +1,5 @@
 // ABOUTME: Handler for the update_tiddler MCP tool
-// ABOUTME: Updates existing tiddlers with diff preview and custom field support
+// ABOUTME: Updates existing tiddlers (full text or partial edits) with diff preview and custom field support
 
 import { createTwoFilesPatch } from 'diff';
 import {
@@ -7,15 +7,22 @@ import {
   putTiddler,
   updateTiddlerObject,
   getAuthUser,
+  getTiddlerEtag,
+  getTiddlerSnapshot,
+  TiddlerConflictError,
   type Tiddler,
 } from '../tiddlywiki-http.js';
-import type { ToolResult } from './types.js';
+import { applyTextEdits, TextEditError } from '../text-edits.js';
+import { isMarkdownType } from '../wikitext.js';
+import type { ToolResult, ToolDependencies, TextEditType } from './types.js';
 import { UpdateTiddlerInput } from './types.js';
+import { requestApproval, NO_ELICITATION, type ApprovalContext } from './approval.js';
 
 /**
- * Generate a readable diff between two tiddlers
+ * Generate a readable diff between two tiddlers.
+ * Exported for use by other write handlers (rename).
  */
-function generateTiddlerDiff(oldTiddler: Tiddler, newTiddler: Tiddler): string {
+export function generateTiddlerDiff(oldTiddler: Tiddler, newTiddler: Tiddler): string {
   const lines: string[] = [];
 
   // Text diff
@@ -57,6 +64,13 @@ function generateTiddlerDiff(oldTiddler: Tiddler, newTiddler: Tiddler): string {
     metadataChanges.push(`  tags: "${oldTiddler.tags || ''}" → "${newTiddler.tags || ''}"`);
   }
 
+  // The list field may be nested under `fields` in tiddlers read one by one
+  const oldList = oldTiddler.list ?? oldTiddler.fields?.list ?? '';
+  const newList = newTiddler.list ?? newTiddler.fields?.list ?? '';
+  if (oldList !== newList) {
+    metadataChanges.push(`  list: "${oldList}" → "${newList}"`);
+  }
+
   if (oldTiddler.type !== newTiddler.type) {
     metadataChanges.push(`  type: "${oldTiddler.type}" → "${newTiddler.type}"`);
   }
@@ -70,11 +84,131 @@ function generateTiddlerDiff(oldTiddler: Tiddler, newTiddler: Tiddler): string {
   return lines.join('\n');
 }
 
+/**
+ * Check whether the current tiddler still matches the revision the caller expects.
+ */
+export function matchesExpectation(
+  current: Tiddler,
+  expectedRevision: string | number | undefined,
+  expectedModified: string | undefined
+): boolean {
+  if (expectedRevision !== undefined && String(current.revision) !== String(expectedRevision)) {
+    return false;
+  }
+  if (expectedModified !== undefined && current.modified !== expectedModified) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Apply the field updates and any partial text edits to a tiddler.
+ * Throws TextEditError when the edits don't match its text.
+ */
+function applyUpdates(
+  tiddler: Tiddler,
+  updates: Partial<Tiddler>,
+  edits: TextEditType[] | undefined
+): Tiddler {
+  const changes =
+    edits !== undefined
+      ? {
+          ...updates,
+          text: applyTextEdits(tiddler.text || '', edits, isMarkdownType(tiddler.type)),
+        }
+      : updates;
+  return updateTiddlerObject(tiddler, changes, getAuthUser());
+}
+
+/**
+ * The diff from a tiddler to the proposed update, or why the edits don't apply to it
+ */
+function proposedDiff(
+  from: Tiddler,
+  updates: Partial<Tiddler>,
+  edits: TextEditType[] | undefined
+): string {
+  try {
+    return generateTiddlerDiff(from, applyUpdates(from, updates, edits)) || '(no content changes)';
+  } catch (error) {
+    if (!(error instanceof TextEditError)) {
+      throw error;
+    }
+    return `(your edits do not apply: ${error.message})`;
+  }
+}
+
+/**
+ * Build a conflict result with a three-way diff: the version the caller based their
+ * edit on (if we still have it), the current server version, and the proposed update.
+ * Partial edits are applied to the base, since that's the text they were written against.
+ */
+function formatConflict(
+  current: Tiddler,
+  updates: Partial<Tiddler>,
+  edits: TextEditType[] | undefined,
+  expectedRevision: string | number | undefined,
+  expectedModified: string | undefined
+): ToolResult {
+  const base =
+    expectedRevision !== undefined || expectedModified !== undefined
+      ? getTiddlerSnapshot(current.title, {
+          revision: expectedRevision,
+          modified: expectedModified,
+        })
+      : null;
+
+  const lines: string[] = [];
+  lines.push(`## Conflict: "${current.title}" changed since you read it`);
+  lines.push('');
+
+  if (base) {
+    lines.push('### Their changes (your base → current)');
+    lines.push(generateTiddlerDiff(base, current) || '(no content changes)');
+    lines.push('');
+    lines.push('### Your changes (your base → proposed)');
+    lines.push(proposedDiff(base, updates, edits));
+  } else {
+    lines.push('The version you based your edit on is no longer available.');
+    lines.push('');
+    lines.push('### Current → proposed');
+    lines.push(proposedDiff(current, updates, edits));
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            error: `Conflict: tiddler "${current.title}" was modified since the expected revision`,
+            expectedRevision,
+            expectedModified,
+            currentRevision: current.revision,
+            currentModified: current.modified,
+            currentModifier: current.modifier,
+            suggestion:
+              'Review the changes below, merge them into your update, and retry with expectedRevision set to currentRevision',
+          },
+          null,
+          2
+        ),
+      },
+      { type: 'text', text: lines.join('\n') },
+    ],
+    isError: true,
+  };
+}
+
 /**
  * Handle update_tiddler tool requests.
- * Gets the current tiddler, applies updates, generates a diff, and saves.
+ * Gets the current tiddler, applies updates, and shows the diff for approval before saving.
  */
-export async function handleUpdateTiddler(args: unknown): Promise<ToolResult> {
+export async function handleUpdateTiddler(
+  args: unknown,
+  deps: ToolDependencies,
+  approval: ApprovalContext = NO_ELICITATION
+): Promise<ToolResult> {
   const input = UpdateTiddlerInput.parse(args);
 
   // Get current tiddler
@@ -92,19 +226,83 @@ export async function handleUpdateTiddler(args: unknown): Promise<ToolResult> {
   }
 
   // Build updated tiddler - include all custom fields from input
-  const { title: _title, text, tags, type, ...customFields } = input;
+  const { confirmationToken, ...proposedArgs } = input;
+  const {
+    title: _title,
+    text,
+    edits,
+    tags,
+    type,
+    expectedRevision,
+    expectedModified,
+    ...customFields
+  } = proposedArgs;
   const updates: Partial<Tiddler> = { ...customFields };
   if (text !== undefined) updates.text = text;
   if (tags !== undefined) updates.tags = tags;
   if (type !== undefined) updates.type = type;
 
-  const updated = updateTiddlerObject(current, updates, getAuthUser());
+  // Refuse to overwrite changes made after the revision the caller read, before trying
+  // edits that were written against that revision
+  if (!matchesExpectation(current, expectedRevision, expectedModified)) {
+    return formatConflict(current, updates, edits, expectedRevision, expectedModified);
+  }
+
+  let updated: Tiddler;
+  try {
+    updated = applyUpdates(current, updates, edits);
+  } catch (error) {
+    if (!(error instanceof TextEditError)) {
+      throw error;
+    }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            { error: error.message, ...error.details, revision: current.revision },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
 
   // Generate diff
   const diff = generateTiddlerDiff(current, updated);
 
-  // Apply the change
-  await putTiddler(updated);
+  // Get approval before writing (token binds to these arguments and the current revision)
+  const outcome = await requestApproval(approval, {
+    tool: 'update_tiddler',
+    summary: `Update "${input.title}"`,
+    preview: diff || '(no changes)',
+    subject: { args: proposedArgs, modified: current.modified, revision: current.revision },
+    confirmationToken,
+  });
+  if (!outcome.approved) {
+    return outcome.result;
+  }
+
+  // Apply the change, guarded by the revision we just read
+  const ifMatch = getTiddlerEtag(current) ?? undefined;
+  try {
+    await putTiddler(updated, { ifMatch });
+  } catch (error) {
+    if (!(error instanceof TiddlerConflictError)) {
+      throw error;
+    }
+    const latest = await getTiddler(input.title);
+    if (!latest) {
+      throw error;
+    }
+    return formatConflict(latest, updates, edits, current.revision, current.modified);
+  }
+
+  // Make the new content searchable soon instead of at the next sync, without delaying the reply
+  deps.syncWorker?.refreshInBackground([updated]);
+  deps.tagCache.invalidate();
 
   return {
     content: [
@@ -0,0 +1,108 @@
+// ABOUTME: Authentication strategies for the connection to a TiddlyWiki server
+// ABOUTME: Turns credentials into request headers and TLS settings into a client for mTLS
+
+import { Agent, type Dispatcher } from 'undici';
+
+export type WikiAuthMode = 'header' | 'basic' | 'bearer' | 'headers' | 'mtls';
+
+export const WIKI_AUTH_MODES: readonly WikiAuthMode[] = [
+  'header',
+  'basic',
+  'bearer',
+  'headers',
+  'mtls',
+];
+
+/**
+ * How requests to a wiki prove who is making them
+ */
+export type WikiAuth =
+  // One header set by an authenticating proxy in front of the wiki (e.g. X-Oidc-Username)
+  | { mode: 'header'; header: string; value: string }
+  // HTTP basic auth, as TiddlyWiki's server checks with credentials=
+  | { mode: 'basic'; username: string; password: string }
+  | { mode: 'bearer'; token: string }
+  // Any fixed set of headers, such as an API key for a reverse proxy
+  | { mode: 'headers'; headers: Record<string, string> }
+  // The client certificate (see WikiTlsSettings) is the only credential
+  | { mode: 'mtls' };
+
+/**
+ * PEM-encoded TLS material for HTTPS connections to a wiki
+ */
+export interface WikiTlsSettings {
+  // Certificate authorities trusted for the server's certificate, instead of the system ones
+  ca?: string;
+  // Client certificate and key presented to the server
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+}
+
+/**
+ * Headers that authenticate a request
+ */
+export function authHeaders(auth: WikiAuth): Record<string, string> {
+  switch (auth.mode) {
+    case 'header':
+      return { [auth.header]: auth.value };
+    case 'basic':
+      return {
+        Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`,
+      };
+    case 'bearer':
+      return { Authorization: `Bearer ${auth.token}` };
+    case 'headers':
+      return { ...auth.headers };
+    case 'mtls':
+      return {};
+  }
+}
+
+/**
+ * A description of the authentication for logs, without any secret
+ */
+export function describeAuth(auth: WikiAuth, tls?: WikiTlsSettings): string {
+  let description: string;
+  switch (auth.mode) {
+    case 'header':
+      description = `header ${auth.header}`;
+      break;
+    case 'basic':
+      description = `basic as ${auth.username}`;
+      break;
+    case 'bearer':
+      description = 'bearer token';
+      break;
+    case 'headers':
+      description = `headers ${Object.keys(auth.headers).join(', ')}`;
+      break;
+    case 'mtls':
+      description = 'client certificate';
+      break;
+  }
+
+  const extras = [
+    ...(tls?.cert && auth.mode !== 'mtls' ? ['client certificate'] : []),
+    ...(tls?.ca ? ['custom CA'] : []),
+  ];
+  return extras.length > 0 ? `${description} + ${extras.join(' + ')}` : description;
+}
+
+/**
+ * An HTTP client presenting the client certificate and trusting the given CA, or undefined
+ * when the default client will do
+ */
+export function createTlsDispatcher(tls?: WikiTlsSettings): Dispatcher | undefined {
+  if (!tls?.ca && !tls?.cert) {
+    return undefined;
+  }
+  return new Agent({
+    connect: {
+      ca: tls.ca,
+      cert: tls.cert,
+      key: tls.key,
+      passphrase: tls.passphrase,
+    },
+  });
+}
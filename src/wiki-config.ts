@@ -0,0 +1,250 @@
+// ABOUTME: Reads which wikis the server talks to from environment variables
+// ABOUTME: One wiki from TIDDLYWIKI_URL, or several named in WIKIS with per-wiki variables
+
+import { readFileSync } from 'node:fs';
+import { DEFAULT_WIKI_NAME } from './tiddlywiki-http.js';
+import { WIKI_AUTH_MODES, type WikiAuth, type WikiTlsSettings } from './wiki-auth.js';
+
+const DEFAULT_AUTH_HEADER = 'X-Oidc-Username';
+const DEFAULT_AUTH_USER = 'mcp-user';
+
+// Wiki names are used in tool arguments and environment variable names
+const WIKI_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+export interface WikiSettings {
+  name: string;
+  tiddlywikiUrl: string;
+  // Username recorded as creator/modifier of tiddlers written through MCP
+  authUser: string;
+  auth: WikiAuth;
+  tls?: WikiTlsSettings;
+  embeddingsDbPath: string;
+  recipe?: string;
+  bag?: string;
+  bulkText: boolean;
+}
+
+export interface WikiConfiguration {
+  // Default wiki first
+  wikis: WikiSettings[];
+  defaultWiki: string;
+}
+
+/**
+ * Suffix of a wiki's own environment variables, e.g. "team-notes" → "TEAM_NOTES"
+ * for TIDDLYWIKI_URL_TEAM_NOTES.
+ */
+export function wikiEnvSuffix(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+/**
+ * The first of a wiki's own NAME_<SUFFIX> and the shared NAME that is set
+ */
+function setting(env: NodeJS.ProcessEnv, name: string, suffix?: string): string | undefined {
+  return (suffix ? env[`${name}_${suffix}`] : undefined) || env[name] || undefined;
+}
+
+/**
+ * A secret given as NAME, or read from the file named by NAME_FILE (surrounding whitespace
+ * trimmed). A wiki's own NAME_<SUFFIX> or NAME_FILE_<SUFFIX> takes precedence over both.
+ */
+function readSecret(env: NodeJS.ProcessEnv, name: string, suffix?: string): string | undefined {
+  for (const level of suffix ? [`_${suffix}`, ''] : ['']) {
+    const value = env[`${name}${level}`];
+    if (value) {
+      return value;
+    }
+    const fileVariable = `${name}_FILE${level}`;
+    const path = env[fileVariable];
+    if (path) {
+      try {
+        return readFileSync(path, 'utf8').trim();
+      } catch (error) {
+        throw new Error(`Cannot read ${fileVariable} (${path}): ${(error as Error).message}`);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read how a wiki authenticates. AUTH_MODE picks the strategy:
+ * - header (default): AUTH_HEADER set to AUTH_HEADER_VALUE (default: AUTH_USER), for a proxy
+ * - basic: AUTH_USERNAME and AUTH_PASSWORD, e.g. for TiddlyWiki's credentials= option
+ * - bearer: AUTH_TOKEN
+ * - headers: AUTH_HEADERS, a JSON object of header names and values
+ * - mtls: no header; the client certificate in TLS_CERT/TLS_KEY authenticates
+ * TLS_CA, TLS_CERT, TLS_KEY and TLS_KEY_PASSPHRASE apply in any mode. Secrets and PEM
+ * files can also be given as a path in the variable's _FILE form (e.g. AUTH_TOKEN_FILE).
+ * AUTH_USER is only the creator/modifier name, except as the default header value.
+ */
+function readAuth(
+  env: NodeJS.ProcessEnv,
+  suffix?: string
+): Pick<WikiSettings, 'authUser' | 'auth' | 'tls'> {
+  // How an error message names a variable, e.g. "AUTH_TOKEN_TEAM (or AUTH_TOKEN)"
+  const variable = (name: string) => (suffix ? `${name}_${suffix} (or ${name})` : name);
+  const authUser = setting(env, 'AUTH_USER', suffix) || DEFAULT_AUTH_USER;
+  const mode = setting(env, 'AUTH_MODE', suffix) || 'header';
+  const required = (name: string) => {
+    const value = readSecret(env, name, suffix);
+    if (!value) {
+      throw new Error(`${variable(name)} is required for AUTH_MODE=${mode}`);
+    }
+    return value;
+  };
+
+  let auth: WikiAuth;
+  switch (mode) {
+    case 'header':
+      auth = {
+        mode,
+        header: setting(env, 'AUTH_HEADER', suffix) || DEFAULT_AUTH_HEADER,
+        value: readSecret(env, 'AUTH_HEADER_VALUE', suffix) || authUser,
+      };
+      break;
+    case 'basic':
+      auth = { mode, username: required('AUTH_USERNAME'), password: required('AUTH_PASSWORD') };
+      break;
+    case 'bearer':
+      auth = { mode, token: required('AUTH_TOKEN') };
+      break;
+    case 'headers':
+      auth = { mode, headers: parseHeaders(required('AUTH_HEADERS'), variable('AUTH_HEADERS')) };
+      break;
+    case 'mtls':
+      auth = { mode };
+      break;
+    default:
+      throw new Error(
+        `Invalid ${variable('AUTH_MODE')}: "${mode}". Use one of: ${WIKI_AUTH_MODES.join(', ')}`
+      );
+  }
+
+  const tls: WikiTlsSettings = {
+    ca: readSecret(env, 'TLS_CA', suffix),
+    cert: readSecret(env, 'TLS_CERT', suffix),
+    key: readSecret(env, 'TLS_KEY', suffix),
+    passphrase: readSecret(env, 'TLS_KEY_PASSPHRASE', suffix),
+  };
+  if (!tls.cert !== !tls.key) {
+    throw new Error(`${variable('TLS_CERT')} and ${variable('TLS_KEY')} must be set together`);
+  }
+  if (mode === 'mtls' && !tls.cert) {
+    throw new Error(
+      `${variable('TLS_CERT')} and ${variable('TLS_KEY')} are required for AUTH_MODE=mtls`
+    );
+  }
+
+  return { authUser, auth, ...(tls.ca || tls.cert ? { tls } : {}) };
+}
+
+/**
+ * Parse AUTH_HEADERS: a JSON object whose values are all strings
+ */
+function parseHeaders(json: string, variable: string): Record<string, string> {
+  let headers: unknown;
+  try {
+    headers = JSON.parse(json);
+  } catch {
+    headers = null;
+  }
+  if (
+    !headers ||
+    typeof headers !== 'object' ||
+    Array.isArray(headers) ||
+    Object.values(headers).some((value) => typeof value !== 'string')
+  ) {
+    throw new Error(`${variable} must be a JSON object of header names and string values`);
+  }
+  return headers as Record<string, string>;
+}
+
+/**
+ * Read the wiki configuration.
+ *
+ * Without WIKIS there is a single wiki named "default", configured by TIDDLYWIKI_URL,
+ * the authentication variables (see readAuth), TIDDLYWIKI_RECIPE, TIDDLYWIKI_BAG,
+ * TIDDLYWIKI_BULK_TEXT and EMBEDDINGS_DB_PATH. With WIKIS=journal,team each wiki needs
+ * TIDDLYWIKI_URL_<NAME> and may set any of the others suffixed with _<NAME> (falling back to
+ * the shared variables), except EMBEDDINGS_DB_PATH_<NAME> (default ./embeddings-<name>.db).
+ * DEFAULT_WIKI picks the wiki used when a call names none; otherwise it's the first listed.
+ */
+export function loadWikiConfiguration(env: NodeJS.ProcessEnv = process.env): WikiConfiguration {
+  // Left unset, the client uses TiddlyWiki's "default" recipe and bag
+  const recipe = env.TIDDLYWIKI_RECIPE || undefined;
+  const bag = env.TIDDLYWIKI_BAG || undefined;
+  const bulkText = env.TIDDLYWIKI_BULK_TEXT || 'false';
+
+  if (!env.WIKIS) {
+    if (!env.TIDDLYWIKI_URL) {
+      throw new Error('TIDDLYWIKI_URL environment variable is required');
+    }
+    return {
+      wikis: [
+        {
+          name: DEFAULT_WIKI_NAME,
+          tiddlywikiUrl: env.TIDDLYWIKI_URL,
+          ...readAuth(env),
+          embeddingsDbPath: env.EMBEDDINGS_DB_PATH || './embeddings.db',
+          recipe,
+          bag,
+          bulkText: bulkText === 'true',
+        },
+      ],
+      defaultWiki: DEFAULT_WIKI_NAME,
+    };
+  }
+
+  const names = env.WIKIS.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) {
+    throw new Error('WIKIS must list at least one wiki name');
+  }
+
+  const suffixes = new Map<string, string>();
+  const wikis = names.map((name): WikiSettings => {
+    if (!WIKI_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid wiki name in WIKIS: "${name}". Use letters, digits, "-" and "_", starting with a letter or digit`
+      );
+    }
+    const suffix = wikiEnvSuffix(name);
+    const clash = suffixes.get(suffix);
+    if (clash !== undefined) {
+      throw new Error(
+        clash === name
+          ? `Wiki "${name}" is listed twice in WIKIS`
+          : `Wikis "${clash}" and "${name}" would share the environment variable suffix _${suffix}`
+      );
+    }
+    suffixes.set(suffix, name);
+
+    const tiddlywikiUrl = env[`TIDDLYWIKI_URL_${suffix}`];
+    if (!tiddlywikiUrl) {
+      throw new Error(`TIDDLYWIKI_URL_${suffix} is required for wiki "${name}"`);
+    }
+    return {
+      name,
+      tiddlywikiUrl,
+      ...readAuth(env, suffix),
+      embeddingsDbPath: env[`EMBEDDINGS_DB_PATH_${suffix}`] || `./embeddings-${name}.db`,
+      recipe: env[`TIDDLYWIKI_RECIPE_${suffix}`] || recipe,
+      bag: env[`TIDDLYWIKI_BAG_${suffix}`] || bag,
+      bulkText: (env[`TIDDLYWIKI_BULK_TEXT_${suffix}`] || bulkText) === 'true',
+    };
+  });
+
+  const defaultWiki = env.DEFAULT_WIKI || names[0];
+  const defaultSettings = wikis.find((wiki) => wiki.name === defaultWiki);
+  if (!defaultSettings) {
+    throw new Error(`DEFAULT_WIKI "${defaultWiki}" is not listed in WIKIS (${names.join(', ')})`);
+  }
+
+  return {
+    wikis: [defaultSettings, ...wikis.filter((wiki) => wiki !== defaultSettings)],
+    defaultWiki,
+  };
+}
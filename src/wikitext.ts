@@ -0,0 +1,290 @@
+// ABOUTME: Helpers for TiddlyWiki title lists and references inside tiddler text
+// ABOUTME: Parses/stringifies title lists like TiddlyWiki, finds headings, and rewrites links on rename
+
+/**
+ * Parse a TiddlyWiki title list (e.g. the tags or list field): space-separated titles,
+ * with titles containing spaces wrapped in [[double brackets]]. Duplicates are dropped.
+ * Mirrors $tw.utils.parseStringArray.
+ */
+export function parseStringArray(value: string | string[] | undefined | null): string[] {
+  if (Array.isArray(value)) {
+    return [...new Set(value)];
+  }
+  if (!value) {
+    return [];
+  }
+
+  const memberRegExp = /(?:^|[^\S\xA0])(?:\[\[(.*?)\]\])(?=[^\S\xA0]|$)|([\S\xA0]+)/gm;
+  const results: string[] = [];
+  const seen = new Set<string>();
+  let match: RegExpExecArray | null;
+
+  while ((match = memberRegExp.exec(value)) !== null) {
+    const item = match[1] ?? match[2];
+    if (item !== undefined && !seen.has(item)) {
+      results.push(item);
+      seen.add(item);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Stringify a title list, bracketing titles that contain whitespace.
+ * Mirrors $tw.utils.stringifyList.
+ */
+export function stringifyList(titles: string[]): string {
+  return titles
+    .map((title) => (/[\s\xA0]/.test(title) || title === '' ? `[[${title}]]` : title))
+    .join(' ');
+}
+
+/**
+ * Replace one title in a title list. Returns the list unchanged if the title isn't in it.
+ * If the new title is already present, the old one is simply removed.
+ */
+export function replaceInList(value: string | undefined, oldTitle: string, newTitle: string) {
+  const titles = parseStringArray(value);
+  if (!titles.includes(oldTitle)) {
+    return value;
+  }
+  const replaced = titles.map((title) => (title === oldTitle ? newTitle : title));
+  return stringifyList([...new Set(replaced)]);
+}
+
+/**
+ * Add titles to a title list, keeping existing order. Returns the list unchanged if
+ * every title is already present.
+ */
+export function addToList(value: string | undefined, titles: string[]) {
+  const existing = parseStringArray(value);
+  const missing = titles.filter((title) => !existing.includes(title));
+  if (missing.length === 0) {
+    return value;
+  }
+  return stringifyList([...existing, ...new Set(missing)]);
+}
+
+/**
+ * Remove titles from a title list. Returns the list unchanged if none are present.
+ */
+export function removeFromList(value: string | undefined, titles: string[]) {
+  const existing = parseStringArray(value);
+  const kept = existing.filter((title) => !titles.includes(title));
+  if (kept.length === existing.length) {
+    return value;
+  }
+  return stringifyList(kept);
+}
+
+export interface Heading {
+  line: number; // 1-based line number
+  level: number;
+  text: string;
+}
+
+export function isMarkdownType(type: string | undefined): boolean {
+  return type === 'text/markdown' || type === 'text/x-markdown';
+}
+
+/**
+ * Find headings: "#" lines in Markdown, "!" lines in wikitext. Code fences are skipped.
+ */
+export function findHeadings(lines: string[], markdown: boolean): Heading[] {
+  const pattern = markdown ? /^(#{1,6})\s+(.*?)\s*#*\s*$/ : /^(!{1,6})\s*(.*?)\s*$/;
+  const headings: Heading[] = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      return;
+    }
+    const match = line.match(pattern);
+    if (match && match[2]) {
+      headings.push({ line: index + 1, level: match[1].length, text: match[2] });
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * Merge texts section by section: each text's lead-in comes first, then every heading in
+ * order of first appearance with the bodies from all texts under it. Sections match by
+ * heading level and text (case-insensitive); identical bodies and lead-ins appear once.
+ */
+export function interleaveSections(texts: string[], markdown: boolean): string {
+  const preambles: string[] = [];
+  const sections = new Map<string, { heading: string; bodies: string[] }>();
+
+  for (const text of texts) {
+    const lines = text.split('\n');
+    const headings = findHeadings(lines, markdown);
+    const preamble = lines
+      .slice(0, headings.length > 0 ? headings[0].line - 1 : lines.length)
+      .join('\n')
+      .trim();
+    if (preamble && !preambles.includes(preamble)) {
+      preambles.push(preamble);
+    }
+
+    headings.forEach((heading, i) => {
+      const end = i + 1 < headings.length ? headings[i + 1].line - 1 : lines.length;
+      const body = lines.slice(heading.line, end).join('\n').trim();
+      const key = `${heading.level}:${heading.text.toLowerCase()}`;
+      let section = sections.get(key);
+      if (!section) {
+        section = { heading: lines[heading.line - 1], bodies: [] };
+        sections.set(key, section);
+      }
+      if (body && !section.bodies.includes(body)) {
+        section.bodies.push(body);
+      }
+    });
+  }
+
+  return [
+    ...preambles,
+    ...[...sections.values()].map(({ heading, bodies }) => [heading, ...bodies].join('\n\n')),
+  ].join('\n\n');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rewrite references to a tiddler title inside wikitext or Markdown:
+ *
+ * - links: [[Old]], [[caption|Old]], Markdown [caption](#Old)
+ * - transclusions: {{Old}}, {{Old!!field}}, {{Old##index}}, {{Old||Template}}, {{X||Old}}
+ * - macro parameters and widget attributes equal to the title: <<m "Old">>, <$link to="Old"/>
+ * - filter operands: [tag[Old]], [field:list[Old]]
+ *
+ * Anything else (plain text mentions, CamelCase links) is left alone.
+ */
+export function rewriteReferences(text: string, oldTitle: string, newTitle: string): string {
+  if (!text || (!text.includes(oldTitle) && !text.includes(encodeURIComponent(oldTitle)))) {
+    return text;
+  }
+
+  const old = escapeRegExp(oldTitle);
+  let result = text;
+
+  // [[Old]] and [[caption|Old]]
+  result = result.replace(new RegExp(`\\[\\[${old}\\]\\]`, 'g'), () => `[[${newTitle}]]`);
+  result = result.replace(
+    new RegExp(`\\[\\[([^\\]|]*)\\|${old}\\]\\]`, 'g'),
+    (_m, caption: string) => `[[${caption}|${newTitle}]]`
+  );
+
+  // {{Old}}, {{Old!!field}}, {{Old##index}}, {{Old||Template}}
+  result = result.replace(
+    new RegExp(`\\{\\{${old}(?=\\}\\}|!!|##|\\|\\|)`, 'g'),
+    () => `{{${newTitle}`
+  );
+  // {{X||Old}} (Old used as template)
+  result = result.replace(
+    new RegExp(`\\{\\{([^{}|]*)\\|\\|${old}(?=\\}\\})`, 'g'),
+    (_m, target: string) => `{{${target}||${newTitle}`
+  );
+
+  // Quoted values inside macro calls and widgets; bare words inside macro calls
+  result = result.replace(/<<[^>]*>>|<\$[^>]*>/g, (segment) => {
+    let rewritten = segment.replace(
+      new RegExp(`("""|"|')${old}\\1`, 'g'),
+      (_m, quote: string) => `${quote}${newTitle}${quote}`
+    );
+    if (segment.startsWith('<<') && !/\s/.test(oldTitle) && !/\s/.test(newTitle)) {
+      rewritten = rewritten.replace(
+        new RegExp(`([\\s:])${old}(?=\\s|>>)`, 'g'),
+        (_m, lead: string) => `${lead}${newTitle}`
+      );
+    }
+    return rewritten;
+  });
+
+  // Filter operands: tag[Old], field:list[Old], title[Old]
+  result = result.replace(
+    new RegExp(`([\\w$-]+(?::[\\w$-]*)*)\\[${old}\\]`, 'g'),
+    (_m, operator: string) => `${operator}[${newTitle}]`
+  );
+
+  // Markdown links to tiddlers: [caption](#Old) or [caption](#Old%20Title)
+  const encodedOld = escapeRegExp(encodeURIComponent(oldTitle));
+  result = result.replace(
+    new RegExp(`\\]\\(#(?:${old}|${encodedOld})\\)`, 'g'),
+    () => `](#${encodeURIComponent(newTitle)})`
+  );
+
+  return result;
+}
+
+// Mirrors $tw.utils.isLinkExternal
+const EXTERNAL_LINK =
+  /^(?:file|http|https|mailto|ftp|irc|news|obsidian|data|skype):[^\s]+(?:\/|\b)/i;
+
+/**
+ * Titles that text links to or transcludes, found without TiddlyWiki's parser:
+ *
+ * - links: [[Title]], [[caption|Title]], Markdown [caption](#Title)
+ * - transclusions and templates: {{Title}}, {{Title!!field}}, {{Title||Template}}
+ * - widgets: <$link to="Title">, <$transclude tiddler="Title">
+ * - CamelCase words in wikitext (not preceded by ~)
+ *
+ * Code, filtered transclusions and external URLs are skipped. This is an approximation, used where the
+ * HTTP API can't return titles itself (it only returns tiddlers that exist).
+ */
+export function extractLinks(text: string, markdown: boolean): string[] {
+  const found = new Set<string>();
+  const add = (title: string | undefined) => {
+    const trimmed = title?.trim();
+    if (trimmed && !EXTERNAL_LINK.test(trimmed)) {
+      found.add(trimmed);
+    }
+  };
+
+  const body = text
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/`[^`\n]*`/g, '')
+    .replace(/\{\{\{[\s\S]*?\}\}\}/g, '');
+
+  for (const [, inner] of body.matchAll(/\[\[(.+?)\]\]/g)) {
+    const bar = inner.indexOf('|');
+    add(bar === -1 ? inner : inner.slice(bar + 1));
+  }
+
+  for (const [, target, template] of body.matchAll(
+    /\{\{([^{}|]*?)(?:(?:!!|##)[^{}|]*)?(?:\|\|([^{}|]*))?\}\}/g
+  )) {
+    add(target);
+    add(template);
+  }
+
+  for (const [, , title] of body.matchAll(
+    /<\$(?:link\s[^>]*?\bto|transclude\s[^>]*?\b\$?tiddler)=("""|"|')(.*?)\1/g
+  )) {
+    add(title);
+  }
+
+  for (const [, encoded] of body.matchAll(/\]\(#([^)\s]+)\)/g)) {
+    try {
+      add(decodeURIComponent(encoded));
+    } catch {
+      add(encoded);
+    }
+  }
+
+  if (!markdown) {
+    for (const [word] of body.matchAll(/(?<![A-Za-z0-9_~])[A-Z]+[a-z]+[A-Z][A-Za-z0-9]*/g)) {
+      add(word);
+    }
+  }
+
+  return [...found];
+}
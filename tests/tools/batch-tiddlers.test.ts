@@ -0,0 +1,228 @@
+// ABOUTME: Tests for the batch_tiddlers MCP tool handler
+// ABOUTME: Covers up-front validation, combined preview, per-item results and rollback
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleBatchTiddlers } from '../../src/tools/batch-tiddlers.js';
+import {
+  createMockTiddler,
+  createApprovingContext,
+  createMockDepsWithoutEmbeddings,
+  createMockDepsWithEmbeddings,
+  parseToolResultJson,
+} from './test-utils.js';
+
+const approve = createApprovingContext();
+const noDeps = createMockDepsWithoutEmbeddings();
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  getTiddler: vi.fn(),
+  putTiddler: vi.fn(),
+  deleteTiddler: vi.fn(),
+  createTiddlerObject: vi.fn().mockImplementation(
+    (title: string, text: string, tags: string, type: string, creator: string) => ({
+      title,
+      text,
+      tags,
+      type,
+      creator,
+      modifier: creator,
+      created: '20250101120000000',
+      modified: '20250101120000000',
+    })
+  ),
+  updateTiddlerObject: vi.fn().mockImplementation(
+    (current: Record<string, unknown>, updates: Record<string, unknown>, modifier: string) => ({
+      ...current,
+      ...updates,
+      modifier,
+      modified: '20250101130000000',
+      revision: undefined,
+    })
+  ),
+  getAuthUser: vi.fn().mockReturnValue('test-user'),
+  getWikiName: vi.fn().mockReturnValue('default'),
+  getTiddlerEtag: vi.fn().mockImplementation((t: { revision?: number }) =>
+    t.revision !== undefined ? `"default/etag/${t.revision}:"` : null
+  ),
+  getTiddlerSnapshot: vi.fn().mockReturnValue(null),
+  TiddlerConflictError: class TiddlerConflictError extends Error {},
+}));
+
+import { getTiddler, putTiddler, deleteTiddler } from '../../src/tiddlywiki-http.js';
+
+interface BatchResult {
+  error?: string;
+  summary: Record<string, number>;
+  results: Array<{ index: number; op: string; title: string; status: string; error?: string }>;
+}
+
+const existing = createMockTiddler({ title: 'Existing', text: 'Old text', revision: 3 });
+const doomed = createMockTiddler({ title: 'Doomed', text: 'Bye', revision: 7 });
+
+const operations = [
+  { op: 'create', title: 'Fresh', text: 'Hello', tags: 'new', caption: 'Fresh one' },
+  { op: 'update', title: 'Existing', text: 'New text' },
+  { op: 'delete', title: 'Doomed' },
+];
+
+function mockWiki() {
+  vi.mocked(getTiddler).mockImplementation(async (title: string) =>
+    title === 'Existing' ? existing : title === 'Doomed' ? doomed : null
+  );
+}
+
+describe('handleBatchTiddlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(putTiddler).mockResolvedValue(undefined);
+    vi.mocked(deleteTiddler).mockResolvedValue(undefined);
+  });
+
+  it('should apply every operation and report per-item results', async () => {
+    mockWiki();
+
+    const result = await handleBatchTiddlers({ operations }, noDeps, approve);
+    const parsed = parseToolResultJson<BatchResult>(result);
+
+    expect(result.isError).toBeUndefined();
+    expect(parsed.summary).toMatchObject({ applied: 3, failed: 0 });
+    expect(parsed.results.map((r) => r.status)).toEqual(['applied', 'applied', 'applied']);
+    expect(putTiddler).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Fresh', text: 'Hello', caption: 'Fresh one' })
+    );
+    expect(putTiddler).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Existing', text: 'New text' }),
+      { ifMatch: '"default/etag/3:"' }
+    );
+    expect(deleteTiddler).toHaveBeenCalledWith('Doomed', undefined);
+  });
+
+  it('should show one combined preview without writing when approval is pending', async () => {
+    mockWiki();
+
+    const result = await handleBatchTiddlers({ operations }, noDeps);
+    const text = result.content[0].text;
+
+    expect(text).toContain('## Proposed: Apply 3 changes (1 create, 1 update, 1 delete)');
+    expect(text).toContain('### 1. Create "Fresh"');
+    expect(text).toContain('### 2. Update "Existing"');
+    expect(text).toContain('### 3. Delete "Doomed"');
+    expect(putTiddler).not.toHaveBeenCalled();
+    expect(deleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should report every invalid operation and write nothing', async () => {
+    mockWiki();
+
+    const result = await handleBatchTiddlers(
+      {
+        operations: [
+          { op: 'create', title: 'Existing', text: 'x' },
+          { op: 'update', title: 'Missing', text: 'x' },
+          { op: 'delete', title: 'Doomed' },
+        ],
+      },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ error: string; problems: Array<{ index: number; error: string }> }>(
+      result
+    );
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toContain('nothing was written');
+    expect(parsed.problems).toEqual([
+      expect.objectContaining({ index: 0, error: 'Tiddler already exists' }),
+      expect.objectContaining({ index: 1, error: 'Tiddler not found' }),
+    ]);
+    expect(putTiddler).not.toHaveBeenCalled();
+    expect(deleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should reject an update whose expected revision is stale', async () => {
+    mockWiki();
+
+    const result = await handleBatchTiddlers(
+      { operations: [{ op: 'update', title: 'Existing', text: 'x', expectedRevision: 2 }] },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Conflict');
+    expect(putTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should update a custom field nested under fields, as getTiddler returns it', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(
+      createMockTiddler({
+        title: 'Existing',
+        revision: 3,
+        fields: { status: 'draft', owner: 'ann' },
+      })
+    );
+
+    await handleBatchTiddlers(
+      { operations: [{ op: 'update', title: 'Existing', status: 'final' }] },
+      noDeps,
+      approve
+    );
+
+    const [written] = vi.mocked(putTiddler).mock.calls[0];
+    expect(written).toMatchObject({ title: 'Existing', status: 'final', owner: 'ann' });
+    expect(written.fields).toBeUndefined();
+  });
+
+  it('should reject duplicate titles', async () => {
+    const result = await handleBatchTiddlers(
+      {
+        operations: [
+          { op: 'update', title: 'Existing', text: 'a' },
+          { op: 'delete', title: 'Existing' },
+        ],
+      },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ duplicates: string[] }>(result).duplicates).toEqual(['Existing']);
+    expect(getTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should keep going and report failures when rollback is not requested', async () => {
+    mockWiki();
+    vi.mocked(deleteTiddler).mockRejectedValueOnce(new Error('Server error'));
+
+    const result = await handleBatchTiddlers({ operations }, noDeps, approve);
+    const parsed = parseToolResultJson<BatchResult>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.summary).toMatchObject({ applied: 2, failed: 1 });
+    expect(parsed.results[2]).toMatchObject({ status: 'failed', error: 'Server error' });
+  });
+
+  it('should undo applied operations when rollbackOnFailure is set', async () => {
+    mockWiki();
+    vi.mocked(deleteTiddler).mockRejectedValueOnce(new Error('Server error'));
+
+    const result = await handleBatchTiddlers({ operations, rollbackOnFailure: true }, noDeps, approve);
+    const parsed = parseToolResultJson<BatchResult>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.results.map((r) => r.status)).toEqual(['rolled_back', 'rolled_back', 'failed']);
+    // Created tiddler removed, updated tiddler restored
+    expect(deleteTiddler).toHaveBeenCalledWith('Fresh', undefined);
+    expect(putTiddler).toHaveBeenCalledWith(existing);
+  });
+
+  it('should update embeddings only for operations that stayed applied', async () => {
+    mockWiki();
+    const deps = createMockDepsWithEmbeddings();
+
+    await handleBatchTiddlers({ operations }, deps, approve);
+
+    expect(vi.mocked(deps.syncWorker!.refreshInBackground).mock.calls[0][0]).toHaveLength(2);
+    expect(deps.syncWorker?.removeTiddler).toHaveBeenCalledWith('Doomed');
+  });
+});
@@ -5,7 +5,17 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleCreateTiddler } from '../../src/tools/create-tiddler.js';
 import { handleUpdateTiddler } from '../../src/tools/update-tiddler.js';
 import { handleDeleteTiddler } from '../../src/tools/delete-tiddler.js';
-import { createMockTiddler, parseToolResultJson } from './test-utils.js';
+import {
+  createMockTiddler,
+  createApprovingContext,
+  createDecliningContext,
+  createMockDepsWithoutEmbeddings,
+  createMockDepsWithEmbeddings,
+  parseToolResultJson,
+} from './test-utils.js';
+
+const approve = createApprovingContext();
+const noDeps = createMockDepsWithoutEmbeddings();
 
 // Mock the tiddlywiki-http module
 vi.mock('../../src/tiddlywiki-http.js', () => ({
@@ -33,17 +43,27 @@ vi.mock('../../src/tiddlywiki-http.js', () => ({
     })
   ),
   getAuthUser: vi.fn().mockReturnValue('test-user'),
+  getWikiName: vi.fn().mockReturnValue('default'),
+  getTiddlerEtag: vi.fn().mockImplementation((t: { revision?: number }) =>
+    t.revision !== undefined ? `"default/etag/${t.revision}:"` : null
+  ),
+  getTiddlerSnapshot: vi.fn().mockReturnValue(null),
+  TiddlerConflictError: class TiddlerConflictError extends Error {},
 }));
 
 import {
   getTiddler,
   putTiddler,
   deleteTiddler,
+  getTiddlerSnapshot,
+  getWikiName,
+  TiddlerConflictError,
 } from '../../src/tiddlywiki-http.js';
 
 const mockGetTiddler = vi.mocked(getTiddler);
 const mockPutTiddler = vi.mocked(putTiddler);
 const mockDeleteTiddler = vi.mocked(deleteTiddler);
+const mockGetTiddlerSnapshot = vi.mocked(getTiddlerSnapshot);
 
 describe('handleCreateTiddler', () => {
   beforeEach(() => {
@@ -53,13 +73,13 @@ describe('handleCreateTiddler', () => {
   describe('input validation', () => {
     it('should reject when title is missing', async () => {
       await expect(
-        handleCreateTiddler({ text: 'content' })
+        handleCreateTiddler({ text: 'content' }, noDeps, approve)
       ).rejects.toThrow();
     });
 
     it('should reject when text is missing', async () => {
       await expect(
-        handleCreateTiddler({ title: 'Test' })
+        handleCreateTiddler({ title: 'Test' }, noDeps, approve)
       ).rejects.toThrow();
     });
   });
@@ -72,7 +92,7 @@ describe('handleCreateTiddler', () => {
       const result = await handleCreateTiddler({
         title: 'New Entry',
         text: 'Content here',
-      });
+      }, noDeps, approve);
 
       expect(result.isError).toBeUndefined();
       expect(result.content[0].text).toContain('Created: "New Entry"');
@@ -86,7 +106,7 @@ describe('handleCreateTiddler', () => {
       await handleCreateTiddler({
         title: 'Test',
         text: 'Content',
-      });
+      }, noDeps, approve);
 
       expect(mockPutTiddler).toHaveBeenCalledWith(
         expect.objectContaining({ type: 'text/markdown' })
@@ -101,7 +121,7 @@ describe('handleCreateTiddler', () => {
         title: 'Test',
         text: 'Content',
         tags: 'Journal Important',
-      });
+      }, noDeps, approve);
 
       expect(mockPutTiddler).toHaveBeenCalledWith(
         expect.objectContaining({ tags: 'Journal Important' })
@@ -117,7 +137,7 @@ describe('handleCreateTiddler', () => {
         text: 'Content',
         caption: 'My Caption',
         author: 'Jane Doe',
-      });
+      }, noDeps, approve);
 
       expect(mockPutTiddler).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -135,7 +155,7 @@ describe('handleCreateTiddler', () => {
       const result = await handleCreateTiddler({
         title: 'Existing',
         text: 'New content',
-      });
+      }, noDeps, approve);
       const parsed = parseToolResultJson<{ error: string }>(result);
 
       expect(result.isError).toBe(true);
@@ -153,7 +173,7 @@ describe('handleUpdateTiddler', () => {
   describe('input validation', () => {
     it('should reject when title is missing', async () => {
       await expect(
-        handleUpdateTiddler({ text: 'new content' })
+        handleUpdateTiddler({ text: 'new content' }, noDeps, approve)
       ).rejects.toThrow();
     });
   });
@@ -167,7 +187,7 @@ describe('handleUpdateTiddler', () => {
       const result = await handleUpdateTiddler({
         title: 'Test',
         text: 'New content',
-      });
+      }, noDeps, approve);
 
       expect(result.isError).toBeUndefined();
       expect(result.content[0].text).toContain('Updated: "Test"');
@@ -182,7 +202,7 @@ describe('handleUpdateTiddler', () => {
       const result = await handleUpdateTiddler({
         title: 'Test Tiddler',
         text: 'Line 1\nLine 2\nLine 3',
-      });
+      }, noDeps, approve);
 
       expect(result.content[0].text).toContain('+1 line');
       expect(result.content[0].text).toContain('diff');
@@ -200,14 +220,15 @@ describe('handleUpdateTiddler', () => {
       await handleUpdateTiddler({
         title: 'Test Tiddler',
         text: 'New text only',
-      });
+      }, noDeps, approve);
 
       // Should preserve tags and type since they weren't in the update
       expect(mockPutTiddler).toHaveBeenCalledWith(
         expect.objectContaining({
           tags: 'Original Tag',
           type: 'text/markdown',
-        })
+        }),
+        expect.anything()
       );
     });
 
@@ -219,10 +240,11 @@ describe('handleUpdateTiddler', () => {
       await handleUpdateTiddler({
         title: 'Test Tiddler',
         tags: 'NewTag',
-      });
+      }, noDeps, approve);
 
       expect(mockPutTiddler).toHaveBeenCalledWith(
-        expect.objectContaining({ tags: 'NewTag' })
+        expect.objectContaining({ tags: 'NewTag' }),
+        expect.anything()
       );
     });
 
@@ -234,10 +256,11 @@ describe('handleUpdateTiddler', () => {
       await handleUpdateTiddler({
         title: 'Test Tiddler',
         caption: 'New Caption',
-      });
+      }, noDeps, approve);
 
       expect(mockPutTiddler).toHaveBeenCalledWith(
-        expect.objectContaining({ caption: 'New Caption' })
+        expect.objectContaining({ caption: 'New Caption' }),
+        expect.anything()
       );
     });
   });
@@ -249,7 +272,7 @@ describe('handleUpdateTiddler', () => {
       const result = await handleUpdateTiddler({
         title: 'NonExistent',
         text: 'New content',
-      });
+      }, noDeps, approve);
       const parsed = parseToolResultJson<{ error: string }>(result);
 
       expect(result.isError).toBe(true);
@@ -259,6 +282,215 @@ describe('handleUpdateTiddler', () => {
   });
 });
 
+describe('handleUpdateTiddler optimistic concurrency', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send the current revision as If-Match', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ revision: 7 }));
+    mockPutTiddler.mockResolvedValue(undefined);
+
+    await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, noDeps, approve);
+
+    expect(mockPutTiddler).toHaveBeenCalledWith(expect.anything(), {
+      ifMatch: '"default/etag/7:"',
+    });
+  });
+
+  it('should write when expectedRevision matches', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ revision: 7 }));
+    mockPutTiddler.mockResolvedValue(undefined);
+
+    const result = await handleUpdateTiddler(
+      { title: 'Test Tiddler', text: 'New', expectedRevision: '7' },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(mockPutTiddler).toHaveBeenCalledWith(
+      expect.not.objectContaining({ expectedRevision: expect.anything() }),
+      expect.anything()
+    );
+  });
+
+  it('should return a conflict when expectedRevision is stale', async () => {
+    mockGetTiddler.mockResolvedValue(
+      createMockTiddler({ revision: 9, text: 'Edited in browser', modifier: 'human' })
+    );
+
+    const result = await handleUpdateTiddler(
+      { title: 'Test Tiddler', text: 'Agent edit', expectedRevision: 7 },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ error: string; currentRevision: number }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toContain('Conflict');
+    expect(parsed.currentRevision).toBe(9);
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+    expect(approve.elicit).not.toHaveBeenCalled();
+  });
+
+  it('should return a conflict when expectedModified is stale', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ modified: '20250102000000000' }));
+
+    const result = await handleUpdateTiddler(
+      { title: 'Test Tiddler', text: 'Agent edit', expectedModified: '20250101120000000' },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBe(true);
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should show a three-way diff when the base revision is known', async () => {
+    mockGetTiddler.mockResolvedValue(
+      createMockTiddler({ revision: 9, text: 'Line 1\nHuman line' })
+    );
+    mockGetTiddlerSnapshot.mockReturnValue(createMockTiddler({ revision: 7, text: 'Line 1' }));
+
+    const result = await handleUpdateTiddler(
+      { title: 'Test Tiddler', text: 'Line 1\nAgent line', expectedRevision: 7 },
+      noDeps,
+      approve
+    );
+    const diffText = result.content[1].text;
+
+    expect(mockGetTiddlerSnapshot).toHaveBeenCalledWith('Test Tiddler', {
+      revision: 7,
+      modified: undefined,
+    });
+    expect(diffText).toContain('Their changes');
+    expect(diffText).toContain('+Human line');
+    expect(diffText).toContain('Your changes');
+    expect(diffText).toContain('+Agent line');
+  });
+
+  it('should return a conflict when the server rejects the write', async () => {
+    mockGetTiddler
+      .mockResolvedValueOnce(createMockTiddler({ revision: 7, text: 'Old' }))
+      .mockResolvedValueOnce(createMockTiddler({ revision: 8, text: 'Changed meanwhile' }));
+    mockPutTiddler.mockRejectedValue(new TiddlerConflictError('Test Tiddler', 'changed'));
+
+    const result = await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, noDeps, approve);
+    const parsed = parseToolResultJson<{ currentRevision: number }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.currentRevision).toBe(8);
+  });
+});
+
+describe('handleUpdateTiddler partial edits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPutTiddler.mockResolvedValue(undefined);
+  });
+
+  it('should apply edits to the current text and show the diff', async () => {
+    mockGetTiddler.mockResolvedValue(
+      createMockTiddler({ text: '# Notes\nfirst\n\n# Later\nend', type: 'text/markdown' })
+    );
+
+    const result = await handleUpdateTiddler(
+      {
+        title: 'Test Tiddler',
+        edits: [
+          { mode: 'replace', find: 'first', replace: 'first item' },
+          { mode: 'insert_at_heading', heading: 'notes', text: 'second item' },
+          { mode: 'append', text: 'appendix' },
+        ],
+      },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(mockPutTiddler.mock.calls[0][0].text).toBe(
+      '# Notes\nfirst item\nsecond item\n\n# Later\nend\nappendix'
+    );
+    expect(result.content[0].text).toContain('+second item');
+  });
+
+  it('should refuse an ambiguous replace without writing', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ text: 'todo todo', revision: 3 }));
+
+    const result = await handleUpdateTiddler(
+      { title: 'Test Tiddler', edits: [{ mode: 'replace', find: 'todo', replace: 'done' }] },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ error: string; matches: number; revision: number }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toBe('Edit 0 (replace): Text to replace occurs 2 times');
+    expect(parsed.matches).toBe(2);
+    expect(parsed.revision).toBe(3);
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should report a stale revision before trying edits that no longer match', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ revision: 9, text: 'Status: reviewed' }));
+    mockGetTiddlerSnapshot.mockReturnValueOnce(
+      createMockTiddler({ revision: 7, text: 'Status: todo' })
+    );
+
+    const result = await handleUpdateTiddler(
+      {
+        title: 'Test Tiddler',
+        edits: [{ mode: 'replace', find: 'todo', replace: 'done' }],
+        expectedRevision: 7,
+      },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ error: string; currentRevision: number }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toContain('Conflict');
+    expect(parsed.currentRevision).toBe(9);
+    expect(result.content[1].text).toContain('+Status: done');
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should apply edits to the base revision in the conflict view', async () => {
+    mockGetTiddler.mockResolvedValue(
+      createMockTiddler({ revision: 9, text: 'Status: todo\nHuman line' })
+    );
+    mockGetTiddlerSnapshot.mockReturnValueOnce(
+      createMockTiddler({ revision: 7, text: 'Status: todo' })
+    );
+
+    const result = await handleUpdateTiddler(
+      {
+        title: 'Test Tiddler',
+        edits: [{ mode: 'replace', find: 'todo', replace: 'done' }],
+        expectedRevision: 7,
+      },
+      noDeps,
+      approve
+    );
+    const yourChanges = result.content[1].text.split('### Your changes')[1];
+
+    expect(yourChanges).toContain('-Status: todo');
+    expect(yourChanges).toContain('+Status: done');
+    expect(yourChanges).not.toContain('Human line');
+  });
+
+  it('should reject text and edits together', async () => {
+    await expect(
+      handleUpdateTiddler(
+        { title: 'Test Tiddler', text: 'x', edits: [{ mode: 'append', text: 'y' }] },
+        noDeps,
+        approve
+      )
+    ).rejects.toThrow();
+  });
+});
+
 describe('handleDeleteTiddler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -266,20 +498,20 @@ describe('handleDeleteTiddler', () => {
 
   describe('input validation', () => {
     it('should reject when title is missing', async () => {
-      await expect(handleDeleteTiddler({})).rejects.toThrow();
+      await expect(handleDeleteTiddler({}, noDeps, approve)).rejects.toThrow();
     });
   });
 
   describe('deletion', () => {
-    it('should delete existing tiddler', async () => {
-      mockGetTiddler.mockResolvedValue(createMockTiddler({ title: 'ToDelete' }));
+    it('should delete existing tiddler from its bag', async () => {
+      mockGetTiddler.mockResolvedValue(createMockTiddler({ title: 'ToDelete', bag: 'notes' }));
       mockDeleteTiddler.mockResolvedValue(undefined);
 
-      const result = await handleDeleteTiddler({ title: 'ToDelete' });
+      const result = await handleDeleteTiddler({ title: 'ToDelete' }, noDeps, approve);
 
       expect(result.isError).toBeUndefined();
       expect(result.content[0].text).toContain('Deleted: "ToDelete"');
-      expect(mockDeleteTiddler).toHaveBeenCalledWith('ToDelete');
+      expect(mockDeleteTiddler).toHaveBeenCalledWith('ToDelete', 'notes');
     });
 
     it('should show preview of deleted content', async () => {
@@ -292,7 +524,7 @@ describe('handleDeleteTiddler', () => {
       );
       mockDeleteTiddler.mockResolvedValue(undefined);
 
-      const result = await handleDeleteTiddler({ title: 'ToDelete' });
+      const result = await handleDeleteTiddler({ title: 'ToDelete' }, noDeps, approve);
 
       expect(result.content[0].text).toContain('Content to be deleted');
       expect(result.content[0].text).toContain('Important');
@@ -303,7 +535,7 @@ describe('handleDeleteTiddler', () => {
     it('should return error when tiddler not found', async () => {
       mockGetTiddler.mockResolvedValue(null);
 
-      const result = await handleDeleteTiddler({ title: 'NonExistent' });
+      const result = await handleDeleteTiddler({ title: 'NonExistent' }, noDeps, approve);
       const parsed = parseToolResultJson<{ error: string }>(result);
 
       expect(result.isError).toBe(true);
@@ -312,3 +544,202 @@ describe('handleDeleteTiddler', () => {
     });
   });
 });
+
+describe('approval flow', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function extractToken(text: string): string {
+    const match = text.match(/"confirmationToken": "([^"]+)"/);
+    expect(match).not.toBeNull();
+    return match![1];
+  }
+
+  it('should ask via elicitation and show the diff before writing', async () => {
+    const ctx = createApprovingContext();
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ text: 'Old' }));
+    mockPutTiddler.mockResolvedValue(undefined);
+
+    await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, noDeps, ctx);
+
+    expect(ctx.elicit).toHaveBeenCalledWith(expect.stringContaining('Update "Test Tiddler"'));
+    expect(ctx.elicit).toHaveBeenCalledWith(expect.stringContaining('```diff'));
+    expect(mockPutTiddler).toHaveBeenCalled();
+  });
+
+  it('should not write when the user declines', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ title: 'ToDelete' }));
+
+    const result = await handleDeleteTiddler({ title: 'ToDelete' }, noDeps, createDecliningContext());
+
+    expect(result.content[0].text).toContain('Declined: Delete "ToDelete"');
+    expect(mockDeleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should propose a change with a token when elicitation is unavailable', async () => {
+    mockGetTiddler.mockResolvedValue(null);
+
+    const result = await handleCreateTiddler({ title: 'New Entry', text: 'Content' }, noDeps);
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('Proposed: Create "New Entry"');
+    expect(result.content[0].text).toContain('Content');
+    expect(extractToken(result.content[0].text)).toBeTruthy();
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should apply the change when the token is sent back with the same arguments', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ text: 'Old' }));
+    mockPutTiddler.mockResolvedValue(undefined);
+
+    const proposal = await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, noDeps);
+    const token = extractToken(proposal.content[0].text);
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+
+    const result = await handleUpdateTiddler({
+      title: 'Test Tiddler',
+      text: 'New',
+      confirmationToken: token,
+    }, noDeps);
+
+    expect(result.content[0].text).toContain('Updated: "Test Tiddler"');
+    expect(mockPutTiddler).toHaveBeenCalledTimes(1);
+    expect(mockPutTiddler).toHaveBeenCalledWith(
+      expect.not.objectContaining({ confirmationToken: expect.anything() }),
+      expect.anything()
+    );
+  });
+
+  it('should reject a token that was already used', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ title: 'ToDelete' }));
+    mockDeleteTiddler.mockResolvedValue(undefined);
+
+    const proposal = await handleDeleteTiddler({ title: 'ToDelete' }, noDeps);
+    const token = extractToken(proposal.content[0].text);
+    await handleDeleteTiddler({ title: 'ToDelete', confirmationToken: token }, noDeps);
+
+    const result = await handleDeleteTiddler({ title: 'ToDelete', confirmationToken: token }, noDeps);
+    const parsed = parseToolResultJson<{ error: string }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toContain('invalid or has expired');
+    expect(mockDeleteTiddler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-propose when the arguments differ from the proposal', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ text: 'Old' }));
+
+    const proposal = await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, noDeps);
+    const token = extractToken(proposal.content[0].text);
+
+    const result = await handleUpdateTiddler({
+      title: 'Test Tiddler',
+      text: 'Something else',
+      confirmationToken: token,
+    }, noDeps);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('changed since the proposal');
+    expect(extractToken(result.content[0].text)).not.toBe(token);
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should name the target wiki and reject its token on another wiki', async () => {
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ title: 'ToDelete' }));
+    vi.mocked(getWikiName).mockReturnValue('journal');
+
+    const proposal = await handleDeleteTiddler({ title: 'ToDelete' }, noDeps);
+    const token = extractToken(proposal.content[0].text);
+    expect(proposal.content[0].text).toContain('Proposed: Delete "ToDelete" (wiki "journal")');
+
+    vi.mocked(getWikiName).mockReturnValue('team');
+    const result = await handleDeleteTiddler({ title: 'ToDelete', confirmationToken: token }, noDeps);
+    vi.mocked(getWikiName).mockReturnValue('default');
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Proposed: Delete "ToDelete" (wiki "team")');
+    expect(mockDeleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should re-propose when the tiddler was modified after the proposal', async () => {
+    mockGetTiddler.mockResolvedValue(
+      createMockTiddler({ text: 'Old', modified: '20250101120000000' })
+    );
+
+    const proposal = await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, noDeps);
+    const token = extractToken(proposal.content[0].text);
+
+    mockGetTiddler.mockResolvedValue(
+      createMockTiddler({ text: 'Edited in browser', modified: '20250101125959000' })
+    );
+    const result = await handleUpdateTiddler({
+      title: 'Test Tiddler',
+      text: 'New',
+      confirmationToken: token,
+    }, noDeps);
+
+    expect(result.isError).toBe(true);
+    expect(mockPutTiddler).not.toHaveBeenCalled();
+  });
+});
+
+describe('embedding refresh after writes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should index a created tiddler in the background', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    mockGetTiddler.mockResolvedValue(null);
+    mockPutTiddler.mockResolvedValue(undefined);
+
+    await handleCreateTiddler({ title: 'Fresh Note', text: 'Searchable now' }, deps, approve);
+
+    expect(deps.syncWorker?.refreshInBackground).toHaveBeenCalledWith([
+      expect.objectContaining({ title: 'Fresh Note', text: 'Searchable now' }),
+    ]);
+  });
+
+  it('should re-index an updated tiddler in the background', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ text: 'Old' }));
+    mockPutTiddler.mockResolvedValue(undefined);
+
+    await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, deps, approve);
+
+    expect(deps.syncWorker?.refreshInBackground).toHaveBeenCalledWith([
+      expect.objectContaining({ title: 'Test Tiddler', text: 'New' }),
+    ]);
+  });
+
+  it('should invalidate the tag cache after a write, even without a sync worker', async () => {
+    const deps = createMockDepsWithoutEmbeddings();
+    const invalidate = vi.spyOn(deps.tagCache, 'invalidate');
+    mockGetTiddler.mockResolvedValue(null);
+    mockPutTiddler.mockResolvedValue(undefined);
+
+    await handleCreateTiddler({ title: 'Fresh Note', text: 'x', tags: 'new' }, deps, approve);
+
+    expect(invalidate).toHaveBeenCalled();
+  });
+
+  it('should drop embeddings for a deleted tiddler right away', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ title: 'ToDelete' }));
+    mockDeleteTiddler.mockResolvedValue(undefined);
+
+    await handleDeleteTiddler({ title: 'ToDelete' }, deps, approve);
+
+    expect(deps.syncWorker?.removeTiddler).toHaveBeenCalledWith('ToDelete');
+  });
+
+  it('should not touch embeddings when the change is only proposed', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    mockGetTiddler.mockResolvedValue(createMockTiddler({ text: 'Old' }));
+
+    await handleUpdateTiddler({ title: 'Test Tiddler', text: 'New' }, deps);
+
+    expect(deps.syncWorker?.refreshInBackground).not.toHaveBeenCalled();
+  });
+});
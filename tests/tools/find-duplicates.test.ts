@@ -0,0 +1,179 @@
+// ABOUTME: Tests for the find_duplicates MCP tool handler
+// ABOUTME: Covers similarity thresholds, clustering, pair diffs, filters and scan limits
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleFindDuplicates } from '../../src/tools/find-duplicates.js';
+import {
+  createMockTiddler,
+  createMockDepsWithEmbeddings,
+  createMockDepsWithoutEmbeddings,
+  parseToolResultJson,
+} from './test-utils.js';
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  getTiddler: vi.fn(),
+  queryTiddlers: vi.fn(),
+}));
+
+import { getTiddler, queryTiddlers } from '../../src/tiddlywiki-http.js';
+
+interface Report {
+  threshold: number;
+  compared: number;
+  total_clusters: number;
+  clusters: Array<{
+    titles: string[];
+    pair_count: number;
+    pairs: Array<{ a: string; b: string; similarity: string; diff: string }>;
+  }>;
+}
+
+// Soup A/B/C point almost the same way; Tax Notes is nearly a copy of Taxes; Garden is unrelated
+const embeddings = new Map<string, number[][]>([
+  ['Soup A', [[1, 0, 0]]],
+  ['Soup B', [[0.97, 0.24, 0]]],
+  ['Soup C', [[0.97, 0, 0.24]]],
+  ['Taxes', [[0, 1, 0]]],
+  [
+    'Tax Notes',
+    [
+      [0, 0.6, 0.02],
+      [0, 1, 0],
+    ],
+  ],
+  ['Garden', [[0, 0, 1]]],
+]);
+
+const texts: Record<string, string> = {
+  'Soup A': 'Onion\nCarrot\nSalt',
+  'Soup B': 'Onion\nCarrot\nPepper',
+  'Soup C': 'Onion\nLeek\nSalt',
+  Taxes: 'File by April',
+  'Tax Notes': 'File by April',
+};
+
+function setup() {
+  const deps = createMockDepsWithEmbeddings();
+  vi.mocked(deps.embeddingsDB!.getEmbeddingsByTiddler).mockImplementation(
+    (titles) =>
+      new Map(
+        [...embeddings]
+          .filter(([title]) => !titles || titles.includes(title))
+          .map(([title, vectors]) => [title, vectors.map((v) => Float32Array.from(v))])
+      )
+  );
+  vi.mocked(getTiddler).mockImplementation(async (title: string) =>
+    title in texts ? createMockTiddler({ title, text: texts[title] }) : null
+  );
+  return deps;
+}
+
+describe('handleFindDuplicates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should cluster tiddlers above the threshold, most similar first', async () => {
+    const deps = setup();
+
+    const result = await handleFindDuplicates({ threshold: 0.95 }, deps);
+    const report = parseToolResultJson<Report>(result);
+
+    expect(report.compared).toBe(6);
+    expect(report.total_clusters).toBe(2);
+    expect(report.clusters.map((c) => c.titles)).toEqual([
+      ['Tax Notes', 'Taxes'],
+      ['Soup A', 'Soup B', 'Soup C'],
+    ]);
+    expect(report.clusters[0].pairs[0].similarity).toBe('0.9999');
+    // Soup B and Soup C are only clustered through Soup A
+    expect(report.clusters[1].pair_count).toBe(2);
+  });
+
+  it('should include a short diff of each pair', async () => {
+    const deps = setup();
+
+    const report = parseToolResultJson<Report>(await handleFindDuplicates({}, deps));
+    const soup = report.clusters[1].pairs.find((p) => p.b === 'Soup B')!;
+
+    expect(soup.diff).toBe('-Salt\n+Pepper');
+    expect(report.clusters[0].pairs[0].diff).toBe('(identical text)');
+  });
+
+  it('should use the default threshold of 0.95', async () => {
+    const deps = setup();
+
+    const report = parseToolResultJson<Report>(await handleFindDuplicates({}, deps));
+
+    expect(report.threshold).toBe(0.95);
+    expect(report.total_clusters).toBe(2);
+  });
+
+  it('should only report closer pairs with a higher threshold', async () => {
+    const deps = setup();
+
+    const report = parseToolResultJson<Report>(
+      await handleFindDuplicates({ threshold: 0.999 }, deps)
+    );
+
+    expect(report.clusters.map((c) => c.titles)).toEqual([['Tax Notes', 'Taxes']]);
+  });
+
+  it('should only compare tiddlers matching the filter', async () => {
+    const deps = setup();
+    vi.mocked(queryTiddlers).mockResolvedValue([
+      createMockTiddler({ title: 'Soup A' }),
+      createMockTiddler({ title: 'Soup B' }),
+    ]);
+
+    const report = parseToolResultJson<Report>(
+      await handleFindDuplicates({ filter: '[tag[Recipes]]' }, deps)
+    );
+
+    expect(queryTiddlers).toHaveBeenCalledWith('[tag[Recipes]]');
+    expect(deps.embeddingsDB?.getEmbeddingsByTiddler).toHaveBeenCalledWith(['Soup A', 'Soup B']);
+    expect(report.compared).toBe(2);
+    expect(report.clusters.map((c) => c.titles)).toEqual([['Soup A', 'Soup B']]);
+  });
+
+  it('should limit the number of clusters', async () => {
+    const deps = setup();
+
+    const report = parseToolResultJson<Report>(await handleFindDuplicates({ limit: 1 }, deps));
+
+    expect(report.total_clusters).toBe(2);
+    expect(report.clusters).toHaveLength(1);
+  });
+
+  it('should refuse to compare too many tiddlers without a narrower filter', async () => {
+    const deps = setup();
+    vi.mocked(queryTiddlers).mockResolvedValue(
+      Array.from({ length: 5001 }, (_, i) => createMockTiddler({ title: `T${i}` }))
+    );
+
+    const result = await handleFindDuplicates({ filter: '[all[tiddlers]]' }, deps);
+
+    expect(result.isError).toBe(true);
+    expect(deps.embeddingsDB?.getEmbeddingsByTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to load every vector when too many tiddlers are indexed', async () => {
+    const deps = setup();
+    vi.mocked(deps.embeddingsDB!.getIndexedTiddlersCount).mockReturnValue(5001);
+
+    const result = await handleFindDuplicates({}, deps);
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toContain('5001 tiddlers');
+    expect(deps.embeddingsDB?.getEmbeddingsByTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should return an error when embeddings are not available', async () => {
+    const result = await handleFindDuplicates({}, createMockDepsWithoutEmbeddings());
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe(
+      'Duplicate detection is not available'
+    );
+  });
+});
@@ -0,0 +1,185 @@
+// ABOUTME: Tests for the get_tiddler MCP tool handler
+// ABOUTME: Covers field selection, line ranges, sections, rendering, and size limits
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleGetTiddler } from '../../src/tools/get-tiddler.js';
+import { findHeadings } from '../../src/wikitext.js';
+import { createMockTiddler, parseToolResultJson } from './test-utils.js';
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  getTiddler: vi.fn(),
+  renderTiddler: vi.fn(),
+  queryTiddlers: vi.fn(),
+}));
+
+import { getTiddler, renderTiddler } from '../../src/tiddlywiki-http.js';
+
+const markdownDoc = [
+  '# Intro',
+  'Welcome.',
+  '## Details',
+  'Detail line.',
+  '```',
+  '# not a heading',
+  '```',
+  '# Outro',
+  'Bye.',
+].join('\n');
+
+describe('handleGetTiddler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return all fields with revision', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(
+      createMockTiddler({ revision: 7, fields: { caption: 'Hello' } })
+    );
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler' });
+    const parsed = parseToolResultJson<Record<string, unknown>>(result);
+
+    expect(result.isError).toBeUndefined();
+    expect(parsed.title).toBe('Test Tiddler');
+    expect(parsed.revision).toBe(7);
+    expect(parsed.text).toBe('Test content');
+    expect(parsed.tags).toBe('TestTag');
+    expect(parsed.caption).toBe('Hello');
+    expect(parsed.fields).toBeUndefined();
+    expect(parsed.lines).toEqual({ start: 1, end: 1, total: 1 });
+  });
+
+  it('should return only the selected fields plus title, revision and bag', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ revision: 3, bag: 'default' }));
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler', fields: ['tags', 'modified'] });
+    const parsed = parseToolResultJson<Record<string, unknown>>(result);
+
+    expect(Object.keys(parsed).sort()).toEqual(['bag', 'modified', 'revision', 'tags', 'title']);
+  });
+
+  it('should return a line range', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ text: 'a\nb\nc\nd\ne' }));
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler', startLine: 2, endLine: 4 });
+    const parsed = parseToolResultJson<{ text: string; lines: unknown }>(result);
+
+    expect(parsed.text).toBe('b\nc\nd');
+    expect(parsed.lines).toEqual({ start: 2, end: 4, total: 5 });
+  });
+
+  it('should clamp endLine and reject a startLine past the end', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ text: 'a\nb' }));
+
+    const clamped = parseToolResultJson<{ lines: unknown }>(
+      await handleGetTiddler({ title: 'Test Tiddler', startLine: 2, endLine: 10 })
+    );
+    expect(clamped.lines).toEqual({ start: 2, end: 2, total: 2 });
+
+    const pastEnd = await handleGetTiddler({ title: 'Test Tiddler', startLine: 5 });
+    expect(pastEnd.isError).toBe(true);
+    expect(parseToolResultJson<{ totalLines: number }>(pastEnd).totalLines).toBe(2);
+  });
+
+  it('should return a Markdown section up to the next heading of the same level', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ text: markdownDoc }));
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler', section: 'intro' });
+    const parsed = parseToolResultJson<{ text: string; section: string; lines: unknown }>(result);
+
+    expect(parsed.section).toBe('Intro');
+    expect(parsed.text).toBe(markdownDoc.split('\n').slice(0, 7).join('\n'));
+    expect(parsed.lines).toEqual({ start: 1, end: 7, total: 9 });
+  });
+
+  it('should use "!" headings for wikitext tiddlers', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(
+      createMockTiddler({ type: 'text/vnd.tiddlywiki', text: '!Plan\n# step one\n!Notes\nmisc' })
+    );
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler', section: 'Plan' });
+    const parsed = parseToolResultJson<{ text: string }>(result);
+
+    expect(parsed.text).toBe('!Plan\n# step one');
+  });
+
+  it('should list available headings when the section is missing', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ text: markdownDoc }));
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler', section: 'Nope' });
+    const parsed = parseToolResultJson<{ error: string; headings: string[] }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.headings).toEqual(['Intro', 'Details', 'Outro']);
+  });
+
+  it('should return rendered HTML instead of text when render is set', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ revision: 2 }));
+    vi.mocked(renderTiddler).mockResolvedValue('<p>Test content</p>');
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler', render: true });
+    const parsed = parseToolResultJson<Record<string, unknown>>(result);
+
+    expect(parsed.rendered).toBe('<p>Test content</p>');
+    expect(parsed.text).toBeUndefined();
+    expect(parsed.revision).toBe(2);
+  });
+
+  it('should ask for a range when the text is too large', async () => {
+    const text = Array.from({ length: 4000 }, (_, i) => `Line ${i} with several words of text`).join('\n');
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ text: `# Top\n${text}` }));
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler' });
+    const parsed = parseToolResultJson<{ error: string; suggestion: string; headings: unknown[] }>(
+      result
+    );
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toContain('exceeds');
+    expect(parsed.suggestion).toContain('startLine/endLine');
+    expect(parsed.headings).toEqual([{ line: 1, level: 1, text: 'Top' }]);
+  });
+
+  it('should point at the wikitext when the rendered HTML is too large', async () => {
+    const html = Array.from({ length: 4000 }, (_, i) => `<p>Paragraph ${i} of text</p>`).join('');
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ text: '# Top\nBody' }));
+    vi.mocked(renderTiddler).mockResolvedValue(html);
+
+    const result = await handleGetTiddler({ title: 'Test Tiddler', render: true });
+    const parsed = parseToolResultJson<{ error: string; suggestion: string; headings: unknown[] }>(
+      result
+    );
+
+    expect(result.isError).toBe(true);
+    expect(parsed.error).toContain('exceeds');
+    expect(parsed.suggestion).toContain('without render');
+    expect(parsed.headings).toEqual([{ line: 1, level: 1, text: 'Top' }]);
+  });
+
+  it('should return an error when the tiddler does not exist', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(null);
+
+    const result = await handleGetTiddler({ title: 'Missing' });
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe('Tiddler not found: Missing');
+  });
+
+  it('should reject section combined with a line range', async () => {
+    await expect(
+      handleGetTiddler({ title: 'Test Tiddler', section: 'Intro', startLine: 2 })
+    ).rejects.toThrow();
+  });
+});
+
+describe('findHeadings', () => {
+  it('should skip headings inside code fences', () => {
+    const headings = findHeadings(markdownDoc.split('\n'), true);
+
+    expect(headings.map((h) => [h.line, h.level, h.text])).toEqual([
+      [1, 1, 'Intro'],
+      [3, 2, 'Details'],
+      [8, 1, 'Outro'],
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+// ABOUTME: Tests for the get_links, find_missing and find_orphans MCP tool handlers
+// ABOUTME: Covers filter queries, missing link detection, pagination and size limits
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  handleGetLinks,
+  handleFindMissing,
+  handleFindOrphans,
+  findExistingTitles,
+} from '../../src/tools/link-graph.js';
+import { createMockTiddler, parseToolResultJson } from './test-utils.js';
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  getTiddler: vi.fn(),
+  queryTiddlers: vi.fn(),
+}));
+
+import { getTiddler, queryTiddlers } from '../../src/tiddlywiki-http.js';
+
+const titles = (...names: string[]) => names.map((title) => createMockTiddler({ title }));
+
+describe('handleGetLinks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return links, missing links, backlinks and transclusions', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(
+      createMockTiddler({
+        title: 'Hub',
+        type: 'text/vnd.tiddlywiki',
+        text: '[[Exists]] [[Not Yet]] {{Embedded}}',
+      })
+    );
+    vi.mocked(queryTiddlers).mockImplementation(async (filter: string) => {
+      if (filter === '[[Hub]links[]]') return titles('Exists');
+      if (filter === '[[Hub]backlinks[]]') return titles('Fan 1', 'Fan 2');
+      if (filter === '[[Hub]transcludes[]]') return titles('Embedded');
+      if (filter === '[[Hub]backtranscludes[]]') return [];
+      return []; // existence check: "Not Yet" does not exist
+    });
+
+    const result = await handleGetLinks({ title: 'Hub' });
+    const parsed = parseToolResultJson<Record<string, unknown>>(result);
+
+    expect(parsed).toMatchObject({
+      links: ['Exists'],
+      missingLinks: ['Not Yet'],
+      backlinks: ['Fan 1', 'Fan 2'],
+      transcludes: ['Embedded'],
+      transcludedBy: [],
+    });
+    expect(queryTiddlers).toHaveBeenCalledWith('[[Not Yet]] +[!is[missing]]');
+  });
+
+  it('should cap each list and report full counts', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ title: 'Hub', text: '' }));
+    vi.mocked(queryTiddlers).mockImplementation(async (filter: string) =>
+      filter === '[[Hub]backlinks[]]' ? titles('A', 'B', 'C') : []
+    );
+
+    const parsed = parseToolResultJson<{
+      counts: Record<string, number>;
+      truncated: boolean;
+      backlinks: string[];
+    }>(await handleGetLinks({ title: 'Hub', limit: 2 }));
+
+    expect(parsed.counts.backlinks).toBe(3);
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.backlinks).toEqual(['A', 'B']);
+  });
+
+  it('should return an error when the tiddler does not exist', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(null);
+
+    const result = await handleGetLinks({ title: 'Nope' });
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe('Tiddler not found: Nope');
+  });
+});
+
+describe('handleFindMissing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list missing titles with referrers, most referenced first', async () => {
+    vi.mocked(queryTiddlers).mockImplementation(async (filter: string) => {
+      if (filter.includes(':filter[links[]is[missing]]')) {
+        return [
+          createMockTiddler({ title: 'A', text: '[[Ghost]] [[Real]]' }),
+          createMockTiddler({ title: 'B', text: '[[Ghost]] [[Phantom]]' }),
+        ];
+      }
+      return titles('Real');
+    });
+
+    const result = await handleFindMissing({});
+    const parsed = parseToolResultJson<{
+      total: number;
+      missing: Array<{ title: string; linkedFrom: string[] }>;
+    }>(result);
+
+    expect(queryTiddlers).toHaveBeenCalledWith(
+      '[all[tiddlers]!is[system]] :filter[links[]is[missing]]',
+      true
+    );
+    expect(parsed.total).toBe(2);
+    expect(parsed.missing).toEqual([
+      { title: 'Ghost', linkedFrom: ['A', 'B'] },
+      { title: 'Phantom', linkedFrom: ['B'] },
+    ]);
+  });
+
+  it('should page through results', async () => {
+    vi.mocked(queryTiddlers).mockImplementation(async (filter: string) =>
+      filter.startsWith('[tag[Journal]]')
+        ? [createMockTiddler({ title: 'A', text: '[[X1]] [[X2]] [[X3]]' })]
+        : []
+    );
+
+    const parsed = parseToolResultJson<{ missing: Array<{ title: string }> }>(
+      await handleFindMissing({ filter: '[tag[Journal]]', offset: 1, limit: 1 })
+    );
+
+    expect(parsed.missing.map((m) => m.title)).toEqual(['X2']);
+  });
+});
+
+describe('handleFindOrphans', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should page through orphan tiddlers', async () => {
+    vi.mocked(queryTiddlers).mockResolvedValue(titles('Lonely 1', 'Lonely 2', 'Lonely 3'));
+
+    const parsed = parseToolResultJson<{ total: number; orphans: Array<{ title: string }> }>(
+      await handleFindOrphans({ offset: 1, limit: 1 })
+    );
+
+    expect(vi.mocked(queryTiddlers).mock.calls[0][0]).toContain('[all[orphans]!is[system]!has[tags]]');
+    expect(parsed.total).toBe(3);
+    expect(parsed.orphans.map((o) => o.title)).toEqual(['Lonely 2']);
+  });
+
+  it('should refuse a page that exceeds the token budget', async () => {
+    vi.mocked(queryTiddlers).mockResolvedValue(
+      Array.from({ length: 3000 }, (_, i) =>
+        createMockTiddler({ title: `Orphan with a fairly long title number ${i}` })
+      )
+    );
+
+    const result = await handleFindOrphans({ limit: 3000 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Call find_orphans again with limit');
+  });
+});
+
+describe('findExistingTitles', () => {
+  it('should batch existence checks and skip titles that cannot be filter operands', async () => {
+    vi.clearAllMocks();
+    vi.mocked(queryTiddlers).mockResolvedValue([]);
+    const many = Array.from({ length: 120 }, (_, i) => `T${i}`);
+
+    await findExistingTitles([...many, 'bad]title']);
+
+    expect(queryTiddlers).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(queryTiddlers).mock.calls.some((c) => c[0].includes('bad]'))).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+// ABOUTME: Tests for the list_tags MCP tool handler
+// ABOUTME: Covers matching, sorting, limits and use of the shared tag cache
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleListTags } from '../../src/tools/list-tags.js';
+import { createMockDepsWithoutEmbeddings, parseToolResultJson } from './test-utils.js';
+import type { TagInfo } from '../../src/tags.js';
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  queryTiddlers: vi.fn(),
+}));
+
+import { queryTiddlers } from '../../src/tiddlywiki-http.js';
+
+interface ListTagsResult {
+  total: number;
+  truncated?: boolean;
+  tags: TagInfo[];
+}
+
+describe('handleListTags', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(queryTiddlers).mockImplementation(async (filter: string) =>
+      filter === '[all[tiddlers]has[tags]]'
+        ? [
+            { title: 'A', tags: 'Journal journal' },
+            { title: 'B', tags: 'Journal Journals' },
+            { title: 'C', tags: 'Work' },
+          ]
+        : []
+    );
+  });
+
+  it('should list tags by usage count', async () => {
+    const result = await handleListTags({}, createMockDepsWithoutEmbeddings());
+    const parsed = parseToolResultJson<ListTagsResult>(result);
+
+    expect(parsed.total).toBe(4);
+    expect(parsed.tags.map((t) => [t.tag, t.count])).toEqual([
+      ['Journal', 2],
+      ['journal', 1],
+      ['Journals', 1],
+      ['Work', 1],
+    ]);
+  });
+
+  it('should filter case-insensitively, sort by name and limit', async () => {
+    const result = await handleListTags(
+      { match: 'JOURNAL', sort: 'name', limit: 2 },
+      createMockDepsWithoutEmbeddings()
+    );
+    const parsed = parseToolResultJson<ListTagsResult>(result);
+
+    expect(parsed.total).toBe(3);
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.tags).toHaveLength(2);
+  });
+
+  it('should serve repeated calls from the cache', async () => {
+    const deps = createMockDepsWithoutEmbeddings();
+
+    await handleListTags({}, deps);
+    await handleListTags({ match: 'work' }, deps);
+
+    expect(queryTiddlers).toHaveBeenCalledTimes(2);
+  });
+});
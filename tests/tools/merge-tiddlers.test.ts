@@ -0,0 +1,326 @@
+// ABOUTME: Tests for the merge_tiddlers MCP tool handler
+// ABOUTME: Covers text strategies, tag and field unions, conflicts, references, stubs and rollback
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleMergeTiddlers } from '../../src/tools/merge-tiddlers.js';
+import {
+  createMockTiddler,
+  createApprovingContext,
+  createMockDepsWithoutEmbeddings,
+  createMockDepsWithEmbeddings,
+  parseToolResultJson,
+} from './test-utils.js';
+
+const approve = createApprovingContext();
+const noDeps = createMockDepsWithoutEmbeddings();
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  getTiddler: vi.fn(),
+  putTiddler: vi.fn(),
+  deleteTiddler: vi.fn(),
+  queryTiddlersWithText: vi.fn(),
+  createTiddlerObject: vi.fn().mockImplementation(
+    (title: string, text: string, tags: string, type: string, creator: string) => ({
+      title,
+      text,
+      tags,
+      type,
+      creator,
+      created: '20250101130000000',
+    })
+  ),
+  updateTiddlerObject: vi.fn().mockImplementation(
+    (current: Record<string, unknown>, updates: Record<string, unknown>, modifier: string) => ({
+      ...current,
+      ...updates,
+      modifier,
+      modified: '20250101130000000',
+      revision: undefined,
+    })
+  ),
+  getAuthUser: vi.fn().mockReturnValue('test-user'),
+  getWikiName: vi.fn().mockReturnValue('default'),
+  getTiddlerEtag: vi.fn().mockImplementation((t: { revision?: number }) =>
+    t.revision !== undefined ? `"default/etag/${t.revision}:"` : null
+  ),
+  getTiddlerSnapshot: vi.fn().mockReturnValue(null),
+  TiddlerConflictError: class TiddlerConflictError extends Error {},
+}));
+
+import {
+  getTiddler,
+  putTiddler,
+  deleteTiddler,
+  queryTiddlersWithText,
+  TiddlerConflictError,
+} from '../../src/tiddlywiki-http.js';
+
+const soup = createMockTiddler({
+  title: 'Soup',
+  text: '! Ingredients\nOnion\n\n! Steps\nChop',
+  type: 'text/vnd.tiddlywiki',
+  tags: 'Recipes',
+  caption: 'Onion soup',
+  created: '20240301000000000',
+  revision: 1,
+});
+const copy = createMockTiddler({
+  title: 'Soup Copy',
+  text: '! Ingredients\nLeek\n\nSee [[Soup Notes]]',
+  type: 'text/vnd.tiddlywiki',
+  tags: '[[Winter Food]] Recipes',
+  caption: 'Leek soup',
+  created: '20240101000000000',
+  creator: 'alice',
+  revision: 2,
+});
+const notes = createMockTiddler({
+  title: 'Soup Notes',
+  text: '! Steps\nSimmer',
+  type: 'text/vnd.tiddlywiki',
+  tags: 'Notes',
+  source: 'Grandma',
+  created: '20240201000000000',
+  revision: 3,
+});
+const linker = createMockTiddler({
+  title: 'Menu',
+  text: 'Try [[Soup Copy]] or {{Soup Notes}}',
+  revision: 7,
+});
+
+function mockWiki(tiddlers = [soup, copy, notes]) {
+  vi.mocked(getTiddler).mockImplementation(
+    async (title: string) => tiddlers.find((t) => t.title === title) ?? null
+  );
+  vi.mocked(queryTiddlersWithText).mockImplementation(async (filter: string) => ({
+    tiddlers: filter.startsWith('[[Soup Copy]backlinks[]]') ? [linker, notes] : [linker],
+    unreadable: [],
+  }));
+}
+
+const puts = () => vi.mocked(putTiddler).mock.calls.map(([tiddler]) => tiddler);
+
+describe('handleMergeTiddlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(putTiddler).mockResolvedValue(undefined);
+    vi.mocked(deleteTiddler).mockResolvedValue(undefined);
+  });
+
+  it('should concatenate sources into an existing target and union tags and fields', async () => {
+    mockWiki();
+
+    const result = await handleMergeTiddlers(
+      { sources: ['Soup Copy', 'Soup Notes'], target: 'Soup' },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('## Merged into "Soup"');
+    const [target] = vi.mocked(putTiddler).mock.calls[0];
+    expect(target).toMatchObject({
+      title: 'Soup',
+      // Link between the sources now points at the target
+      text: '! Ingredients\nOnion\n\n! Steps\nChop\n\n! Ingredients\nLeek\n\nSee [[Soup]]\n\n! Steps\nSimmer',
+      tags: 'Recipes [[Winter Food]] Notes',
+      caption: 'Onion soup',
+      source: 'Grandma',
+    });
+    expect(vi.mocked(putTiddler).mock.calls[0][1]).toEqual({ ifMatch: '"default/etag/1:"' });
+    expect(deleteTiddler).toHaveBeenCalledWith('Soup Copy', undefined);
+    expect(deleteTiddler).toHaveBeenCalledWith('Soup Notes', undefined);
+  });
+
+  it('should union list fields nested under fields, as getTiddler returns them', async () => {
+    // TiddlyWeb-shaped tiddlers: custom fields such as list live under `fields`
+    const index = createMockTiddler({
+      title: 'Index',
+      text: 'Contents',
+      revision: 1,
+      fields: { list: 'Intro [[Part One]]' },
+    });
+    const draft = createMockTiddler({
+      title: 'Index Draft',
+      text: 'More contents',
+      revision: 2,
+      fields: { list: '[[Part One]] Appendix', caption: 'Draft' },
+    });
+    mockWiki([index, draft]);
+
+    await handleMergeTiddlers(
+      {
+        sources: ['Index Draft'],
+        target: 'Index',
+        sourceAction: 'redirect',
+        updateReferences: false,
+      },
+      noDeps,
+      approve
+    );
+
+    const [target, stub] = puts();
+    expect(target).toMatchObject({
+      title: 'Index',
+      list: 'Intro [[Part One]] Appendix',
+      caption: 'Draft',
+    });
+    expect(target.fields).toBeUndefined();
+    expect(stub).toMatchObject({ title: 'Index Draft', caption: 'Draft', list: undefined });
+    expect(stub.fields).toBeUndefined();
+  });
+
+  it('should report conflicting field values in the preview', async () => {
+    mockWiki();
+
+    const result = await handleMergeTiddlers({ sources: ['Soup Copy'], target: 'Soup' }, noDeps);
+
+    expect(result.content[0].text).toContain('### Field conflicts (1)');
+    expect(result.content[0].text).toContain(
+      '- `caption`: kept "Onion soup" (from "Soup"); discarded "Leek soup" (from "Soup Copy")'
+    );
+    expect(putTiddler).not.toHaveBeenCalled();
+    expect(deleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should interleave sections into a new target dated like its oldest source', async () => {
+    mockWiki();
+
+    await handleMergeTiddlers(
+      { sources: ['Soup', 'Soup Copy'], target: 'Soup Recipe', strategy: 'interleave' },
+      noDeps,
+      approve
+    );
+
+    expect(puts()[0]).toMatchObject({
+      title: 'Soup Recipe',
+      text: '! Ingredients\n\nOnion\n\nLeek\n\nSee [[Soup Notes]]\n\n! Steps\n\nChop',
+      created: '20240101000000000',
+      creator: 'alice',
+      type: 'text/vnd.tiddlywiki',
+    });
+  });
+
+  it('should rewrite references to every source in one update per referrer', async () => {
+    mockWiki();
+
+    const result = await handleMergeTiddlers(
+      { sources: ['Soup Copy', 'Soup Notes'], target: 'Soup' },
+      noDeps,
+      approve
+    );
+
+    expect(result.content[0].text).toContain('### References updated (1)');
+    const menuWrites = vi.mocked(putTiddler).mock.calls.filter(([t]) => t.title === 'Menu');
+    expect(menuWrites).toEqual([
+      [
+        expect.objectContaining({ text: 'Try [[Soup]] or {{Soup}}' }),
+        { ifMatch: '"default/etag/7:"' },
+      ],
+    ]);
+  });
+
+  it('should change nothing when a referrer cannot be read', async () => {
+    mockWiki();
+    vi.mocked(queryTiddlersWithText).mockResolvedValue({
+      tiddlers: [linker],
+      unreadable: [{ title: 'Lunch', error: 'Request timed out' }],
+    });
+
+    const result = await handleMergeTiddlers(
+      { sources: ['Soup Copy', 'Soup Notes'], target: 'Soup' },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ error: string; unreadable: unknown[] }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.unreadable).toEqual([{ title: 'Lunch', error: 'Request timed out' }]);
+    expect(putTiddler).not.toHaveBeenCalled();
+    expect(deleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should leave redirect stubs instead of deleting sources', async () => {
+    mockWiki();
+
+    await handleMergeTiddlers(
+      { sources: ['Soup Copy'], target: 'Soup', sourceAction: 'redirect' },
+      noDeps,
+      approve
+    );
+
+    expect(deleteTiddler).not.toHaveBeenCalled();
+    expect(puts().find((t) => t.title === 'Soup Copy')).toMatchObject({
+      text: 'Merged into [[Soup]].',
+      type: 'text/vnd.tiddlywiki',
+      tags: '',
+      'merged-into': 'Soup',
+    });
+  });
+
+  it('should roll back every write when a source cannot be deleted', async () => {
+    mockWiki();
+    vi.mocked(deleteTiddler)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new TiddlerConflictError('Soup Notes', 'changed'));
+
+    const result = await handleMergeTiddlers(
+      { sources: ['Soup Copy', 'Soup Notes'], target: 'Soup' },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ rolledBack: boolean; suggestion: string }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.rolledBack).toBe(true);
+    expect(parsed.suggestion).toContain('call merge_tiddlers again');
+    // Deleted source restored, then the referrer, then the target's original content
+    expect(puts().slice(-3)).toEqual([copy, linker, soup]);
+  });
+
+  it('should delete a newly created target when rolling back', async () => {
+    mockWiki();
+    vi.mocked(putTiddler)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('server down'));
+
+    const result = await handleMergeTiddlers(
+      { sources: ['Soup', 'Soup Copy'], target: 'Soup Recipe' },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBe(true);
+    expect(deleteTiddler).toHaveBeenCalledWith('Soup Recipe', undefined);
+    expect(deleteTiddler).not.toHaveBeenCalledWith('Soup');
+  });
+
+  it('should return an error when a source does not exist', async () => {
+    mockWiki();
+
+    const result = await handleMergeTiddlers({ sources: ['Gone'], target: 'Soup' }, noDeps, approve);
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe('Tiddler not found: Gone');
+  });
+
+  it('should reject a target that is also a source', async () => {
+    await expect(
+      handleMergeTiddlers({ sources: ['Soup', 'Soup Copy'], target: 'Soup' }, noDeps, approve)
+    ).rejects.toThrow('target must not be one of the sources');
+  });
+
+  it('should refresh embeddings for written tiddlers and drop deleted sources', async () => {
+    mockWiki();
+    const deps = createMockDepsWithEmbeddings();
+
+    await handleMergeTiddlers({ sources: ['Soup Copy'], target: 'Soup' }, deps, approve);
+
+    expect(deps.syncWorker?.refreshInBackground).toHaveBeenCalledWith([
+      expect.objectContaining({ title: 'Soup' }),
+      expect.objectContaining({ title: 'Menu' }),
+    ]);
+    expect(deps.syncWorker?.removeTiddler).toHaveBeenCalledWith('Soup Copy');
+  });
+});
@@ -0,0 +1,232 @@
+// ABOUTME: Tests for the rename_tiddler MCP tool handler
+// ABOUTME: Covers reference rewriting, approval, rollback on failure, and embedding moves
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleRenameTiddler, buildReferrerFilter } from '../../src/tools/rename-tiddler.js';
+import {
+  createMockTiddler,
+  createApprovingContext,
+  createMockDepsWithoutEmbeddings,
+  createMockDepsWithEmbeddings,
+  parseToolResultJson,
+} from './test-utils.js';
+
+const approve = createApprovingContext();
+const noDeps = createMockDepsWithoutEmbeddings();
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  getTiddler: vi.fn(),
+  putTiddler: vi.fn(),
+  deleteTiddler: vi.fn(),
+  queryTiddlersWithText: vi.fn(),
+  updateTiddlerObject: vi.fn().mockImplementation(
+    (current: Record<string, unknown>, updates: Record<string, unknown>, modifier: string) => ({
+      ...current,
+      ...updates,
+      modifier,
+      modified: '20250101130000000',
+      revision: undefined,
+    })
+  ),
+  getAuthUser: vi.fn().mockReturnValue('test-user'),
+  getWikiName: vi.fn().mockReturnValue('default'),
+  getTiddlerEtag: vi.fn().mockImplementation((t: { revision?: number }) =>
+    t.revision !== undefined ? `"default/etag/${t.revision}:"` : null
+  ),
+  getTiddlerSnapshot: vi.fn().mockReturnValue(null),
+  TiddlerConflictError: class TiddlerConflictError extends Error {},
+}));
+
+import {
+  getTiddler,
+  putTiddler,
+  deleteTiddler,
+  queryTiddlersWithText,
+  TiddlerConflictError,
+} from '../../src/tiddlywiki-http.js';
+
+const source = createMockTiddler({
+  title: 'Old Note',
+  text: 'Self link [[Old Note]]',
+  created: '20240101000000000',
+  creator: 'alice',
+  revision: 1,
+});
+const linker = createMockTiddler({ title: 'Linker', text: 'See [[Old Note]]', revision: 4 });
+const tagged = createMockTiddler({ title: 'Child', text: 'No links', tags: '[[Old Note]] x', revision: 5 });
+const mentioner = createMockTiddler({ title: 'Mention', text: 'Old Note in prose', revision: 6 });
+
+function mockWiki() {
+  vi.mocked(getTiddler).mockImplementation(async (title: string) =>
+    title === 'Old Note' ? source : null
+  );
+  vi.mocked(queryTiddlersWithText).mockResolvedValue({
+    tiddlers: [linker, tagged, mentioner],
+    unreadable: [],
+  });
+}
+
+describe('handleRenameTiddler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(putTiddler).mockResolvedValue(undefined);
+    vi.mocked(deleteTiddler).mockResolvedValue(undefined);
+  });
+
+  it('should move the tiddler and rewrite referrers', async () => {
+    mockWiki();
+
+    const result = await handleRenameTiddler({ title: 'Old Note', newTitle: 'New Note' }, noDeps, approve);
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('## Renamed: "Old Note" → "New Note"');
+    expect(result.content[0].text).toContain('References updated (2)');
+
+    const puts = vi.mocked(putTiddler).mock.calls;
+    expect(puts[0][0]).toMatchObject({
+      title: 'New Note',
+      text: 'Self link [[New Note]]',
+      created: '20240101000000000',
+      creator: 'alice',
+    });
+    expect(puts[1]).toEqual([
+      expect.objectContaining({ title: 'Linker', text: 'See [[New Note]]' }),
+      { ifMatch: '"default/etag/4:"' },
+    ]);
+    expect(puts[2][0]).toMatchObject({ title: 'Child', tags: '[[New Note]] x' });
+    expect(puts).toHaveLength(3);
+    expect(deleteTiddler).toHaveBeenCalledWith('Old Note', undefined);
+  });
+
+  it('should rewrite a list field nested under fields, as getTiddler returns it', async () => {
+    const listing = createMockTiddler({
+      title: 'Contents',
+      text: 'Table of contents',
+      revision: 7,
+      fields: { list: '[[Old Note]] Other', caption: 'TOC' },
+    });
+    vi.mocked(getTiddler).mockImplementation(async (title: string) =>
+      title === 'Old Note' ? source : null
+    );
+    vi.mocked(queryTiddlersWithText).mockResolvedValue({ tiddlers: [listing], unreadable: [] });
+
+    await handleRenameTiddler({ title: 'Old Note', newTitle: 'New Note' }, noDeps, approve);
+
+    const written = vi.mocked(putTiddler).mock.calls[1][0];
+    expect(written.title).toBe('Contents');
+    expect(written.fields).toEqual({ list: '[[New Note]] Other', caption: 'TOC' });
+    expect(written.list).toBeUndefined();
+    expect(approve.elicit).toHaveBeenCalledWith(
+      expect.stringContaining('list: "[[Old Note]] Other" → "[[New Note]] Other"')
+    );
+  });
+
+  it('should only move the tiddler when updateReferences is false', async () => {
+    mockWiki();
+
+    await handleRenameTiddler(
+      { title: 'Old Note', newTitle: 'New Note', updateReferences: false },
+      noDeps,
+      approve
+    );
+
+    expect(queryTiddlersWithText).not.toHaveBeenCalled();
+    expect(putTiddler).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(putTiddler).mock.calls[0][0].text).toBe('Self link [[Old Note]]');
+  });
+
+  it('should propose without writing when approval is pending', async () => {
+    mockWiki();
+
+    const result = await handleRenameTiddler({ title: 'Old Note', newTitle: 'New Note' }, noDeps);
+
+    expect(result.content[0].text).toContain('## Proposed: Rename "Old Note" to "New Note" (2 referring tiddlers)');
+    expect(result.content[0].text).toContain('#### "Linker"');
+    expect(putTiddler).not.toHaveBeenCalled();
+    expect(deleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should roll back completed writes when a referrer update fails', async () => {
+    mockWiki();
+    vi.mocked(putTiddler)
+      .mockResolvedValueOnce(undefined) // new tiddler
+      .mockResolvedValueOnce(undefined) // Linker
+      .mockRejectedValueOnce(new TiddlerConflictError('Child', 'changed')); // Child
+
+    const result = await handleRenameTiddler({ title: 'Old Note', newTitle: 'New Note' }, noDeps, approve);
+    const parsed = parseToolResultJson<{ error: string; rolledBack: boolean; suggestion: string }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.rolledBack).toBe(true);
+    expect(parsed.suggestion).toContain('call rename_tiddler again');
+    // Linker restored to its original content, new tiddler removed, old one kept
+    expect(vi.mocked(putTiddler).mock.calls[3][0]).toBe(linker);
+    expect(deleteTiddler).toHaveBeenCalledWith('New Note', undefined);
+    expect(deleteTiddler).not.toHaveBeenCalledWith('Old Note');
+  });
+
+  it('should change nothing when a referrer cannot be read', async () => {
+    mockWiki();
+    vi.mocked(queryTiddlersWithText).mockResolvedValue({
+      tiddlers: [linker],
+      unreadable: [{ title: 'Child', error: 'Request timed out' }],
+    });
+
+    const result = await handleRenameTiddler(
+      { title: 'Old Note', newTitle: 'New Note' },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ error: string; unreadable: unknown[] }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.unreadable).toEqual([{ title: 'Child', error: 'Request timed out' }]);
+    expect(putTiddler).not.toHaveBeenCalled();
+    expect(deleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to overwrite an existing tiddler', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler());
+
+    const result = await handleRenameTiddler({ title: 'Old Note', newTitle: 'Taken' }, noDeps, approve);
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe('Tiddler already exists: Taken');
+    expect(putTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should return an error when the tiddler does not exist', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(null);
+
+    const result = await handleRenameTiddler({ title: 'Missing', newTitle: 'New' }, noDeps, approve);
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe('Tiddler not found: Missing');
+  });
+
+  it('should move embeddings and refresh rewritten referrers', async () => {
+    mockWiki();
+    const deps = createMockDepsWithEmbeddings();
+
+    await handleRenameTiddler({ title: 'Old Note', newTitle: 'New Note' }, deps, approve);
+
+    expect(deps.syncWorker?.renameTiddler).toHaveBeenCalledWith(
+      'Old Note',
+      expect.objectContaining({ title: 'New Note' }),
+      true
+    );
+    expect(vi.mocked(deps.syncWorker!.refreshInBackground).mock.calls[0][0]).toHaveLength(2);
+  });
+});
+
+describe('buildReferrerFilter', () => {
+  it('should combine backlinks, tags, list fields and text mentions', () => {
+    expect(buildReferrerFilter('My Note')).toBe(
+      '[[My Note]backlinks[]] [tag[My Note]] [[My Note]listed[]] [all[tiddlers]search:text:literal[My Note]] +[!is[system]] -[[My Note]]'
+    );
+  });
+
+  it('should scan all tiddlers when the title cannot be a filter operand', () => {
+    expect(buildReferrerFilter('a]b')).toBe('[all[tiddlers]!is[system]]');
+  });
+});
@@ -1,8 +1,8 @@
 // ABOUTME: Tests for the search_tiddlers MCP tool handler
-// ABOUTME: Covers filter-only, semantic, and hybrid search modes
+// ABOUTME: Covers filter-only, semantic, and hybrid search modes, and search across wikis
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { handleSearchTiddlers } from '../../src/tools/search-tiddlers.js';
+import { handleSearchTiddlers, handleSearchAcrossWikis } from '../../src/tools/search-tiddlers.js';
 import {
   createMockTiddler,
   createMockDepsWithoutEmbeddings,
@@ -14,11 +14,13 @@ import {
 vi.mock('../../src/tiddlywiki-http.js', () => ({
   queryTiddlers: vi.fn(),
   getTiddler: vi.fn(),
+  runWithWiki: vi.fn((_wiki: string, fn: () => unknown) => fn()),
 }));
 
-import { queryTiddlers, getTiddler } from '../../src/tiddlywiki-http.js';
+import { queryTiddlers, getTiddler, runWithWiki } from '../../src/tiddlywiki-http.js';
 const mockQueryTiddlers = vi.mocked(queryTiddlers);
 const mockGetTiddler = vi.mocked(getTiddler);
+const mockRunWithWiki = vi.mocked(runWithWiki);
 
 describe('handleSearchTiddlers', () => {
   beforeEach(() => {
@@ -30,7 +32,7 @@ describe('handleSearchTiddlers', () => {
       const deps = createMockDepsWithoutEmbeddings();
 
       await expect(handleSearchTiddlers({}, deps)).rejects.toThrow(
-        'At least one of semantic or filter must be provided'
+        'At least one of semantic, similarTo or filter must be provided'
       );
     });
 
@@ -220,7 +222,7 @@ describe('handleSearchTiddlers', () => {
     });
   });
 
-  describe('hybrid mode (semantic + filter)', () => {
+  describe('filtered semantic search (semantic + filter)', () => {
     it('should filter semantic results by TiddlyWiki filter', async () => {
       const deps = createMockDepsWithEmbeddings({
         searchResults: [
@@ -243,3 +245,636 @@ describe('handleSearchTiddlers', () => {
     });
   });
 });
+
+describe('handleSearchTiddlers hybrid ranking (mode: "hybrid")', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fuse vector and keyword rankings and report signals', async () => {
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [
+        { tiddler_title: 'Vector Only', chunk_id: 0, distance: 0.1, created: '', modified: '', tags: '' },
+        { tiddler_title: 'Both', chunk_id: 0, distance: 0.2, created: '', modified: '', tags: '' },
+      ],
+      keywordResults: [
+        { tiddler_title: 'Both', chunk_id: 0, bm25: -3.5, created: '', modified: '', tags: '' },
+        { tiddler_title: 'Keyword Only', chunk_id: 0, bm25: -2, created: '', modified: '', tags: '' },
+      ],
+    });
+
+    const result = await handleSearchTiddlers({ semantic: 'NASA budget', mode: 'hybrid' }, deps);
+    const parsed = parseToolResultJson<{
+      mode: string;
+      results: Array<{
+        tiddler_title: string;
+        similarity_score?: string;
+        rrf_score: string;
+        signals: Record<string, { rank: number }>;
+      }>;
+    }>(result);
+
+    expect(parsed.mode).toBe('hybrid');
+    expect(parsed.results.map((r) => r.tiddler_title)).toEqual([
+      'Both',
+      'Vector Only',
+      'Keyword Only',
+    ]);
+    expect(parsed.results[0].signals).toEqual({
+      vector: { rank: 2, similarity_score: '0.8000' },
+      keyword: { rank: 1, bm25: '-3.5000' },
+    });
+    expect(Object.keys(parsed.results[2].signals)).toEqual(['keyword']);
+    expect(parsed.results[2].similarity_score).toBeUndefined();
+    expect(deps.embeddingsDB?.searchKeyword).toHaveBeenCalledWith('NASA budget', 30);
+  });
+
+  it('should respect the limit after fusion', async () => {
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [
+        { tiddler_title: 'A', chunk_id: 0, distance: 0.1, created: '', modified: '', tags: '' },
+        { tiddler_title: 'B', chunk_id: 0, distance: 0.2, created: '', modified: '', tags: '' },
+      ],
+      keywordResults: [
+        { tiddler_title: 'C', chunk_id: 0, bm25: -1, created: '', modified: '', tags: '' },
+      ],
+    });
+
+    const result = await handleSearchTiddlers(
+      { semantic: 'query', mode: 'hybrid', limit: 2 },
+      deps
+    );
+    const parsed = parseToolResultJson<{ results: unknown[] }>(result);
+
+    expect(parsed.results).toHaveLength(2);
+  });
+
+  it('should not use keyword ranking in default semantic mode', async () => {
+    const deps = createMockDepsWithEmbeddings();
+
+    await handleSearchTiddlers({ semantic: 'query' }, deps);
+
+    expect(deps.embeddingsDB?.searchKeyword).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleSearchTiddlers filtered semantic search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should restrict the vector search to tiddlers matching the filter', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    mockQueryTiddlers.mockResolvedValue([
+      createMockTiddler({ title: '2024-01-01' }),
+      createMockTiddler({ title: '2024-01-02' }),
+    ]);
+
+    await handleSearchTiddlers(
+      { semantic: 'query', filter: '[tag[Journal]prefix[2024]]', limit: 5 },
+      deps
+    );
+
+    expect(mockQueryTiddlers).toHaveBeenCalledWith('[tag[Journal]prefix[2024]]', false);
+    expect(deps.embeddingsDB?.searchSimilar).toHaveBeenCalledWith(expect.any(Array), 5, [
+      '2024-01-01',
+      '2024-01-02',
+    ]);
+  });
+
+  it('should restrict both rankings in hybrid mode', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    mockQueryTiddlers.mockResolvedValue([createMockTiddler({ title: 'Only Match' })]);
+
+    await handleSearchTiddlers(
+      { semantic: 'query', filter: '[tag[X]]', mode: 'hybrid', limit: 4 },
+      deps
+    );
+
+    expect(deps.embeddingsDB?.searchSimilar).toHaveBeenCalledWith(expect.any(Array), 12, [
+      'Only Match',
+    ]);
+    expect(deps.embeddingsDB?.searchKeyword).toHaveBeenCalledWith('query', 12, ['Only Match']);
+  });
+
+  it('should return no results when the filter matches nothing', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    mockQueryTiddlers.mockResolvedValue([]);
+
+    const result = await handleSearchTiddlers({ semantic: 'query', filter: '[tag[None]]' }, deps);
+    const parsed = parseToolResultJson<{ results: unknown[] }>(result);
+
+    expect(parsed.results).toEqual([]);
+  });
+});
+
+describe('handleSearchTiddlers per-tiddler results', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const chunk = (title: string, chunkId: number, distance: number, text = '') => ({
+    tiddler_title: title,
+    chunk_id: chunkId,
+    chunk_text: text,
+    distance,
+    created: '',
+    modified: '',
+    tags: '',
+  });
+
+  it('should return one result per tiddler, scored by its best chunk', async () => {
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [
+        chunk('Long Note', 2, 0.1),
+        chunk('Long Note', 0, 0.15),
+        chunk('Short Note', 0, 0.2),
+        chunk('Long Note', 1, 0.3),
+      ],
+    });
+
+    const result = await handleSearchTiddlers({ semantic: 'query', limit: 2 }, deps);
+    const parsed = parseToolResultJson<{
+      results: Array<{
+        tiddler_title: string;
+        chunk_id: number;
+        similarity_score: string;
+        matched_chunks: number;
+      }>;
+    }>(result);
+
+    expect(parsed.results.map((r) => r.tiddler_title)).toEqual(['Long Note', 'Short Note']);
+    expect(parsed.results[0].chunk_id).toBe(2);
+    expect(parsed.results[0].similarity_score).toBe('0.9000');
+    expect(parsed.results[0].matched_chunks).toBe(3);
+  });
+
+  it('should widen the chunk search until enough distinct tiddlers are found', async () => {
+    const deps = createMockDepsWithEmbeddings();
+    const allChunks = [
+      chunk('A', 0, 0.1),
+      chunk('A', 1, 0.11),
+      chunk('A', 2, 0.12),
+      chunk('B', 0, 0.2),
+      chunk('C', 0, 0.3),
+    ];
+    vi.mocked(deps.embeddingsDB!.searchSimilar).mockImplementation((_emb, k) =>
+      allChunks.slice(0, k)
+    );
+
+    const result = await handleSearchTiddlers({ semantic: 'query', limit: 3 }, deps);
+    const parsed = parseToolResultJson<{ results: Array<{ tiddler_title: string }> }>(result);
+
+    expect(parsed.results.map((r) => r.tiddler_title)).toEqual(['A', 'B', 'C']);
+    expect(deps.embeddingsDB?.searchSimilar).toHaveBeenNthCalledWith(1, expect.any(Array), 3);
+    expect(deps.embeddingsDB?.searchSimilar).toHaveBeenNthCalledWith(2, expect.any(Array), 6);
+  });
+
+  it('should rank by mean chunk score when aggregate is "mean"', async () => {
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [
+        chunk('Spiky', 0, 0.05),
+        chunk('Steady', 0, 0.1),
+        chunk('Steady', 1, 0.1),
+        chunk('Spiky', 1, 0.5),
+      ],
+    });
+
+    const result = await handleSearchTiddlers(
+      { semantic: 'query', aggregate: 'mean', limit: 2 },
+      deps
+    );
+    const parsed = parseToolResultJson<{
+      results: Array<{ tiddler_title: string; similarity_score: string }>;
+    }>(result);
+
+    expect(parsed.results[0].tiddler_title).toBe('Steady');
+    expect(parsed.results[0].similarity_score).toBe('0.9000');
+    expect(parsed.results[1].similarity_score).toBe('0.7250');
+  });
+
+  it('should include a snippet around the query terms from the best chunk', async () => {
+    const filler = 'Lorem ipsum dolor sit amet. '.repeat(20);
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [
+        chunk('Notes', 0, 0.1, `${filler}The quarterly budget review went well. ${filler}`),
+      ],
+    });
+
+    const result = await handleSearchTiddlers({ semantic: 'budget review' }, deps);
+    const parsed = parseToolResultJson<{ results: Array<{ snippet: string }> }>(result);
+    const snippet = parsed.results[0].snippet;
+
+    expect(snippet).toContain('quarterly budget review');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet.length).toBeLessThan(260);
+  });
+
+  it('should use the whole chunk as snippet when it is short', async () => {
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [chunk('Short', 0, 0.1, 'A  short\n\nnote')],
+    });
+
+    const result = await handleSearchTiddlers({ semantic: 'anything' }, deps);
+    const parsed = parseToolResultJson<{ results: Array<{ snippet: string }> }>(result);
+
+    expect(parsed.results[0].snippet).toBe('A short note');
+  });
+});
+
+describe('handleSearchTiddlers graph expansion (expand: true)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const chunk = (title: string, distance: number, tags = '') => ({
+    tiddler_title: title,
+    chunk_id: 0,
+    chunk_text: '',
+    distance,
+    created: '',
+    modified: '',
+    tags,
+  });
+
+  // Link graph: Hit A links to Linked and Shared; Backlinker links to Hit A;
+  // Hit B links to Shared; Hit B is tagged Garden along with Sibling
+  const graph: Record<string, string[]> = {
+    '[[Hit A]links[]!is[system]]': ['Linked', 'Shared'],
+    '[[Hit A]backlinks[]!is[system]]': ['Backlinker'],
+    '[[Hit B]links[]!is[system]]': ['Shared', 'Hit A'],
+    '[[Hit B]backlinks[]!is[system]]': [],
+    '[tag[Garden]!is[system]]': ['Hit B', 'Sibling'],
+  };
+
+  function setup() {
+    const deps = createMockDepsWithEmbeddings();
+    // Sibling is indexed but only found when asked for by title
+    vi.mocked(deps.embeddingsDB!.searchSimilar).mockImplementation((_emb, _k, titles) =>
+      titles
+        ? [chunk('Hit A', 0.1), chunk('Hit B', 0.3, 'Garden'), chunk('Sibling', 0.2)].filter((c) =>
+            titles.includes(c.tiddler_title)
+          )
+        : [chunk('Hit A', 0.1), chunk('Hit B', 0.3, 'Garden')]
+    );
+    mockQueryTiddlers.mockImplementation(async (filter) =>
+      (graph[filter] ?? []).map((title) => createMockTiddler({ title }))
+    );
+    return deps;
+  }
+
+  type Expanded = {
+    results: Array<{ tiddler_title: string }>;
+    neighbors: Array<{
+      tiddler_title: string;
+      score: string;
+      graph_score: string;
+      similarity_score?: string;
+      via: Array<{ from: string; relation: string; tag?: string }>;
+    }>;
+  };
+
+  it('should not expand unless asked', async () => {
+    const deps = setup();
+
+    const result = await handleSearchTiddlers({ semantic: 'query' }, deps);
+    const parsed = parseToolResultJson<Partial<Expanded>>(result);
+
+    expect(parsed.neighbors).toBeUndefined();
+    expect(mockQueryTiddlers).not.toHaveBeenCalled();
+  });
+
+  it('should return linked, backlinking and same-tag neighbors labeled by how they were reached', async () => {
+    const deps = setup();
+
+    const result = await handleSearchTiddlers({ semantic: 'query', expand: true }, deps);
+    const parsed = parseToolResultJson<Expanded>(result);
+
+    expect(parsed.results.map((r) => r.tiddler_title)).toEqual(['Hit A', 'Hit B']);
+    const byTitle = Object.fromEntries(parsed.neighbors.map((n) => [n.tiddler_title, n]));
+    expect(Object.keys(byTitle).sort()).toEqual(['Backlinker', 'Linked', 'Shared', 'Sibling']);
+    expect(byTitle['Linked'].via).toEqual([{ from: 'Hit A', relation: 'link' }]);
+    expect(byTitle['Backlinker'].via).toEqual([{ from: 'Hit A', relation: 'backlink' }]);
+    expect(byTitle['Sibling'].via).toEqual([{ from: 'Hit B', relation: 'tag', tag: 'Garden' }]);
+    expect(byTitle['Shared'].via).toHaveLength(2);
+  });
+
+  it('should rank neighbors by graph proximity combined with query similarity', async () => {
+    const deps = setup();
+
+    const result = await handleSearchTiddlers({ semantic: 'query', expand: true }, deps);
+    const parsed = parseToolResultJson<Expanded>(result);
+
+    // Shared is reached from both hits; Sibling is only tag-related but similar to the query
+    expect(parsed.neighbors.map((n) => n.tiddler_title)).toEqual([
+      'Sibling',
+      'Shared',
+      'Linked',
+      'Backlinker',
+    ]);
+    const sibling = parsed.neighbors[0];
+    expect(sibling.similarity_score).toBe('0.8000');
+    expect(Number(sibling.score)).toBeCloseTo((Number(sibling.graph_score) + 0.8) / 2, 3);
+    expect(parsed.neighbors[1].similarity_score).toBeUndefined();
+    expect(Number(parsed.neighbors[1].graph_score)).toBeGreaterThan(
+      Number(parsed.neighbors[2].graph_score)
+    );
+  });
+
+  it('should cap neighbors at the limit and keep them within the filter', async () => {
+    const deps = setup();
+    mockQueryTiddlers.mockImplementation(async (filter) => {
+      if (filter === '[prefix[]]') {
+        return ['Hit A', 'Hit B', 'Linked', 'Backlinker'].map((title) =>
+          createMockTiddler({ title })
+        );
+      }
+      return (graph[filter] ?? []).map((title) => createMockTiddler({ title }));
+    });
+
+    const result = await handleSearchTiddlers(
+      { semantic: 'query', filter: '[prefix[]]', expand: true, limit: 2 },
+      deps
+    );
+    const parsed = parseToolResultJson<Expanded>(result);
+
+    expect(parsed.neighbors.map((n) => n.tiddler_title)).toEqual(['Linked', 'Backlinker']);
+  });
+
+  it('should skip tags too broad to relate tiddlers', async () => {
+    const deps = setup();
+    mockQueryTiddlers.mockImplementation(async (filter) =>
+      filter.startsWith('[tag[')
+        ? Array.from({ length: 51 }, (_, i) => createMockTiddler({ title: `Member ${i}` }))
+        : []
+    );
+
+    const result = await handleSearchTiddlers({ semantic: 'query', expand: true }, deps);
+    const parsed = parseToolResultJson<Expanded>(result);
+
+    expect(parsed.neighbors).toEqual([]);
+    expect(mockQueryTiddlers).toHaveBeenCalledWith('[tag[Garden]!is[system]]', false, 0, 51);
+  });
+
+  it('should reject expand without a semantic query', async () => {
+    const deps = createMockDepsWithoutEmbeddings();
+
+    await expect(
+      handleSearchTiddlers({ filter: '[tag[Garden]]', expand: true }, deps)
+    ).rejects.toThrow();
+  });
+});
+
+describe('handleSearchTiddlers more like this (similarTo)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const chunk = (title: string, distance: number) => ({
+    tiddler_title: title,
+    chunk_id: 0,
+    chunk_text: 'chunk text',
+    distance,
+    created: '',
+    modified: '',
+    tags: '',
+  });
+
+  function setup() {
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [chunk('Seed', 0), chunk('Close', 0.1), chunk('Far', 0.4)],
+    });
+    vi.mocked(deps.embeddingsDB!.getTiddlerEmbeddings).mockReturnValue([
+      [3, 0],
+      [0, 3],
+    ]);
+    return deps;
+  }
+
+  it('should query with the mean of the stored chunk vectors without calling the provider', async () => {
+    const deps = setup();
+
+    const result = await handleSearchTiddlers({ similarTo: 'Seed' }, deps);
+    const parsed = parseToolResultJson<{ similar_to: string; results: unknown[] }>(result);
+
+    expect(parsed.similar_to).toBe('Seed');
+    expect(deps.embeddingsDB?.getTiddlerEmbeddings).toHaveBeenCalledWith('Seed');
+    expect(deps.embeddingProvider?.generateQueryEmbedding).not.toHaveBeenCalled();
+    // Averaged direction, rescaled to the chunks' length
+    const [query] = vi.mocked(deps.embeddingsDB!.searchSimilar).mock.calls[0];
+    expect(query[0]).toBeCloseTo(3 / Math.SQRT2);
+    expect(query[1]).toBeCloseTo(3 / Math.SQRT2);
+  });
+
+  it('should leave the seed out of the results', async () => {
+    const deps = setup();
+
+    const result = await handleSearchTiddlers({ similarTo: 'Seed', limit: 2 }, deps);
+    const parsed = parseToolResultJson<{ results: Array<{ tiddler_title: string }> }>(result);
+
+    expect(parsed.results.map((r) => r.tiddler_title)).toEqual(['Close', 'Far']);
+  });
+
+  it('should restrict results to the filter', async () => {
+    const deps = setup();
+    mockQueryTiddlers.mockResolvedValue([createMockTiddler({ title: 'Far' })]);
+
+    await handleSearchTiddlers({ similarTo: 'Seed', filter: '[tag[Garden]]' }, deps);
+
+    expect(deps.embeddingsDB?.searchSimilar).toHaveBeenCalledWith(expect.any(Array), 10, ['Far']);
+  });
+
+  it('should take the snippet from the start of the best chunk, not around the seed title', async () => {
+    const text = `Opening words of the close match. ${'Filler text. '.repeat(30)}Seed appears here.`;
+    const deps = createMockDepsWithEmbeddings({
+      searchResults: [{ ...chunk('Close', 0.1), chunk_text: text }],
+    });
+    vi.mocked(deps.embeddingsDB!.getTiddlerEmbeddings).mockReturnValue([[1, 0]]);
+
+    const result = await handleSearchTiddlers({ similarTo: 'Seed' }, deps);
+    const parsed = parseToolResultJson<{ results: Array<{ snippet: string }> }>(result);
+    const snippet = parsed.results[0].snippet;
+
+    expect(snippet.startsWith('Opening words of the close match.')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+
+  it('should work without an embedding provider', async () => {
+    const deps = { ...setup(), embeddingProvider: null };
+
+    const result = await handleSearchTiddlers({ similarTo: 'Seed' }, deps);
+
+    expect(result.isError).toBeUndefined();
+  });
+
+  it('should return an error when the seed is not indexed', async () => {
+    const deps = createMockDepsWithEmbeddings();
+
+    const result = await handleSearchTiddlers({ similarTo: 'Nowhere' }, deps);
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe(
+      'Tiddler is not indexed: Nowhere'
+    );
+  });
+
+  it('should reject similarTo combined with semantic or hybrid mode', async () => {
+    const deps = setup();
+
+    await expect(handleSearchTiddlers({ similarTo: 'Seed', semantic: 'x' }, deps)).rejects.toThrow(
+      'Provide either semantic or similarTo, not both'
+    );
+    await expect(
+      handleSearchTiddlers({ similarTo: 'Seed', mode: 'hybrid' }, deps)
+    ).rejects.toThrow();
+  });
+});
+
+describe('handleSearchAcrossWikis', () => {
+  const hit = (title: string, distance: number) => ({
+    tiddler_title: title,
+    chunk_id: 0,
+    chunk_text: `${title} text`,
+    distance,
+    created: '20250101120000000',
+    modified: '20250101120000000',
+    tags: '',
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should merge results from every wiki by score and label their source', async () => {
+    const journal = createMockDepsWithEmbeddings({
+      indexedCount: 3,
+      searchResults: [hit('Morning pages', 0.1), hit('Evening notes', 0.5)],
+    });
+    const team = createMockDepsWithEmbeddings({
+      indexedCount: 7,
+      searchResults: [hit('Standup', 0.3)],
+    });
+
+    const result = await handleSearchAcrossWikis({ semantic: 'routines', limit: 2 }, [
+      { name: 'journal', url: 'http://journal', deps: journal },
+      { name: 'team', url: 'http://team', deps: team },
+    ]);
+    const parsed = parseToolResultJson<{
+      wikis: string[];
+      indexed_tiddlers: Record<string, number>;
+      results: Array<{ wiki: string; tiddler_title: string; similarity_score: string }>;
+    }>(result);
+
+    expect(result.isError).toBeUndefined();
+    expect(parsed.wikis).toEqual(['journal', 'team']);
+    expect(parsed.indexed_tiddlers).toEqual({ journal: 3, team: 7 });
+    expect(parsed.results.map((r) => [r.wiki, r.tiddler_title])).toEqual([
+      ['journal', 'Morning pages'],
+      ['team', 'Standup'],
+    ]);
+    expect(mockRunWithWiki.mock.calls.map(([wiki]) => wiki)).toEqual(['journal', 'team']);
+  });
+
+  it('should report wikis that cannot be searched', async () => {
+    const result = await handleSearchAcrossWikis({ semantic: 'routines' }, [
+      {
+        name: 'journal',
+        url: 'http://journal',
+        deps: createMockDepsWithEmbeddings({ searchResults: [hit('Morning pages', 0.1)] }),
+      },
+      { name: 'team', url: 'http://team', deps: createMockDepsWithoutEmbeddings() },
+    ]);
+    const parsed = parseToolResultJson<{
+      results: Array<{ wiki: string }>;
+      unavailable: Array<{ wiki: string; error: string }>;
+    }>(result);
+
+    expect(result.isError).toBeUndefined();
+    expect(parsed.results).toHaveLength(1);
+    expect(parsed.unavailable).toEqual([
+      { wiki: 'team', error: 'Semantic search is not available' },
+    ]);
+  });
+
+  it('should report wikis whose search throws instead of failing the whole search', async () => {
+    const journal = createMockDepsWithEmbeddings({ searchResults: [hit('Morning pages', 0.1)] });
+    const team = createMockDepsWithEmbeddings();
+    vi.mocked(team.embeddingsDB!.searchSimilar).mockImplementation(() => {
+      throw new Error('Wiki "team" is unavailable');
+    });
+
+    const result = await handleSearchAcrossWikis({ semantic: 'routines' }, [
+      { name: 'journal', url: 'http://journal', deps: journal },
+      { name: 'team', url: 'http://team', deps: team },
+    ]);
+    const parsed = parseToolResultJson<{
+      results: Array<{ wiki: string }>;
+      unavailable: Array<{ wiki: string; error: string }>;
+    }>(result);
+
+    expect(result.isError).toBeUndefined();
+    expect(parsed.results.map((r) => r.wiki)).toEqual(['journal']);
+    expect(parsed.unavailable).toEqual([{ wiki: 'team', error: 'Wiki "team" is unavailable' }]);
+  });
+
+  it('should embed the query once for wikis sharing a provider and model', async () => {
+    const journal = createMockDepsWithEmbeddings({ searchResults: [hit('Morning pages', 0.1)] });
+    const team = createMockDepsWithEmbeddings({ searchResults: [hit('Standup', 0.3)] });
+    const archive = createMockDepsWithEmbeddings();
+    Object.assign(archive.embeddingProvider!, { model: 'other-model' });
+
+    await handleSearchAcrossWikis({ semantic: 'routines' }, [
+      { name: 'journal', url: 'http://journal', deps: journal },
+      { name: 'team', url: 'http://team', deps: team },
+      { name: 'archive', url: 'http://archive', deps: archive },
+    ]);
+
+    const calls = [journal, team, archive].map(
+      (deps) => vi.mocked(deps.embeddingProvider!.generateQueryEmbedding).mock.calls.length
+    );
+    expect(calls).toEqual([1, 0, 1]);
+    expect(team.embeddingsDB!.searchSimilar).toHaveBeenCalled();
+  });
+
+  it('should report a failing embedding provider for every wiki that uses it', async () => {
+    const journal = createMockDepsWithEmbeddings();
+    const team = createMockDepsWithEmbeddings();
+    vi.mocked(journal.embeddingProvider!.generateQueryEmbedding).mockRejectedValue(
+      new Error('Embedding request timed out after 30000ms')
+    );
+
+    const result = await handleSearchAcrossWikis({ semantic: 'routines' }, [
+      { name: 'journal', url: 'http://journal', deps: journal },
+      { name: 'team', url: 'http://team', deps: team },
+    ]);
+    const parsed = parseToolResultJson<{ unavailable: Array<{ wiki: string }> }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.unavailable.map((u) => u.wiki)).toEqual(['journal', 'team']);
+  });
+
+  it('should fail when no wiki can be searched', async () => {
+    const result = await handleSearchAcrossWikis({ semantic: 'routines' }, [
+      { name: 'team', url: 'http://team', deps: createMockDepsWithoutEmbeddings() },
+    ]);
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe(
+      'Semantic search is not available in any wiki'
+    );
+  });
+
+  it('should require a semantic query', async () => {
+    const deps = createMockDepsWithEmbeddings();
+
+    const result = await handleSearchAcrossWikis({ similarTo: 'Seed' }, [
+      { name: 'journal', url: 'http://journal', deps },
+    ]);
+
+    expect(result.isError).toBe(true);
+    expect(parseToolResultJson<{ error: string }>(result).error).toBe(
+      'Searching several wikis requires a semantic query'
+    );
+  });
+});
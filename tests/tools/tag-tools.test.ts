@@ -0,0 +1,303 @@
+// ABOUTME: Tests for the add_tags, remove_tags and rename_tag MCP tool handlers
+// ABOUTME: Covers multi-word tags, filter targets, approval, and moving the tag tiddler
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleAddTags, handleRemoveTags } from '../../src/tools/tag-tiddlers.js';
+import { handleRenameTag } from '../../src/tools/rename-tag.js';
+import {
+  createMockTiddler,
+  createApprovingContext,
+  createMockDepsWithoutEmbeddings,
+  createMockDepsWithEmbeddings,
+  parseToolResultJson,
+} from './test-utils.js';
+
+const approve = createApprovingContext();
+const noDeps = createMockDepsWithoutEmbeddings();
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  getTiddler: vi.fn(),
+  putTiddler: vi.fn(),
+  deleteTiddler: vi.fn(),
+  queryTiddlers: vi.fn(),
+  queryTiddlersWithText: vi.fn(),
+  updateTiddlerObject: vi.fn().mockImplementation(
+    (current: Record<string, unknown>, updates: Record<string, unknown>, modifier: string) => ({
+      ...current,
+      ...updates,
+      modifier,
+      modified: '20250101130000000',
+      revision: undefined,
+    })
+  ),
+  getAuthUser: vi.fn().mockReturnValue('test-user'),
+  getWikiName: vi.fn().mockReturnValue('default'),
+  getTiddlerEtag: vi.fn().mockImplementation((t: { revision?: number }) =>
+    t.revision !== undefined ? `"default/etag/${t.revision}:"` : null
+  ),
+}));
+
+import {
+  getTiddler,
+  putTiddler,
+  deleteTiddler,
+  queryTiddlers,
+  queryTiddlersWithText,
+} from '../../src/tiddlywiki-http.js';
+
+describe('handleAddTags', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(putTiddler).mockResolvedValue(undefined);
+  });
+
+  it('should add a multi-word tag to one tiddler without breaking existing tags', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(
+      createMockTiddler({ tags: '[[Project Alpha]] todo', revision: 2 })
+    );
+
+    const result = await handleAddTags(
+      { title: 'Test Tiddler', tags: ['Multi Word', 'todo'] },
+      noDeps,
+      approve
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(putTiddler).toHaveBeenCalledWith(
+      expect.objectContaining({ tags: '[[Project Alpha]] todo [[Multi Word]]' }),
+      { ifMatch: '"default/etag/2:"' }
+    );
+    expect(parseToolResultJson<{ updated: string[] }>(result).updated).toEqual(['Test Tiddler']);
+  });
+
+  it('should invalidate the tag cache after tagging, even without a sync worker', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ tags: '' }));
+    const invalidate = vi.spyOn(noDeps.tagCache, 'invalidate');
+
+    await handleAddTags({ title: 'Test Tiddler', tags: ['fresh'] }, noDeps, approve);
+
+    expect(invalidate).toHaveBeenCalled();
+    invalidate.mockRestore();
+  });
+
+  it('should accept tags as a TiddlyWiki list string', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ tags: '' }));
+
+    await handleAddTags({ title: 'Test Tiddler', tags: '[[Multi Word]] solo' }, noDeps, approve);
+
+    expect(vi.mocked(putTiddler).mock.calls[0][0].tags).toBe('[[Multi Word]] solo');
+  });
+
+  it('should change only filter matches that need it and preview them', async () => {
+    vi.mocked(queryTiddlersWithText).mockResolvedValue({
+      tiddlers: [
+        createMockTiddler({ title: 'A', tags: 'Inbox' }),
+        createMockTiddler({ title: 'B', tags: 'Inbox done' }),
+      ],
+      unreadable: [],
+    });
+
+    const result = await handleAddTags({ filter: '[tag[Inbox]]', tags: ['done'] }, noDeps);
+
+    expect(queryTiddlersWithText).toHaveBeenCalledWith('[tag[Inbox]]', 0, 501);
+    expect(result.content[0].text).toContain('## Proposed: Add done on 1 tiddler');
+    expect(result.content[0].text).toContain('- "A": +done');
+    expect(result.content[0].text).toContain('(1 already tagged)');
+    expect(putTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should change nothing when a filter match cannot be read', async () => {
+    vi.mocked(queryTiddlersWithText).mockResolvedValue({
+      tiddlers: [createMockTiddler({ title: 'A', tags: 'Inbox' })],
+      unreadable: [{ title: 'B', error: 'Request timed out' }],
+    });
+
+    const result = await handleAddTags({ filter: '[tag[Inbox]]', tags: ['done'] }, noDeps, approve);
+    const parsed = parseToolResultJson<{ unreadable: unknown[] }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.unreadable).toEqual([{ title: 'B', error: 'Request timed out' }]);
+    expect(putTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should require exactly one of title or filter', async () => {
+    await expect(handleAddTags({ tags: ['x'] }, noDeps, approve)).rejects.toThrow();
+    await expect(
+      handleAddTags({ title: 'A', filter: '[tag[x]]', tags: ['x'] }, noDeps, approve)
+    ).rejects.toThrow();
+  });
+});
+
+describe('handleRemoveTags', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(putTiddler).mockResolvedValue(undefined);
+  });
+
+  it('should remove a multi-word tag and report per-tiddler failures', async () => {
+    vi.mocked(queryTiddlersWithText).mockResolvedValue({
+      tiddlers: [
+        createMockTiddler({ title: 'A', tags: '[[Multi Word]] keep' }),
+        createMockTiddler({ title: 'B', tags: '[[Multi Word]]' }),
+      ],
+      unreadable: [],
+    });
+    vi.mocked(putTiddler)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Server error'));
+
+    const result = await handleRemoveTags(
+      { filter: '[tag[Multi Word]]', tags: ['Multi Word'] },
+      noDeps,
+      approve
+    );
+    const parsed = parseToolResultJson<{ updated: string[]; failed: Array<{ title: string }> }>(
+      result
+    );
+
+    expect(result.isError).toBe(true);
+    expect(vi.mocked(putTiddler).mock.calls[0][0].tags).toBe('keep');
+    expect(parsed.updated).toEqual(['A']);
+    expect(parsed.failed).toEqual([{ title: 'B', error: 'Server error' }]);
+  });
+
+  it('should report no changes when the tag is absent', async () => {
+    vi.mocked(getTiddler).mockResolvedValue(createMockTiddler({ tags: 'other' }));
+
+    const result = await handleRemoveTags({ title: 'Test Tiddler', tags: ['x'] }, noDeps, approve);
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('No changes');
+    expect(putTiddler).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleRenameTag', () => {
+  const tagTiddler = createMockTiddler({ title: 'Old Tag', text: 'About this tag', list: 'B A' });
+  const a = createMockTiddler({ title: 'A', tags: 'x [[Old Tag]] y', revision: 1 });
+  const b = createMockTiddler({ title: 'B', tags: '[[Old Tag]]', revision: 2 });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(putTiddler).mockResolvedValue(undefined);
+    vi.mocked(deleteTiddler).mockResolvedValue(undefined);
+    vi.mocked(queryTiddlers).mockResolvedValue([a, b]);
+    vi.mocked(getTiddler).mockImplementation(async (title: string) =>
+      title === 'A' ? a : title === 'B' ? b : title === 'Old Tag' ? tagTiddler : null
+    );
+  });
+
+  it('should retag tiddlers in place and move the tag tiddler', async () => {
+    const deps = createMockDepsWithEmbeddings();
+
+    const result = await handleRenameTag({ tag: 'Old Tag', newTag: 'New Tag' }, deps, approve);
+    const parsed = parseToolResultJson<{ retagged: string[]; tagTiddlerMoved: boolean }>(result);
+
+    expect(queryTiddlers).toHaveBeenCalledWith('[tag[Old Tag]]');
+    expect(putTiddler).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'New Tag', text: 'About this tag', list: 'B A' })
+    );
+    expect(putTiddler).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'A', tags: 'x [[New Tag]] y' }),
+      { ifMatch: '"default/etag/1:"' }
+    );
+    expect(deleteTiddler).toHaveBeenCalledWith('Old Tag', undefined);
+    expect(parsed.retagged).toEqual(['A', 'B']);
+    expect(parsed.tagTiddlerMoved).toBe(true);
+    expect(deps.syncWorker?.renameTiddler).toHaveBeenCalledWith(
+      'Old Tag',
+      expect.objectContaining({ title: 'New Tag' }),
+      false
+    );
+  });
+
+  /** Back the wiki mocks with a store so tests can check which tiddlers exist afterwards */
+  function mockStore(failOn: string[]): Map<string, Record<string, unknown>> {
+    const store = new Map<string, Record<string, unknown>>(
+      [tagTiddler, a, b].map((t) => [t.title, t as unknown as Record<string, unknown>])
+    );
+    vi.mocked(getTiddler).mockImplementation(
+      async (title: string) => (store.get(title) as never) ?? null
+    );
+    vi.mocked(putTiddler).mockImplementation(async (tiddler) => {
+      if (failOn.includes(tiddler.title)) {
+        throw new Error('Server error');
+      }
+      store.set(tiddler.title, tiddler as unknown as Record<string, unknown>);
+    });
+    vi.mocked(deleteTiddler).mockImplementation(async (title: string) => {
+      store.delete(title);
+    });
+    return store;
+  }
+
+  it('should keep both tag tiddlers when only some retags fail', async () => {
+    const store = mockStore(['B']);
+
+    const result = await handleRenameTag({ tag: 'Old Tag', newTag: 'New Tag' }, noDeps, approve);
+    const parsed = parseToolResultJson<{ retagged: string[]; tagTiddlerMoved: boolean }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.retagged).toEqual(['A']);
+    expect(parsed.tagTiddlerMoved).toBe(false);
+    expect(store.get('A')).toMatchObject({ tags: 'x [[New Tag]] y' });
+    expect(store.get('B')).toMatchObject({ tags: '[[Old Tag]]' });
+    expect(store.get('New Tag')).toMatchObject({ text: 'About this tag', list: 'B A' });
+    expect(store.get('Old Tag')).toMatchObject({ text: 'About this tag' });
+  });
+
+  it('should remove the new tag tiddler when no retag succeeds', async () => {
+    const store = mockStore(['A', 'B']);
+
+    const result = await handleRenameTag({ tag: 'Old Tag', newTag: 'New Tag' }, noDeps, approve);
+
+    expect(result.isError).toBe(true);
+    expect(store.has('New Tag')).toBe(false);
+    expect(store.get('Old Tag')).toMatchObject({ text: 'About this tag' });
+  });
+
+  it('should change nothing when a tagged tiddler cannot be read', async () => {
+    const store = mockStore([]);
+    vi.mocked(getTiddler).mockImplementation(async (title: string) => {
+      if (title === 'B') {
+        throw new Error('Request timed out');
+      }
+      return (store.get(title) as never) ?? null;
+    });
+
+    const result = await handleRenameTag({ tag: 'Old Tag', newTag: 'New Tag' }, noDeps, approve);
+    const parsed = parseToolResultJson<{ unreadable: unknown[] }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.unreadable).toEqual([{ title: 'B', error: 'Request timed out' }]);
+    expect(putTiddler).not.toHaveBeenCalled();
+    expect(deleteTiddler).not.toHaveBeenCalled();
+  });
+
+  it('should report a new tag tiddler that cannot be created without retagging', async () => {
+    const store = mockStore(['New Tag']);
+
+    const result = await handleRenameTag({ tag: 'Old Tag', newTag: 'New Tag' }, noDeps, approve);
+    const parsed = parseToolResultJson<{
+      retagged: string[];
+      failed: Array<{ title: string; error: string }>;
+    }>(result);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.retagged).toEqual([]);
+    expect(parsed.failed).toEqual([{ title: 'New Tag', error: 'Server error' }]);
+    expect(store.get('A')).toMatchObject({ tags: 'x [[Old Tag]] y' });
+    expect(store.has('Old Tag')).toBe(true);
+  });
+
+  it('should only retag when the new tag tiddler already exists', async () => {
+    vi.mocked(getTiddler).mockImplementation(async (title: string) =>
+      title === 'A' ? a : title === 'B' ? b : createMockTiddler({ title })
+    );
+
+    const result = await handleRenameTag({ tag: 'Old Tag', newTag: 'Taken' }, noDeps);
+
+    expect(result.content[0].text).toContain('"Old Tag" kept');
+    expect(result.content[0].text).toContain('### Retagged (2)');
+  });
+});
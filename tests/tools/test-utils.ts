@@ -1,9 +1,11 @@
 // ABOUTME: Test utilities and mock factories for tool handler tests
-// ABOUTME: Provides reusable mocks for TiddlyWiki client, embeddings, and Ollama
+// ABOUTME: Provides reusable mocks for TiddlyWiki client, embeddings, and the embedding provider
 
 import { vi } from 'vitest';
 import type { Tiddler } from '../../src/tiddlywiki-http.js';
 import type { ToolDependencies } from '../../src/tools/types.js';
+import type { ApprovalContext } from '../../src/tools/approval.js';
+import { TagCache } from '../../src/tags.js';
 
 /**
  * Create a mock tiddler for testing
@@ -28,8 +30,9 @@ export function createMockTiddler(overrides: Partial<Tiddler> = {}): Tiddler {
 export function createMockDepsWithoutEmbeddings(): ToolDependencies {
   return {
     embeddingsDB: null,
-    ollamaClient: null,
+    embeddingProvider: null,
     syncWorker: null,
+    tagCache: new TagCache(),
   };
 }
 
@@ -42,23 +45,36 @@ export function createMockDepsWithEmbeddings(
     searchResults: Array<{
       tiddler_title: string;
       chunk_id: number;
+      chunk_text?: string;
       distance: number;
       created: string;
       modified: string;
       tags: string;
     }>;
+    keywordResults: Array<{
+      tiddler_title: string;
+      chunk_id: number;
+      bm25: number;
+      created: string;
+      modified: string;
+      tags: string;
+    }>;
     queryEmbedding: number[];
   }> = {}
 ): ToolDependencies {
   const {
     indexedCount = 10,
     searchResults = [],
+    keywordResults = [],
     queryEmbedding = new Array(768).fill(0.1),
   } = overrides;
 
   const mockEmbeddingsDB = {
     getIndexedTiddlersCount: vi.fn().mockReturnValue(indexedCount),
     searchSimilar: vi.fn().mockReturnValue(searchResults),
+    searchKeyword: vi.fn().mockReturnValue(keywordResults),
+    getTiddlerEmbeddings: vi.fn().mockReturnValue([]),
+    getEmbeddingsByTiddler: vi.fn().mockReturnValue(new Map()),
     insertEmbedding: vi.fn(),
     deleteEmbeddingsForTiddler: vi.fn(),
     updateSyncStatus: vi.fn(),
@@ -66,12 +82,15 @@ export function createMockDepsWithEmbeddings(
     close: vi.fn(),
   };
 
-  const mockOllamaClient = {
+  const mockEmbeddingProvider = {
+    name: 'mock',
+    model: 'mock-model',
     generateQueryEmbedding: vi.fn().mockResolvedValue(queryEmbedding),
     generateDocumentEmbedding: vi.fn().mockResolvedValue(queryEmbedding),
+    generateDocumentEmbeddings: vi.fn().mockResolvedValue([queryEmbedding]),
     generateEmbeddings: vi.fn().mockResolvedValue([queryEmbedding]),
     healthCheck: vi.fn().mockResolvedValue(true),
-    splitTextIntoChunks: vi.fn().mockImplementation((text: string) => [text]),
+    chunkText: vi.fn().mockImplementation((text: string) => [text]),
     countTokens: vi.fn().mockReturnValue(100),
   };
 
@@ -85,12 +104,35 @@ export function createMockDepsWithEmbeddings(
     start: vi.fn().mockResolvedValue(undefined),
     stop: vi.fn(),
     syncNow: vi.fn().mockResolvedValue(undefined),
+    refreshTiddler: vi.fn().mockResolvedValue('indexed'),
+    refreshInBackground: vi.fn(),
+    removeTiddler: vi.fn().mockResolvedValue(undefined),
+    renameTiddler: vi.fn().mockResolvedValue(undefined),
   };
 
   return {
     embeddingsDB: mockEmbeddingsDB as unknown as ToolDependencies['embeddingsDB'],
-    ollamaClient: mockOllamaClient as unknown as ToolDependencies['ollamaClient'],
+    embeddingProvider: mockEmbeddingProvider as unknown as ToolDependencies['embeddingProvider'],
     syncWorker: mockSyncWorker as unknown as ToolDependencies['syncWorker'],
+    tagCache: new TagCache(),
+  };
+}
+
+/**
+ * Create an approval context whose elicitation always approves
+ */
+export function createApprovingContext(): ApprovalContext {
+  return {
+    elicit: vi.fn().mockResolvedValue(true),
+  };
+}
+
+/**
+ * Create an approval context whose elicitation always declines
+ */
+export function createDecliningContext(): ApprovalContext {
+  return {
+    elicit: vi.fn().mockResolvedValue(false),
   };
 }
 
@@ -124,7 +166,11 @@ export function mockTiddlyWikiHttp() {
       })
     ),
     getAuthUser: vi.fn().mockReturnValue('test-user'),
+    getWikiName: vi.fn().mockReturnValue('default'),
+    getTiddlerEtag: vi.fn().mockReturnValue(null),
+    getTiddlerSnapshot: vi.fn().mockReturnValue(null),
     initTiddlyWiki: vi.fn(),
+    runWithWiki: vi.fn((_wiki: string, fn: () => unknown) => fn()),
   };
 }
 
@@ -0,0 +1,37 @@
+// ABOUTME: Tests for bounded-concurrency helpers
+// ABOUTME: Verifies the in-flight limit, result order and per-item failure reporting
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../../src/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should return settled results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      if (index === 1) throw new Error('boom');
+      return ms * 2;
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 60 });
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: new Error('boom') });
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 40 });
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createEmbeddingProvider } from '../../../src/embeddings/create-provider.js';
+import { OllamaClient } from '../../../src/embeddings/ollama-client.js';
+import { OpenAICompatibleClient } from '../../../src/embeddings/openai-client.js';
+
+describe('createEmbeddingProvider', () => {
+  it('should default to Ollama', () => {
+    const provider = createEmbeddingProvider({});
+
+    expect(provider).toBeInstanceOf(OllamaClient);
+    expect(provider.name).toBe('ollama');
+  });
+
+  it('should create an OpenAI-compatible provider', () => {
+    const provider = createEmbeddingProvider({
+      EMBEDDINGS_PROVIDER: 'openai',
+      EMBEDDINGS_URL: 'http://localhost:8080',
+    });
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleClient);
+  });
+
+  it('should require EMBEDDINGS_URL for the openai provider', () => {
+    expect(() => createEmbeddingProvider({ EMBEDDINGS_PROVIDER: 'openai' })).toThrow(
+      'EMBEDDINGS_URL is required'
+    );
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createEmbeddingProvider({ EMBEDDINGS_PROVIDER: 'cohere' })).toThrow(
+      'Invalid EMBEDDINGS_PROVIDER: cohere'
+    );
+  });
+
+  it('should apply prefix overrides, including empty prefixes', async () => {
+    const provider = createEmbeddingProvider({
+      EMBEDDINGS_QUERY_PREFIX: 'Represent this query: ',
+      EMBEDDINGS_DOCUMENT_PREFIX: '',
+    });
+    const spy = vi.spyOn(provider, 'generateEmbeddings').mockResolvedValue([[0.1]]);
+
+    await provider.generateQueryEmbedding('q');
+    await provider.generateDocumentEmbeddings(['d']);
+
+    expect(spy).toHaveBeenNthCalledWith(1, ['Represent this query: q']);
+    expect(spy).toHaveBeenNthCalledWith(2, ['d']);
+  });
+});
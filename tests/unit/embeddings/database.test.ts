@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { EmbeddingsDB } from '../../../src/embeddings/database.js';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import * as sqliteVec from 'sqlite-vec';
+import { EmbeddingsDB, EmbeddingModelMismatchError } from '../../../src/embeddings/database.js';
 
 describe('EmbeddingsDB', () => {
   let db: EmbeddingsDB;
@@ -323,4 +328,222 @@ describe('EmbeddingsDB', () => {
       db2.close();
     });
   });
+
+  describe('searchKeyword', () => {
+    const metadata = { created: '', modified: '', tags: '' };
+
+    it('should find chunks containing rare terms', () => {
+      db.insertEmbedding('Space', 0, Array(768).fill(0.1), 'Notes about the NASA budget', metadata);
+      db.insertEmbedding('Garden', 0, Array(768).fill(0.2), 'Tomatoes and basil', metadata);
+
+      const results = db.searchKeyword('nasa', 10);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].tiddler_title).toBe('Space');
+      expect(results[0].chunk_text).toContain('NASA');
+      expect(typeof results[0].bm25).toBe('number');
+    });
+
+    it('should match titles as well as chunk text', () => {
+      db.insertEmbedding('Kubernetes', 0, Array(768).fill(0.1), 'Cluster notes', metadata);
+
+      expect(db.searchKeyword('kubernetes', 10)[0].tiddler_title).toBe('Kubernetes');
+    });
+
+    it('should rank chunks matching more query terms first', () => {
+      db.insertEmbedding('One', 0, Array(768).fill(0.1), 'apple pie', metadata);
+      db.insertEmbedding('Both', 0, Array(768).fill(0.1), 'apple and banana pie', metadata);
+
+      const results = db.searchKeyword('apple banana', 10);
+
+      expect(results[0].tiddler_title).toBe('Both');
+      expect(results).toHaveLength(2);
+    });
+
+    it('should ignore FTS5 syntax characters in the query', () => {
+      db.insertEmbedding('Quotes', 0, Array(768).fill(0.1), 'He said hello', metadata);
+
+      expect(() => db.searchKeyword('"hello" AND (NEAR*', 10)).not.toThrow();
+      expect(db.searchKeyword('"hello" AND (NEAR*', 10)).toHaveLength(1);
+      expect(db.searchKeyword('***', 10)).toEqual([]);
+    });
+
+    it('should drop deleted tiddlers from the full-text index', () => {
+      db.insertEmbedding('Temp', 0, Array(768).fill(0.1), 'ephemeral words', metadata);
+
+      db.deleteEmbeddingsForTiddler('Temp');
+
+      expect(db.searchKeyword('ephemeral', 10)).toEqual([]);
+    });
+  });
+
+  describe('title-restricted search', () => {
+    const metadata = { created: '', modified: '', tags: '' };
+
+    beforeEach(() => {
+      // 20 "noise" tiddlers close to the query, 3 journal tiddlers far from it
+      for (let i = 0; i < 20; i++) {
+        db.insertEmbedding(`Noise ${i}`, 0, Array(768).fill(0.5), `noise text ${i}`, metadata);
+      }
+      for (let i = 0; i < 3; i++) {
+        db.insertEmbedding(`Journal ${i}`, 0, Array(768).fill(-0.5 - i), `journal text ${i}`, metadata);
+      }
+    });
+
+    it('should return the nearest chunks among the given titles only', () => {
+      const results = db.searchSimilar(Array(768).fill(0.5), 2, [
+        'Journal 0',
+        'Journal 1',
+        'Journal 2',
+      ]);
+
+      expect(results.map((r) => r.tiddler_title)).toEqual(['Journal 0', 'Journal 1']);
+    });
+
+    it('should return nothing for an empty title list', () => {
+      expect(db.searchSimilar(Array(768).fill(0.5), 5, [])).toEqual([]);
+      expect(db.searchKeyword('journal', 5, [])).toEqual([]);
+    });
+
+    it('should restrict keyword search to the given titles', () => {
+      const results = db.searchKeyword('text', 10, ['Journal 2', 'Noise 3']);
+
+      expect(results.map((r) => r.tiddler_title).sort()).toEqual(['Journal 2', 'Noise 3']);
+    });
+  });
+
+  describe('getTiddlerEmbeddings', () => {
+    const metadata = { created: '', modified: '', tags: '' };
+
+    it('should return the stored vectors in chunk order', () => {
+      db.insertEmbedding('Long', 1, Array(768).fill(0.25), 'second', metadata);
+      db.insertEmbedding('Long', 0, Array(768).fill(-0.5), 'first', metadata);
+      db.insertEmbedding('Other', 0, Array(768).fill(1), 'other', metadata);
+
+      const vectors = db.getTiddlerEmbeddings('Long');
+
+      expect(vectors).toHaveLength(2);
+      expect(vectors[0]).toHaveLength(768);
+      expect(vectors[0][0]).toBe(-0.5);
+      expect(vectors[1][767]).toBe(0.25);
+    });
+
+    it('should return nothing for a tiddler that is not indexed', () => {
+      expect(db.getTiddlerEmbeddings('Missing')).toEqual([]);
+    });
+
+    it('should read many tiddlers at once, optionally restricted by title', () => {
+      db.insertEmbedding('A', 0, Array(768).fill(0.25), 'a', metadata);
+      db.insertEmbedding('B', 0, Array(768).fill(0.5), 'b0', metadata);
+      db.insertEmbedding('B', 1, Array(768).fill(0.75), 'b1', metadata);
+
+      const all = db.getEmbeddingsByTiddler();
+      expect([...all.keys()]).toEqual(['A', 'B']);
+      expect(all.get('B')!.map((v) => v[0])).toEqual([0.5, 0.75]);
+
+      const some = db.getEmbeddingsByTiddler(['B', 'Missing']);
+      expect([...some.keys()]).toEqual(['B']);
+    });
+  });
+
+  describe('model and dimension tracking', () => {
+    const metadata = { created: '', modified: '', tags: '' };
+    let dir: string;
+    let dbPath: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'embeddings-test-'));
+      dbPath = join(dir, 'embeddings.db');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    function seed(options: { model: string; dimension: number }) {
+      const seeded = new EmbeddingsDB(dbPath, options);
+      seeded.insertEmbedding('Seeded', 0, Array(options.dimension).fill(0.1), 'seeded text', metadata);
+      seeded.updateSyncStatus('Seeded', '20250101000000000', 1);
+      seeded.close();
+    }
+
+    it('should default to nomic-embed-text with 768 dimensions', () => {
+      expect(db.getIndexInfo()).toEqual({ model: 'nomic-embed-text', dimension: 768 });
+    });
+
+    it('should create the vector table with the configured dimension', () => {
+      const small = new EmbeddingsDB(':memory:', { model: 'all-minilm', dimension: 384 });
+
+      small.insertEmbedding('Small', 0, Array(384).fill(0.1), 'text', metadata);
+      expect(small.searchSimilar(Array(384).fill(0.1), 5)).toHaveLength(1);
+      expect(() => small.insertEmbedding('Wrong', 0, Array(768).fill(0.1), 'text', metadata)).toThrow(
+        'Embedding has 768 dimensions but the index expects 384'
+      );
+
+      small.close();
+    });
+
+    it('should keep the index when reopened with the same model', () => {
+      seed({ model: 'nomic-embed-text', dimension: 768 });
+
+      const reopened = new EmbeddingsDB(dbPath, { model: 'nomic-embed-text', dimension: 768 });
+
+      expect(reopened.getEmbeddingsCount()).toBe(1);
+      expect(reopened.getIndexedTiddlersCount()).toBe(1);
+      reopened.close();
+    });
+
+    it('should clear the index when the model changes', () => {
+      seed({ model: 'nomic-embed-text', dimension: 768 });
+
+      const reopened = new EmbeddingsDB(dbPath, { model: 'mxbai-embed-large', dimension: 1024 });
+
+      expect(reopened.getEmbeddingsCount()).toBe(0);
+      expect(reopened.getIndexedTiddlersCount()).toBe(0);
+      expect(reopened.searchKeyword('seeded')).toEqual([]);
+      expect(reopened.getIndexInfo()).toEqual({ model: 'mxbai-embed-large', dimension: 1024 });
+      reopened.insertEmbedding('New', 0, Array(1024).fill(0.1), 'text', metadata);
+      expect(reopened.getEmbeddingsCount()).toBe(1);
+      reopened.close();
+    });
+
+    it('should clear the index when only the model name changes', () => {
+      seed({ model: 'nomic-embed-text', dimension: 768 });
+
+      const reopened = new EmbeddingsDB(dbPath, { model: 'bge-base-en', dimension: 768 });
+
+      expect(reopened.getEmbeddingsCount()).toBe(0);
+      reopened.close();
+    });
+
+    it('should refuse to open a mismatched index when configured to fail', () => {
+      seed({ model: 'nomic-embed-text', dimension: 768 });
+
+      expect(
+        () =>
+          new EmbeddingsDB(dbPath, { model: 'bge-m3', dimension: 1024, onModelChange: 'fail' })
+      ).toThrow(EmbeddingModelMismatchError);
+
+      // The existing index is left untouched
+      const reopened = new EmbeddingsDB(dbPath, { model: 'nomic-embed-text', dimension: 768 });
+      expect(reopened.getEmbeddingsCount()).toBe(1);
+      reopened.close();
+    });
+
+    it('should adopt an index created before model tracking when the dimension matches', () => {
+      const legacy = new Database(dbPath);
+      sqliteVec.load(legacy);
+      legacy.exec('CREATE VIRTUAL TABLE entry_embeddings USING vec0(embedding float[768])');
+      legacy
+        .prepare('INSERT INTO entry_embeddings(rowid, embedding) VALUES (1, ?)')
+        .run(Buffer.from(new Float32Array(768).fill(0.1).buffer));
+      legacy.close();
+
+      const reopened = new EmbeddingsDB(dbPath, { model: 'nomic-embed-text', dimension: 768 });
+
+      expect(reopened.getEmbeddingsCount()).toBe(1);
+      expect(reopened.getIndexInfo().model).toBe('nomic-embed-text');
+      reopened.close();
+    });
+  });
 });
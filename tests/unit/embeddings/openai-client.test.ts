@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OpenAICompatibleClient } from '../../../src/embeddings/openai-client.js';
+
+describe('OpenAICompatibleClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('generateEmbeddings', () => {
+    it('should POST to /v1/embeddings and return embeddings in input order', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: [
+            { index: 1, embedding: [0.2] },
+            { index: 0, embedding: [0.1] },
+          ],
+        }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new OpenAICompatibleClient({
+        serviceUrl: 'http://localhost:8080',
+        model: 'nomic-embed-text',
+      });
+      const result = await client.generateEmbeddings(['first', 'second']);
+
+      expect(result).toEqual([[0.1], [0.2]]);
+      const [url, options] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/v1/embeddings');
+      expect(JSON.parse(options.body)).toEqual({
+        model: 'nomic-embed-text',
+        input: ['first', 'second'],
+      });
+      expect(options.headers.Authorization).toBeUndefined();
+    });
+
+    it('should not duplicate /v1 and should send the API key as a bearer token', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ data: [{ index: 0, embedding: [0.1] }] }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new OpenAICompatibleClient({
+        serviceUrl: 'http://vllm:8000/v1/',
+        model: 'bge-m3',
+        apiKey: 'secret',
+      });
+      await client.generateEmbeddings(['text']);
+
+      const [url, options] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://vllm:8000/v1/embeddings');
+      expect(options.headers.Authorization).toBe('Bearer secret');
+    });
+
+    it('should throw with the status and body when the server returns an error', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({ ok: false, status: 400, text: async () => 'input too long' })
+      );
+
+      const client = new OpenAICompatibleClient({ serviceUrl: 'http://localhost:8080', model: 'm' });
+
+      await expect(client.generateEmbeddings(['text'])).rejects.toThrow(
+        'Embeddings API error (400): input too long'
+      );
+    });
+
+    it('should throw when the number of embeddings does not match the inputs', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({ ok: true, json: async () => ({ data: [] }) })
+      );
+
+      const client = new OpenAICompatibleClient({ serviceUrl: 'http://localhost:8080', model: 'm' });
+
+      await expect(client.generateEmbeddings(['text'])).rejects.toThrow(
+        'returned 0 embeddings for 1 inputs'
+      );
+    });
+  });
+
+  describe('task prefixes', () => {
+    it('should not add prefixes by default', async () => {
+      const client = new OpenAICompatibleClient({ serviceUrl: 'http://localhost:8080', model: 'm' });
+      const spy = vi.spyOn(client, 'generateEmbeddings').mockResolvedValue([[0.1]]);
+
+      await client.generateQueryEmbedding('my query');
+
+      expect(spy).toHaveBeenCalledWith(['my query']);
+    });
+
+    it('should use configured prefixes', async () => {
+      const client = new OpenAICompatibleClient({
+        serviceUrl: 'http://localhost:8080',
+        model: 'm',
+        prefixes: { query: 'search_query: ', document: 'search_document: ' },
+      });
+      const spy = vi.spyOn(client, 'generateEmbeddings').mockResolvedValue([[0.1]]);
+
+      await client.generateDocumentEmbeddings(['my doc']);
+
+      expect(spy).toHaveBeenCalledWith(['search_document: my doc']);
+    });
+  });
+
+  describe('healthCheck', () => {
+    it('should check GET /v1/models', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = new OpenAICompatibleClient({ serviceUrl: 'http://localhost:8080', model: 'm' });
+
+      expect(await client.healthCheck()).toBe(true);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/models');
+    });
+
+    it('should return false when the server is not responding', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('Connection refused')));
+
+      const client = new OpenAICompatibleClient({ serviceUrl: 'http://localhost:8080', model: 'm' });
+
+      expect(await client.healthCheck()).toBe(false);
+    });
+  });
+});
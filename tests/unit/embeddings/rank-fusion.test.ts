@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { reciprocalRankFusion, RRF_K } from '../../../src/embeddings/rank-fusion.js';
+
+describe('reciprocalRankFusion', () => {
+  const key = (item: { id: string }) => item.id;
+
+  it('should score items by 1 / (k + rank)', () => {
+    const fused = reciprocalRankFusion({ a: [{ id: 'x' }, { id: 'y' }] }, key);
+
+    expect(fused.map((f) => f.key)).toEqual(['x', 'y']);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 1));
+    expect(fused[1].score).toBeCloseTo(1 / (RRF_K + 2));
+  });
+
+  it('should rank items found by several signals above single-signal items', () => {
+    const fused = reciprocalRankFusion(
+      {
+        vector: [{ id: 'only-vector' }, { id: 'both' }],
+        keyword: [{ id: 'only-keyword' }, { id: 'both' }],
+      },
+      key
+    );
+
+    expect(fused[0].key).toBe('both');
+    expect(fused[0].ranks).toEqual({ vector: 2, keyword: 2 });
+    expect(fused).toHaveLength(3);
+  });
+
+  it('should record ranks only for the signals an item appeared in', () => {
+    const fused = reciprocalRankFusion({ vector: [{ id: 'a' }], keyword: [{ id: 'b' }] }, key);
+
+    expect(fused.find((f) => f.key === 'a')!.ranks).toEqual({ vector: 1 });
+    expect(fused.find((f) => f.key === 'b')!.ranks).toEqual({ keyword: 1 });
+  });
+
+  it('should count only the best rank when a list repeats a key', () => {
+    const fused = reciprocalRankFusion({ a: [{ id: 'x' }, { id: 'x' }] }, key);
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 1));
+  });
+
+  it('should return an empty list when there are no results', () => {
+    expect(reciprocalRankFusion({ vector: [], keyword: [] }, key)).toEqual([]);
+  });
+});
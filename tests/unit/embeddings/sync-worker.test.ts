@@ -5,9 +5,20 @@ import { OllamaClient } from '../../../src/embeddings/ollama-client.js';
 import type { Tiddler } from '../../../src/tiddlywiki-http.js';
 
 // Mock the dependencies
-vi.mock('../../../src/tiddlywiki-http.js', () => ({
-  queryTiddlers: vi.fn()
-}));
+vi.mock('../../../src/tiddlywiki-http.js', () => {
+  const queryTiddlers = vi.fn();
+  return {
+    queryTiddlers,
+    // Text is fetched from the tiddlers the mocked wiki lists
+    getTiddlers: vi.fn(async (titles: string[]) => {
+      const listed: Tiddler[] = (await queryTiddlers('[!is[system]sort[title]]', false)) ?? [];
+      return titles.map((title) => ({
+        status: 'fulfilled',
+        value: listed.find((t) => t.title === title) ?? null,
+      }));
+    }),
+  };
+});
 
 describe('SyncWorker - Re-indexing Bug', () => {
   let db: EmbeddingsDB;
@@ -39,7 +50,7 @@ describe('SyncWorker - Re-indexing Bug', () => {
     };
 
     // Mock queryTiddlers to return our test tiddler
-    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    const { queryTiddlers, getTiddlers } = await import('../../../src/tiddlywiki-http.js');
     vi.mocked(queryTiddlers).mockResolvedValue([tiddlerWithoutModified]);
 
     // Mock Ollama client methods
@@ -69,15 +80,15 @@ describe('SyncWorker - Re-indexing Bug', () => {
     const storedTimestamp = syncStatus!.last_modified;
 
     // Clear the mock call history
-    vi.mocked(queryTiddlers).mockClear();
+    vi.mocked(getTiddlers).mockClear();
 
     // SECOND SYNC: Should NOT re-index (the bug causes re-indexing here)
     await syncWorker.forceSync();
 
-    // Check if queryTiddlers was called with includeText: true for individual tiddler
-    // If it was called with [title[Index - 2015-12]], that means it tried to re-index
-    const reIndexCalls = vi.mocked(queryTiddlers).mock.calls.filter(
-      call => call[0].includes('[title[Index - 2015-12]]') && call[1] === true
+    // Check if getTiddlers was asked for the tiddler's text
+    // If it was, that means it tried to re-index
+    const reIndexCalls = vi.mocked(getTiddlers).mock.calls.filter(
+      call => call[0].includes('Index - 2015-12')
     );
 
     // ASSERTION: Should NOT have tried to re-index
@@ -197,7 +208,7 @@ describe('SyncWorker - Re-indexing Bug', () => {
       modified: '20250101120000000'
     };
 
-    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    const { queryTiddlers, getTiddlers } = await import('../../../src/tiddlywiki-http.js');
     vi.mocked(queryTiddlers).mockResolvedValue([emptyTiddler]);
 
     vi.spyOn(ollama, 'healthCheck').mockResolvedValue(true);
@@ -214,14 +225,14 @@ describe('SyncWorker - Re-indexing Bug', () => {
     expect(syncStatus!.total_chunks).toBe(0);
 
     // Clear mock history
-    vi.mocked(queryTiddlers).mockClear();
+    vi.mocked(getTiddlers).mockClear();
 
     // SECOND SYNC: Should NOT re-process the empty tiddler
     await syncWorker.forceSync();
 
     // Verify it wasn't re-indexed (no calls to fetch full content)
-    const reIndexCalls = vi.mocked(queryTiddlers).mock.calls.filter(
-      call => call[0].includes('[title[Empty Tiddler]]') && call[1] === true
+    const reIndexCalls = vi.mocked(getTiddlers).mock.calls.filter(
+      call => call[0].includes('Empty Tiddler')
     );
     expect(reIndexCalls.length).toBe(0);
   });
@@ -281,7 +292,7 @@ describe('SyncWorker - Re-indexing Bug', () => {
       modified: '20250101120000000'
     };
 
-    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    const { queryTiddlers, getTiddlers } = await import('../../../src/tiddlywiki-http.js');
     vi.mocked(queryTiddlers).mockResolvedValue([largeTiddler]);
 
     vi.spyOn(ollama, 'healthCheck').mockResolvedValue(true);
@@ -305,14 +316,14 @@ describe('SyncWorker - Re-indexing Bug', () => {
     expect(syncStatus!.total_chunks).toBe(0);
 
     // Clear mock history
-    vi.mocked(queryTiddlers).mockClear();
+    vi.mocked(getTiddlers).mockClear();
 
     // SECOND SYNC (immediately after): Should NOT retry yet (24h not passed)
     await syncWorker.forceSync();
 
     // Verify it wasn't re-indexed
-    const reIndexCalls = vi.mocked(queryTiddlers).mock.calls.filter(
-      call => call[0].includes('[title[Oversized Tiddler]]') && call[1] === true
+    const reIndexCalls = vi.mocked(getTiddlers).mock.calls.filter(
+      call => call[0].includes('Oversized Tiddler')
     );
     expect(reIndexCalls.length).toBe(0);
   });
@@ -369,3 +380,304 @@ describe('SyncWorker - Re-indexing Bug', () => {
     expect(syncStatus!.total_chunks).toBe(1);
   });
 });
+
+describe('SyncWorker - Pruning deleted tiddlers', () => {
+  let db: EmbeddingsDB;
+  let ollama: OllamaClient;
+  let syncWorker: SyncWorker;
+
+  beforeEach(() => {
+    db = new EmbeddingsDB(':memory:');
+    ollama = new OllamaClient();
+    vi.spyOn(ollama, 'healthCheck').mockResolvedValue(true);
+    vi.spyOn(ollama, 'chunkText').mockImplementation((text: string) => [text]);
+    vi.spyOn(ollama, 'generateDocumentEmbeddings').mockResolvedValue([Array(768).fill(0.1)]);
+  });
+
+  afterEach(() => {
+    if (syncWorker) {
+      syncWorker.stop();
+    }
+    db.close();
+  });
+
+  it('should remove embeddings for tiddlers deleted from the wiki', async () => {
+    const keep: Tiddler = { title: 'Keep', text: 'Keep me', modified: '20250101000000000' };
+    const gone: Tiddler = { title: 'Gone', text: 'Delete me', modified: '20250101000000000' };
+
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockImplementation(async (filter: string) => {
+      if (filter === '[title[Keep]]') return [keep];
+      if (filter === '[title[Gone]]') return [gone];
+      return [keep, gone];
+    });
+
+    syncWorker = new SyncWorker(db, ollama, { enabled: false });
+    await syncWorker.forceSync();
+    expect(db.getIndexedTiddlersCount()).toBe(2);
+
+    // "Gone" is deleted in the wiki
+    vi.mocked(queryTiddlers).mockImplementation(async () => [keep]);
+    await syncWorker.forceSync();
+
+    expect(db.getSyncStatus('Gone')).toBeUndefined();
+    expect(db.getSyncStatus('Keep')).toBeDefined();
+    expect(db.getEmbeddingsCount()).toBe(1);
+    expect(db.searchSimilar(Array(768).fill(0.1), 10).map((r) => r.tiddler_title)).toEqual([
+      'Keep',
+    ]);
+  });
+
+  it('should replace the old title when a tiddler is renamed', async () => {
+    const original: Tiddler = { title: 'Old Name', text: 'Body', modified: '20250101000000000' };
+    const renamed: Tiddler = { title: 'New Name', text: 'Body', modified: '20250101000000000' };
+
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([original]);
+
+    syncWorker = new SyncWorker(db, ollama, { enabled: false });
+    await syncWorker.forceSync();
+
+    vi.mocked(queryTiddlers).mockResolvedValue([renamed]);
+    await syncWorker.forceSync();
+
+    expect(db.getSyncStatus('Old Name')).toBeUndefined();
+    expect(db.getSyncStatus('New Name')).toBeDefined();
+    expect(db.getIndexedTiddlersCount()).toBe(1);
+  });
+
+  it('should not prune anything when the wiki returns no tiddlers', async () => {
+    db.updateSyncStatus('Existing', '20250101000000000', 1);
+
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([]);
+
+    syncWorker = new SyncWorker(db, ollama, { enabled: false });
+    await syncWorker.forceSync();
+
+    expect(db.getSyncStatus('Existing')).toBeDefined();
+  });
+});
+
+describe('SyncWorker - Immediate refresh', () => {
+  let db: EmbeddingsDB;
+  let ollama: OllamaClient;
+  let syncWorker: SyncWorker;
+
+  beforeEach(() => {
+    db = new EmbeddingsDB(':memory:');
+    ollama = new OllamaClient();
+    vi.spyOn(ollama, 'chunkText').mockImplementation((text: string) => [text]);
+    vi.spyOn(ollama, 'generateDocumentEmbeddings').mockResolvedValue([Array(768).fill(0.1)]);
+    syncWorker = new SyncWorker(db, ollama, { enabled: false });
+  });
+
+  afterEach(() => {
+    syncWorker.stop();
+    db.close();
+  });
+
+  it('should index a single tiddler on demand', async () => {
+    const note: Tiddler = { title: 'Fresh', text: 'Just written', modified: '20250101000000000' };
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([note]);
+
+    const status = await syncWorker.refreshTiddler(note);
+
+    expect(status).toBe('indexed');
+    expect(db.getSyncStatus('Fresh')!.last_modified).toBe('20250101000000000');
+    expect(db.getEmbeddingsCount()).toBe(1);
+  });
+
+  it('should not duplicate chunks when the same tiddler is refreshed concurrently', async () => {
+    const note: Tiddler = { title: 'Busy', text: 'Content', modified: '20250101000000000' };
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([note]);
+
+    await Promise.all([syncWorker.refreshTiddler(note), syncWorker.refreshTiddler(note)]);
+
+    expect(db.getEmbeddingsCount()).toBe(1);
+  });
+
+  it('should skip titles the sync cycle never indexes', async () => {
+    const titles = ['$:/config/Setting', '/home/me/wiki/Note.tid', 'Draft.tid'];
+
+    for (const title of titles) {
+      const status = await syncWorker.refreshTiddler({ title, text: 'Content' });
+      expect(status).toBe('skipped');
+    }
+
+    expect(ollama.generateDocumentEmbeddings).not.toHaveBeenCalled();
+    expect(db.getEmbeddingsCount()).toBe(0);
+  });
+
+  it('should refresh in the background without waiting for the provider', async () => {
+    const note: Tiddler = { title: 'Slow', text: 'Content', modified: '20250101000000000' };
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([note]);
+    let respond: (vectors: number[][]) => void = () => {};
+    vi.spyOn(ollama, 'generateDocumentEmbeddings').mockReturnValue(
+      new Promise((resolve) => (respond = resolve))
+    );
+
+    syncWorker.refreshInBackground([note]);
+
+    expect(db.getEmbeddingsCount()).toBe(0);
+    await vi.waitFor(() => expect(ollama.generateDocumentEmbeddings).toHaveBeenCalled());
+    respond([Array(768).fill(0.1)]);
+    await vi.waitFor(() => expect(db.getEmbeddingsCount()).toBe(1));
+  });
+
+  it('should clear the sync status when the refresh fails so the next sync retries', async () => {
+    const note: Tiddler = { title: 'Flaky', text: 'Content', modified: '20250101000000000' };
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([note]);
+    vi.spyOn(ollama, 'generateDocumentEmbeddings').mockRejectedValue(new Error('Ollama down'));
+
+    const status = await syncWorker.refreshTiddler(note);
+
+    expect(status).toBe('error');
+    expect(db.getSyncStatus('Flaky')).toBeUndefined();
+  });
+
+  it('should remove a tiddler on demand', async () => {
+    db.insertEmbedding('Doomed', 0, Array(768).fill(0.1), 'text', {
+      created: '',
+      modified: '',
+      tags: '',
+    });
+    db.updateSyncStatus('Doomed', '20250101000000000', 1);
+
+    await syncWorker.removeTiddler('Doomed');
+
+    expect(db.getSyncStatus('Doomed')).toBeUndefined();
+    expect(db.getEmbeddingsCount()).toBe(0);
+  });
+
+  it('should move embeddings on rename without re-embedding unchanged content', async () => {
+    db.insertEmbedding('Before', 0, Array(768).fill(0.1), 'text', { created: '', modified: '', tags: '' });
+    db.updateSyncStatus('Before', '20250101000000000', 1);
+    const renamed: Tiddler = { title: 'After', text: 'text', modified: '20250102000000000' };
+
+    await syncWorker.renameTiddler('Before', renamed, false);
+
+    expect(ollama.generateDocumentEmbeddings).not.toHaveBeenCalled();
+    expect(db.getSyncStatus('Before')).toBeUndefined();
+    expect(db.getSyncStatus('After')!.last_modified).toBe('20250102000000000');
+    expect(db.searchSimilar(Array(768).fill(0.1), 5)[0].tiddler_title).toBe('After');
+    expect(db.searchKeyword('text')[0].tiddler_title).toBe('After');
+  });
+
+  it('should re-index a renamed tiddler whose content changed', async () => {
+    db.insertEmbedding('Before', 0, Array(768).fill(0.1), 'old', { created: '', modified: '', tags: '' });
+    db.updateSyncStatus('Before', '20250101000000000', 1);
+    const renamed: Tiddler = { title: 'After', text: 'new', modified: '20250102000000000' };
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([renamed]);
+
+    await syncWorker.renameTiddler('Before', renamed, true);
+
+    expect(db.getSyncStatus('Before')).toBeUndefined();
+    await vi.waitFor(() => expect(db.getEmbeddingsCount()).toBe(1));
+    expect(ollama.generateDocumentEmbeddings).toHaveBeenCalledWith(['new']);
+  });
+});
+
+
+describe('SyncWorker - Change notifications', () => {
+  let db: EmbeddingsDB;
+  let ollama: OllamaClient;
+  let syncWorker: SyncWorker;
+
+  beforeEach(() => {
+    db = new EmbeddingsDB(':memory:');
+    ollama = new OllamaClient();
+    vi.spyOn(ollama, 'healthCheck').mockResolvedValue(true);
+    vi.spyOn(ollama, 'chunkText').mockImplementation((text: string) => [text]);
+    vi.spyOn(ollama, 'generateDocumentEmbeddings').mockResolvedValue([Array(768).fill(0.1)]);
+    syncWorker = new SyncWorker(db, ollama, { enabled: false });
+  });
+
+  afterEach(() => {
+    syncWorker.stop();
+    db.close();
+  });
+
+  it('should notify listeners only when a sync cycle finds changes', async () => {
+    const note: Tiddler = { title: 'Note', text: 'Hello', modified: '20250101000000000' };
+    const { queryTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([note]);
+    const listener = vi.fn();
+    syncWorker.onChange(listener);
+
+    await syncWorker.forceSync();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    await syncWorker.forceSync();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify listeners when a tiddler is removed on demand', async () => {
+    const listener = vi.fn();
+    syncWorker.onChange(listener);
+
+    await syncWorker.removeTiddler('Anything');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('SyncWorker - Fetching text', () => {
+  let db: EmbeddingsDB;
+  let ollama: OllamaClient;
+  let syncWorker: SyncWorker;
+
+  beforeEach(() => {
+    db = new EmbeddingsDB(':memory:');
+    ollama = new OllamaClient();
+    vi.spyOn(ollama, 'healthCheck').mockResolvedValue(true);
+    vi.spyOn(ollama, 'chunkText').mockImplementation((text: string) => [text]);
+    vi.spyOn(ollama, 'generateDocumentEmbeddings').mockResolvedValue([Array(768).fill(0.1)]);
+    syncWorker = new SyncWorker(db, ollama, { enabled: false, batchSize: 5 });
+  });
+
+  afterEach(() => {
+    syncWorker.stop();
+    db.close();
+  });
+
+  it('should fetch the text of each batch with one call', async () => {
+    const notes: Tiddler[] = ['A', 'B', 'C'].map((title) => ({
+      title,
+      text: `About ${title}`,
+      modified: '20250101000000000',
+    }));
+    const { queryTiddlers, getTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue(notes);
+    vi.mocked(getTiddlers).mockClear();
+
+    await syncWorker.forceSync();
+
+    expect(getTiddlers).toHaveBeenCalledTimes(1);
+    expect(getTiddlers).toHaveBeenCalledWith(['A', 'B', 'C']);
+    expect(db.getIndexedTiddlersCount()).toBe(3);
+  });
+
+  it('should leave a tiddler whose text could not be fetched to the next sync', async () => {
+    const note: Tiddler = { title: 'Unreachable', modified: '20250101000000000' };
+    const { queryTiddlers, getTiddlers } = await import('../../../src/tiddlywiki-http.js');
+    vi.mocked(queryTiddlers).mockResolvedValue([note]);
+    vi.mocked(getTiddlers).mockResolvedValueOnce([
+      { status: 'rejected', reason: new Error('Wiki "default" is unavailable') },
+    ]);
+    vi.mocked(getTiddlers).mockResolvedValueOnce([
+      { status: 'rejected', reason: new Error('Wiki "default" is unavailable') },
+    ]);
+
+    await syncWorker.forceSync();
+
+    // Not marked empty, which would skip it until it's modified again
+    expect(db.getSyncStatus('Unreachable')).toBeUndefined();
+    expect(getTiddlers).toHaveBeenLastCalledWith(['Unreachable']);
+  });
+});
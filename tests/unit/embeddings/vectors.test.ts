@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { meanPool, normalize, dot } from '../../../src/embeddings/vectors.js';
+
+describe('meanPool', () => {
+  it('should return a single vector unchanged', () => {
+    expect(meanPool([[1, 2, 3]])).toEqual([1, 2, 3]);
+  });
+
+  it('should average the direction and keep the mean chunk length', () => {
+    const pooled = meanPool([
+      [2, 0],
+      [0, 2],
+    ]);
+
+    expect(pooled[0]).toBeCloseTo(Math.SQRT2);
+    expect(pooled[1]).toBeCloseTo(Math.SQRT2);
+  });
+
+  it('should return the zero mean of opposite vectors as is', () => {
+    expect(
+      meanPool([
+        [1, 0],
+        [-1, 0],
+      ])
+    ).toEqual([0, 0]);
+  });
+});
+
+describe('normalize and dot', () => {
+  it('should give cosine similarity as the dot product of normalized vectors', () => {
+    expect(dot(normalize([3, 0]), normalize([5, 5]))).toBeCloseTo(Math.SQRT1_2);
+    expect(dot(normalize([1, 2]), normalize([2, 4]))).toBeCloseTo(1);
+  });
+
+  it('should map a zero vector to zeros', () => {
+    expect(Array.from(normalize([0, 0]))).toEqual([0, 0]);
+  });
+});
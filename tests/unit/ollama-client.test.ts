@@ -150,6 +150,32 @@ describe('OllamaClient', () => {
     });
   });
 
+  describe('task prefixes', () => {
+    it('should use nomic-embed-text prefixes by default', async () => {
+      const spy = vi.spyOn(client, 'generateEmbeddings').mockResolvedValue([[0.1]]);
+
+      await client.generateQueryEmbedding('my query');
+      await client.generateDocumentEmbeddings(['my doc']);
+
+      expect(spy).toHaveBeenNthCalledWith(1, ['search_query: my query']);
+      expect(spy).toHaveBeenNthCalledWith(2, ['search_document: my doc']);
+    });
+
+    it('should use configured prefixes', async () => {
+      const custom = new OllamaClient('http://localhost:11434', 'bge-m3', {
+        query: 'query: ',
+        document: '',
+      });
+      const spy = vi.spyOn(custom, 'generateEmbeddings').mockResolvedValue([[0.1]]);
+
+      await custom.generateQueryEmbedding('my query');
+      await custom.generateDocumentEmbeddings(['my doc']);
+
+      expect(spy).toHaveBeenNthCalledWith(1, ['query: my query']);
+      expect(spy).toHaveBeenNthCalledWith(2, ['my doc']);
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return true when Ollama is healthy', async () => {
       global.fetch = vi.fn().mockResolvedValue({ ok: true });
@@ -0,0 +1,73 @@
+// ABOUTME: Tests for retry backoff and the circuit breaker
+// ABOUTME: Checks jittered delay bounds and the closed/open/half-open transitions
+
+import { describe, it, expect } from 'vitest';
+import { backoffDelay, CircuitBreaker } from '../../src/resilience.js';
+
+describe('backoffDelay', () => {
+  it('should scale the upper bound exponentially with the attempt', () => {
+    expect(backoffDelay(0, 100, 10000, () => 1)).toBe(100);
+    expect(backoffDelay(3, 100, 10000, () => 1)).toBe(800);
+    expect(backoffDelay(3, 100, 10000, () => 0.5)).toBe(400);
+  });
+
+  it('should cap the delay', () => {
+    expect(backoffDelay(10, 100, 2000, () => 1)).toBe(2000);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 3, openDurationMs: 1000 };
+
+  it('should open after the failure threshold and refuse requests', () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.tryAcquire(0)).toBe(true);
+    breaker.recordFailure(0);
+
+    expect(breaker.tryAcquire(500)).toBe(false);
+    expect(breaker.getStatus()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      retryAt: new Date(1000).toISOString(),
+    });
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+
+    expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('should let one trial request through once the open duration has passed', () => {
+    const breaker = new CircuitBreaker({ ...options, failureThreshold: 1 });
+    breaker.recordFailure(0);
+
+    expect(breaker.tryAcquire(1000)).toBe(true);
+    expect(breaker.getStatus().state).toBe('half-open');
+    expect(breaker.tryAcquire(1000)).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus().state).toBe('closed');
+    expect(breaker.tryAcquire(1000)).toBe(true);
+  });
+
+  it('should reopen when the trial request fails', () => {
+    const breaker = new CircuitBreaker(options);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+    expect(breaker.tryAcquire(1000)).toBe(true);
+    breaker.recordFailure(1000);
+
+    expect(breaker.getStatus().state).toBe('open');
+    expect(breaker.tryAcquire(1500)).toBe(false);
+    expect(breaker.tryAcquire(2000)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+// ABOUTME: Tests for tag listing: counts, tag tiddler metadata, hierarchy and caching
+// ABOUTME: Uses a mocked TiddlyWiki client to check queries and cache invalidation
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { summarizeTags, loadTagSnapshot, TagCache, type TagSnapshot } from '../../src/tags.js';
+
+vi.mock('../../src/tiddlywiki-http.js', () => ({
+  queryTiddlers: vi.fn(),
+}));
+
+import { queryTiddlers } from '../../src/tiddlywiki-http.js';
+
+function mockWiki() {
+  vi.mocked(queryTiddlers).mockImplementation(async (filter: string) => {
+    if (filter === '[all[tiddlers]has[tags]]') {
+      return [
+        { title: 'Day 1', tags: 'Journal [[Project Alpha]]' },
+        { title: 'Day 2', tags: 'Journal' },
+        { title: 'Project Alpha', tags: 'Projects' },
+        { title: '$:/config/x', tags: '$:/tags/Stylesheet Journal' },
+      ];
+    }
+    return [
+      { title: 'Journal', color: '#ff0000', fields: { icon: '$:/icons/book' } },
+      { title: 'Project Alpha', tags: 'Projects', caption: 'Alpha' },
+    ];
+  });
+}
+
+describe('summarizeTags', () => {
+  let snapshot: TagSnapshot;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockWiki();
+    snapshot = await loadTagSnapshot();
+  });
+
+  it('should count usage and attach tag tiddler fields', () => {
+    const tags = summarizeTags(snapshot);
+    const journal = tags.find((t) => t.tag === 'Journal');
+
+    expect(journal).toMatchObject({ count: 2, color: '#ff0000', icon: '$:/icons/book' });
+    expect(tags.find((t) => t.tag === 'Project Alpha')).toMatchObject({
+      count: 1,
+      caption: 'Alpha',
+    });
+  });
+
+  it('should link tags that are themselves tagged', () => {
+    const tags = summarizeTags(snapshot);
+
+    expect(tags.find((t) => t.tag === 'Project Alpha')!.parents).toEqual(['Projects']);
+    expect(tags.find((t) => t.tag === 'Projects')!.children).toEqual(['Project Alpha']);
+  });
+
+  it('should leave out system tags and system taggers unless asked', () => {
+    expect(summarizeTags(snapshot).map((t) => t.tag)).not.toContain('$:/tags/Stylesheet');
+
+    const withSystem = summarizeTags(snapshot, true);
+    expect(withSystem.map((t) => t.tag)).toContain('$:/tags/Stylesheet');
+    expect(withSystem.find((t) => t.tag === 'Journal')!.count).toBe(3);
+  });
+});
+
+describe('TagCache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWiki();
+  });
+
+  it('should reuse the snapshot until invalidated', async () => {
+    const cache = new TagCache();
+
+    await cache.get();
+    await cache.get();
+    expect(queryTiddlers).toHaveBeenCalledTimes(2); // one load, two queries
+
+    cache.invalidate();
+    await cache.get();
+    expect(queryTiddlers).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reload after the TTL expires', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new TagCache(1000);
+      await cache.get();
+      vi.advanceTimersByTime(1001);
+      await cache.get();
+
+      expect(queryTiddlers).toHaveBeenCalledTimes(4);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not cache a failed load', async () => {
+    const cache = new TagCache();
+    vi.mocked(queryTiddlers).mockRejectedValueOnce(new Error('offline'));
+
+    await expect(cache.get()).rejects.toThrow('offline');
+    mockWiki();
+    await expect(cache.get()).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,96 @@
+// ABOUTME: Tests for partial tiddler text edits
+// ABOUTME: Covers append/prepend, exact and regex replace, heading inserts and patches
+
+import { describe, it, expect } from 'vitest';
+import { createTwoFilesPatch } from 'diff';
+import { applyTextEdit, applyTextEdits, TextEditError } from '../../src/text-edits.js';
+
+describe('applyTextEdit', () => {
+  it('should append and prepend on their own lines', () => {
+    expect(applyTextEdit('body', { mode: 'append', text: 'tail' }, true)).toBe('body\ntail');
+    expect(applyTextEdit('body\n', { mode: 'append', text: 'tail' }, true)).toBe('body\ntail');
+    expect(applyTextEdit('body', { mode: 'prepend', text: 'head' }, true)).toBe('head\nbody');
+    expect(applyTextEdit('', { mode: 'append', text: 'only' }, true)).toBe('only');
+  });
+
+  it('should replace a unique exact match', () => {
+    expect(applyTextEdit('a $1 b', { mode: 'replace', find: '$1', replace: '$&' }, true)).toBe(
+      'a $& b'
+    );
+  });
+
+  it('should fail when the exact match is missing or ambiguous', () => {
+    expect(() => applyTextEdit('abc', { mode: 'replace', find: 'x', replace: 'y' }, true)).toThrow(
+      'was not found'
+    );
+    expect(() => applyTextEdit('a a', { mode: 'replace', find: 'a', replace: 'b' }, true)).toThrow(
+      'occurs 2 times'
+    );
+    expect(applyTextEdit('a a', { mode: 'replace', find: 'a', replace: 'b', all: true }, true)).toBe(
+      'b b'
+    );
+  });
+
+  it('should replace with a regular expression and capture groups', () => {
+    const edit = { mode: 'regex' as const, pattern: '(\\d+)-(\\d+)', replace: '$2-$1' };
+    expect(applyTextEdit('1-2 and 3-4', edit, true)).toBe('2-1 and 4-3');
+    expect(applyTextEdit('1-2 and 3-4', { ...edit, flags: '' }, true)).toBe('2-1 and 3-4');
+    expect(() => applyTextEdit('none', edit, true)).toThrow('did not match');
+    expect(() => applyTextEdit('x', { ...edit, pattern: '(' }, true)).toThrow(TextEditError);
+  });
+
+  it('should insert at the start or end of a wikitext section', () => {
+    const text = '! One\nalpha\n!! Sub\nbeta\n\n! Two\ngamma';
+
+    expect(
+      applyTextEdit(text, { mode: 'insert_at_heading', heading: 'One', text: 'new' }, false)
+    ).toBe('! One\nalpha\n!! Sub\nbeta\nnew\n\n! Two\ngamma');
+    expect(
+      applyTextEdit(
+        text,
+        { mode: 'insert_at_heading', heading: 'one', text: 'new', position: 'start' },
+        false
+      )
+    ).toBe('! One\nnew\nalpha\n!! Sub\nbeta\n\n! Two\ngamma');
+  });
+
+  it('should list available headings when the heading is missing', () => {
+    try {
+      applyTextEdit('# A\n# B', { mode: 'insert_at_heading', heading: 'C', text: 'x' }, true);
+      expect.fail('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TextEditError);
+      expect((error as TextEditError).details.headings).toEqual(['A', 'B']);
+    }
+  });
+
+  it('should apply a unified diff and reject one that does not match', () => {
+    const patch = createTwoFilesPatch('t', 't', 'one\ntwo\nthree\n', 'one\n2\nthree\n');
+
+    expect(applyTextEdit('one\ntwo\nthree\n', { mode: 'patch', patch }, true)).toBe(
+      'one\n2\nthree\n'
+    );
+    expect(() => applyTextEdit('something else\n', { mode: 'patch', patch }, true)).toThrow(
+      'does not apply'
+    );
+  });
+});
+
+describe('applyTextEdits', () => {
+  it('should apply edits in order and name the edit that failed', () => {
+    expect(
+      applyTextEdits(
+        'draft',
+        [
+          { mode: 'replace', find: 'draft', replace: 'final' },
+          { mode: 'append', text: 'end' },
+        ],
+        true
+      )
+    ).toBe('final\nend');
+
+    expect(() =>
+      applyTextEdits('draft', [{ mode: 'append', text: 'x' }, { mode: 'replace', find: 'y', replace: 'z' }], true)
+    ).toThrow('Edit 1 (replace): Text to replace was not found');
+  });
+});
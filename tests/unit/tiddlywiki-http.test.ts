@@ -1,8 +1,25 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   generateTimestamp,
   createTiddlerObject,
   updateTiddlerObject,
+  getTiddlerEtag,
+  getTiddlerSnapshot,
+  getTiddler,
+  getTiddlers,
+  putTiddler,
+  deleteTiddler,
+  queryTiddlers,
+  renderTiddler,
+  initTiddlyWiki,
+  runWithWiki,
+  listWikis,
+  getWikiName,
+  getAuthUser,
+  getCircuitStatus,
+  TiddlerConflictError,
+  UnknownWikiError,
+  WikiUnavailableError,
   type Tiddler
 } from '../../src/tiddlywiki-http.js';
 
@@ -151,11 +168,11 @@ describe('tiddlywiki-http', () => {
       expect(updated.revision).toBeUndefined();
     });
 
-    it('should remove bag field', () => {
-      const tiddlerWithBag = { ...currentTiddler, bag: 'default' };
+    it('should keep the bag so the write goes back to it', () => {
+      const tiddlerWithBag = { ...currentTiddler, bag: 'private' };
       const updated = updateTiddlerObject(tiddlerWithBag, { text: 'New' }, 'user');
 
-      expect(updated.bag).toBeUndefined();
+      expect(updated.bag).toBe('private');
     });
 
     it('should handle updating from text/vnd.tiddlywiki to text/markdown', () => {
@@ -222,4 +239,458 @@ describe('tiddlywiki-http', () => {
       expect(updated.modifier).toBe('batch-user');
     });
   });
+
+  describe('getTiddlerEtag', () => {
+    it('should build a TiddlyWeb ETag from bag, title and revision', () => {
+      const etag = getTiddlerEtag({ title: 'My Note', bag: 'default', revision: 12 });
+
+      expect(etag).toBe('"default/My%20Note/12:"');
+    });
+
+    it('should default the bag to "default"', () => {
+      expect(getTiddlerEtag({ title: 'Note', revision: 3 })).toBe('"default/Note/3:"');
+    });
+
+    it('should return null when the tiddler has no revision', () => {
+      expect(getTiddlerEtag({ title: 'Note' })).toBeNull();
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      initTiddlyWiki({
+        tiddlywikiUrl: 'http://wiki.test',
+        authUser: 'tester',
+        auth: { mode: 'header', header: 'X-Test-User', value: 'tester' },
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send If-Match when ifMatch is provided', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+      await putTiddler({ title: 'Note', text: 'x' }, { ifMatch: '"default/Note/3:"' });
+
+      const [, options] = fetchMock.mock.calls[0];
+      expect(options.headers['If-Match']).toBe('"default/Note/3:"');
+    });
+
+    it('should not send If-Match by default', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+      await putTiddler({ title: 'Note', text: 'x' });
+
+      const [, options] = fetchMock.mock.calls[0];
+      expect(options.headers['If-Match']).toBeUndefined();
+    });
+
+    it('should throw TiddlerConflictError on 412', async () => {
+      fetchMock.mockResolvedValue(new Response('stale', { status: 412 }));
+
+      await expect(
+        putTiddler({ title: 'Note', text: 'x' }, { ifMatch: '"default/Note/3:"' })
+      ).rejects.toBeInstanceOf(TiddlerConflictError);
+    });
+
+    it('should remember read revisions for conflict diffs', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(JSON.stringify({ title: 'Snap', text: 'v5', revision: 5 }), { status: 200 })
+      );
+
+      await getTiddler('Snap');
+
+      expect(getTiddlerSnapshot('Snap', { revision: '5' })?.text).toBe('v5');
+      expect(getTiddlerSnapshot('Snap', { revision: 4 })).toBeNull();
+    });
+  });
+
+  describe('renderTiddler', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      initTiddlyWiki({
+        tiddlywikiUrl: 'http://wiki.test',
+        authUser: 'tester',
+        auth: { mode: 'header', header: 'X-Test-User', value: 'tester' },
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should fetch the static rendering and return the page body', async () => {
+      fetchMock.mockResolvedValue(
+        new Response('<html><head><title>x</title></head><body class="tc-body">\n<p>Hi</p>\n</body></html>', {
+          status: 200,
+        })
+      );
+
+      const html = await renderTiddler('My Note');
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://wiki.test/My%20Note');
+      expect(html).toBe('<p>Hi</p>');
+    });
+
+    it('should return null when the tiddler does not exist', async () => {
+      fetchMock.mockResolvedValue(new Response('Not found', { status: 404 }));
+
+      expect(await renderTiddler('Missing')).toBeNull();
+    });
+  });
+
+  describe('recipes and bags', () => {
+    const fetchMock = vi.fn();
+    const requested = () =>
+      fetchMock.mock.calls.map(([url, options]) => `${options.method} ${url}`);
+
+    beforeEach(() => {
+      initTiddlyWiki({
+        tiddlywikiUrl: 'http://wiki.test',
+        authUser: 'tester',
+        auth: { mode: 'header', header: 'X-Test-User', value: 'tester' },
+        recipe: 'my recipe',
+        bag: 'private',
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+      fetchMock.mockImplementation(async () => new Response(null, { status: 204 }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should read through the configured recipe and report each tiddler bag', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response(JSON.stringify([{ title: 'Shared', bag: 'common' }, { title: 'Mine' }]), {
+          status: 200,
+        })
+      );
+
+      const tiddlers = await queryTiddlers('[all[tiddlers]]');
+
+      expect(requested()[0]).toBe(
+        'GET http://wiki.test/recipes/my%20recipe/tiddlers.json?filter=%5Ball%5Btiddlers%5D%5D'
+      );
+      expect(tiddlers.map((t) => t.bag)).toEqual(['common', 'private']);
+    });
+
+    it('should write tiddlers back to the bag they came from', async () => {
+      await putTiddler({ title: 'Shared', text: 'x', bag: 'common' });
+      await putTiddler({ title: 'Mine', text: 'x', bag: 'private' });
+      await putTiddler({ title: 'New', text: 'x' });
+
+      expect(requested()).toEqual([
+        'PUT http://wiki.test/bags/common/tiddlers/Shared',
+        'PUT http://wiki.test/recipes/my%20recipe/tiddlers/Mine',
+        'PUT http://wiki.test/recipes/my%20recipe/tiddlers/New',
+      ]);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).bag).toBeUndefined();
+    });
+
+    it('should delete from the given bag or the configured one', async () => {
+      await deleteTiddler('Shared', 'common');
+      await deleteTiddler('Mine');
+
+      expect(requested()).toEqual([
+        'DELETE http://wiki.test/bags/common/tiddlers/Shared',
+        'DELETE http://wiki.test/bags/private/tiddlers/Mine',
+      ]);
+    });
+
+    it('should build ETags with the configured bag when the tiddler has none', () => {
+      expect(getTiddlerEtag({ title: 'Mine', revision: 2 })).toBe('"private/Mine/2:"');
+    });
+  });
+
+  describe('retries and circuit breaker', () => {
+    const fetchMock = vi.fn();
+    const connectionError = (code: string) =>
+      Object.assign(new TypeError('fetch failed'), { cause: { code } });
+
+    beforeEach(() => {
+      initTiddlyWiki({
+        tiddlywikiUrl: 'http://wiki.test',
+        authUser: 'tester',
+        auth: { mode: 'header', header: 'X-Test-User', value: 'tester' },
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+      // No backoff delay
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should retry reads after unavailable responses and connection errors', async () => {
+      fetchMock
+        .mockResolvedValueOnce(new Response('restarting', { status: 503 }))
+        .mockRejectedValueOnce(connectionError('ECONNRESET'))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ title: 'Note' }), { status: 200 }));
+
+      const tiddler = await getTiddler('Note');
+
+      expect(tiddler?.title).toBe('Note');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(getCircuitStatus().default).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('should give up after the last attempt', async () => {
+      fetchMock.mockImplementation(async () => new Response('bad gateway', { status: 502 }));
+
+      await expect(getTiddler('Note')).rejects.toThrow('502');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry writes only when the server cannot have applied them', async () => {
+      fetchMock
+        .mockRejectedValueOnce(connectionError('ECONNREFUSED'))
+        .mockResolvedValueOnce(new Response(null, { status: 204 }));
+      await putTiddler({ title: 'Note', text: 'x' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockReset();
+      fetchMock.mockRejectedValueOnce(connectionError('ECONNRESET'));
+      await expect(putTiddler({ title: 'Note', text: 'x' })).rejects.toThrow('fetch failed');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockReset();
+      fetchMock.mockResolvedValueOnce(new Response('timeout', { status: 504 }));
+      await expect(deleteTiddler('Note')).rejects.toThrow('504');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail fast once the wiki keeps failing', async () => {
+      fetchMock.mockRejectedValue(connectionError('ECONNREFUSED'));
+
+      await expect(getTiddler('Note')).rejects.toThrow('fetch failed');
+      await expect(getTiddler('Note')).rejects.toBeInstanceOf(WikiUnavailableError);
+      await expect(queryTiddlers('[all[tiddlers]]')).rejects.toThrow(
+        'Wiki "default" is unavailable'
+      );
+
+      // Five attempts opened the circuit; later requests never reached fetch
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(getCircuitStatus().default).toMatchObject({ state: 'open', consecutiveFailures: 5 });
+    });
+  });
+
+  describe('multiple wikis', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      initTiddlyWiki({
+        tiddlywikiUrl: 'http://wiki.test',
+        authUser: 'tester',
+        auth: { mode: 'header', header: 'X-Test-User', value: 'tester' },
+      });
+      initTiddlyWiki(
+        {
+          tiddlywikiUrl: 'http://team.test',
+          authUser: 'team-bot',
+          auth: { mode: 'header', header: 'X-Team-User', value: 'team-bot' },
+        },
+        'team'
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+      fetchMock.mockImplementation(async () => new Response('Not found', { status: 404 }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send requests to the default wiki outside runWithWiki', async () => {
+      await getTiddler('Note');
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://wiki.test/recipes/default/tiddlers/Note');
+      expect(fetchMock.mock.calls[0][1].headers['X-Test-User']).toBe('tester');
+      expect(getWikiName()).toBe('default');
+    });
+
+    it('should send requests to the selected wiki with its own auth', async () => {
+      await runWithWiki('team', () => getTiddler('Note'));
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://team.test/recipes/default/tiddlers/Note');
+      expect(fetchMock.mock.calls[0][1].headers['X-Team-User']).toBe('team-bot');
+      expect(runWithWiki('team', () => getAuthUser())).toBe('team-bot');
+    });
+
+    it('should keep the selection across awaits and timers', async () => {
+      const name = await runWithWiki('team', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getWikiName();
+      });
+
+      expect(name).toBe('team');
+    });
+
+    it('should reject unknown wikis', () => {
+      expect(() => runWithWiki('nope', () => null)).toThrow(UnknownWikiError);
+      expect(() => runWithWiki('nope', () => null)).toThrow('Available: default, team');
+    });
+
+    it('should list the default wiki first', () => {
+      expect(listWikis()).toEqual(['default', 'team']);
+    });
+  });
+  describe('fetching many tiddlers', () => {
+    const fetchMock = vi.fn();
+    const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+    const requested = () => fetchMock.mock.calls.map(([url]) => url as string);
+
+    const init = (bulkText?: boolean) =>
+      initTiddlyWiki({
+        tiddlywikiUrl: 'http://wiki.test',
+        authUser: 'tester',
+        auth: { mode: 'header', header: 'X-Test-User', value: 'tester' },
+        bulkText,
+      });
+
+    beforeEach(() => {
+      init();
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should share one request between concurrent reads of a title', async () => {
+      fetchMock.mockImplementation(async () => json({ title: 'Note', text: 'Hello' }));
+
+      const [first, second] = await Promise.all([getTiddler('Note'), getTiddler('Note')]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(second);
+      expect(first).not.toBe(second);
+    });
+
+    it('should not hand a read started before a write to later readers', async () => {
+      const pending: Array<(response: Response) => void> = [];
+      fetchMock.mockImplementation(async (_url: string, options: RequestInit) =>
+        options.method === 'GET'
+          ? new Promise<Response>((resolve) => pending.push(resolve))
+          : new Response(null, { status: 204 })
+      );
+
+      const before = getTiddler('Note');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await putTiddler({ title: 'Note', text: 'New' });
+      const after = getTiddler('Note');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      pending.forEach((respond) => respond(json({ title: 'Note', text: 'New' })));
+      await Promise.all([before, after]);
+
+      expect(pending).toHaveLength(2);
+    });
+
+    it('should keep only a few text requests in flight', async () => {
+      const titles = Array.from({ length: 12 }, (_, i) => `Note ${i}`);
+      let inFlight = 0;
+      let peak = 0;
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.includes('tiddlers.json')) {
+          return json(titles.map((title) => ({ title })));
+        }
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 2));
+        inFlight--;
+        return json({ title: decodeURIComponent(url.split('/').pop()!), text: 'x' });
+      });
+
+      const tiddlers = await queryTiddlers('[tag[Notes]]', true);
+
+      expect(tiddlers).toHaveLength(12);
+      expect(peak).toBe(4);
+    });
+
+    it('should fetch text through tiddlers.json with bulkText', async () => {
+      init(true);
+      fetchMock.mockImplementation(async (url: string) =>
+        url.includes('tiddlers.json')
+          ? json([{ title: 'One', text: '1', revision: 3 }])
+          : json({ title: 'Odd] title', text: '2' })
+      );
+
+      const results = await getTiddlers(['One', 'Missing', 'Odd] title']);
+
+      expect(results.map((r) => (r.status === 'fulfilled' ? r.value?.text : r.reason))).toEqual([
+        '1',
+        undefined,
+        '2',
+      ]);
+      expect(results[1]).toEqual({ status: 'fulfilled', value: null });
+      expect(requested()).toEqual([
+        `http://wiki.test/recipes/default/tiddlers.json?filter=${encodeURIComponent('[[One]] [[Missing]]')}&exclude=revision`,
+        'http://wiki.test/recipes/default/tiddlers/Odd%5D%20title',
+      ]);
+      expect(getTiddlerSnapshot('One', { revision: 3 })?.text).toBe('1');
+    });
+
+    it('should report a failed group for each of its titles', async () => {
+      init(true);
+      fetchMock.mockImplementation(async () => new Response('nope', { status: 500 }));
+
+      const results = await getTiddlers(['One', 'Two']);
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    });
+  });
+  describe('authentication', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+      fetchMock.mockImplementation(async () => new Response('Not found', { status: 404 }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send the credentials but record the author as modifier', async () => {
+      initTiddlyWiki({
+        tiddlywikiUrl: 'http://wiki.test',
+        authUser: 'Jane',
+        auth: { mode: 'bearer', token: 'abc' },
+      });
+
+      await getTiddler('Note');
+
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({ Authorization: 'Bearer abc' });
+      expect(getAuthUser()).toBe('Jane');
+    });
+
+    it('should connect through a client with the TLS settings', async () => {
+      initTiddlyWiki({
+        tiddlywikiUrl: 'https://wiki.test',
+        authUser: 'Jane',
+        auth: { mode: 'mtls' },
+        tls: { ca: 'CA PEM', cert: 'CERT PEM', key: 'KEY PEM' },
+      });
+
+      await getTiddler('Note');
+
+      expect(fetchMock.mock.calls[0][1].dispatcher).toBeDefined();
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({});
+    });
+  });
 });
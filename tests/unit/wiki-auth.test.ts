@@ -0,0 +1,68 @@
+// ABOUTME: Tests for the authentication strategies of the wiki connection
+// ABOUTME: Covers the headers each mode sends, secret-free descriptions and the mTLS client
+
+import { describe, it, expect } from 'vitest';
+import { Agent } from 'undici';
+import { authHeaders, describeAuth, createTlsDispatcher } from '../../src/wiki-auth.js';
+
+describe('authHeaders', () => {
+  it('should send the proxy header', () => {
+    expect(authHeaders({ mode: 'header', header: 'X-Oidc-Username', value: 'me' })).toEqual({
+      'X-Oidc-Username': 'me',
+    });
+  });
+
+  it('should encode basic credentials', () => {
+    expect(authHeaders({ mode: 'basic', username: 'alice', password: 'p:ss' })).toEqual({
+      Authorization: `Basic ${Buffer.from('alice:p:ss').toString('base64')}`,
+    });
+  });
+
+  it('should send a bearer token', () => {
+    expect(authHeaders({ mode: 'bearer', token: 'abc' })).toEqual({
+      Authorization: 'Bearer abc',
+    });
+  });
+
+  it('should send a custom header set and nothing for mTLS', () => {
+    const headers = { 'X-Api-Key': 'k', 'X-Tenant': 't' };
+
+    expect(authHeaders({ mode: 'headers', headers })).toEqual(headers);
+    expect(authHeaders({ mode: 'mtls' })).toEqual({});
+  });
+});
+
+describe('describeAuth', () => {
+  it('should name the mode without revealing secrets', () => {
+    expect(describeAuth({ mode: 'basic', username: 'alice', password: 'secret' })).toBe(
+      'basic as alice'
+    );
+    expect(describeAuth({ mode: 'bearer', token: 'secret' })).toBe('bearer token');
+    expect(describeAuth({ mode: 'headers', headers: { 'X-Api-Key': 'secret' } })).toBe(
+      'headers X-Api-Key'
+    );
+  });
+
+  it('should mention the client certificate and custom CA', () => {
+    expect(describeAuth({ mode: 'mtls' }, { cert: 'c', key: 'k', ca: 'ca' })).toBe(
+      'client certificate + custom CA'
+    );
+    expect(describeAuth({ mode: 'bearer', token: 't' }, { cert: 'c', key: 'k' })).toBe(
+      'bearer token + client certificate'
+    );
+  });
+});
+
+describe('createTlsDispatcher', () => {
+  it('should use the default client without TLS settings', () => {
+    expect(createTlsDispatcher()).toBeUndefined();
+    expect(createTlsDispatcher({})).toBeUndefined();
+  });
+
+  it('should create a client for a custom CA or client certificate', async () => {
+    const dispatcher = createTlsDispatcher({ ca: 'ca' });
+
+    expect(dispatcher).toBeInstanceOf(Agent);
+    await dispatcher!.close();
+  });
+});
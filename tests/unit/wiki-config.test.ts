@@ -0,0 +1,246 @@
+// ABOUTME: Tests for reading the wiki configuration from environment variables
+// ABOUTME: Covers the single-wiki fallback, per-wiki variables, defaults and invalid setups
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadWikiConfiguration, wikiEnvSuffix } from '../../src/wiki-config.js';
+
+describe('loadWikiConfiguration', () => {
+  it('should configure a single default wiki without WIKIS', () => {
+    const config = loadWikiConfiguration({
+      TIDDLYWIKI_URL: 'http://localhost:8080',
+      AUTH_USER: 'me',
+    });
+
+    expect(config).toEqual({
+      defaultWiki: 'default',
+      wikis: [
+        {
+          name: 'default',
+          tiddlywikiUrl: 'http://localhost:8080',
+          authUser: 'me',
+          auth: { mode: 'header', header: 'X-Oidc-Username', value: 'me' },
+          embeddingsDbPath: './embeddings.db',
+          bulkText: false,
+        },
+      ],
+    });
+  });
+
+  it('should require TIDDLYWIKI_URL without WIKIS', () => {
+    expect(() => loadWikiConfiguration({})).toThrow('TIDDLYWIKI_URL');
+  });
+
+  it('should read per-wiki variables with shared fallbacks', () => {
+    const config = loadWikiConfiguration({
+      WIKIS: 'journal, team-notes',
+      AUTH_USER: 'shared-user',
+      TIDDLYWIKI_URL_JOURNAL: 'http://journal:8080',
+      TIDDLYWIKI_URL_TEAM_NOTES: 'http://team:8080',
+      AUTH_HEADER_TEAM_NOTES: 'X-Remote-User',
+      EMBEDDINGS_DB_PATH_JOURNAL: '/data/journal.db',
+    });
+
+    expect(config.defaultWiki).toBe('journal');
+    expect(config.wikis).toEqual([
+      {
+        name: 'journal',
+        tiddlywikiUrl: 'http://journal:8080',
+        authUser: 'shared-user',
+        auth: { mode: 'header', header: 'X-Oidc-Username', value: 'shared-user' },
+        embeddingsDbPath: '/data/journal.db',
+        bulkText: false,
+      },
+      {
+        name: 'team-notes',
+        tiddlywikiUrl: 'http://team:8080',
+        authUser: 'shared-user',
+        auth: { mode: 'header', header: 'X-Remote-User', value: 'shared-user' },
+        embeddingsDbPath: './embeddings-team-notes.db',
+        bulkText: false,
+      },
+    ]);
+  });
+
+  it('should read the recipe and bag, per wiki or shared', () => {
+    const config = loadWikiConfiguration({
+      WIKIS: 'journal,team',
+      TIDDLYWIKI_RECIPE: 'all',
+      TIDDLYWIKI_BAG_TEAM: 'team-bag',
+      TIDDLYWIKI_URL_JOURNAL: 'http://journal:8080',
+      TIDDLYWIKI_URL_TEAM: 'http://team:8080',
+    });
+
+    expect(config.wikis.map(({ recipe, bag }) => ({ recipe, bag }))).toEqual([
+      { recipe: 'all', bag: undefined },
+      { recipe: 'all', bag: 'team-bag' },
+    ]);
+  });
+
+  it('should turn on bulk text fetching, per wiki or shared', () => {
+    const config = loadWikiConfiguration({
+      WIKIS: 'journal,team',
+      TIDDLYWIKI_BULK_TEXT: 'true',
+      TIDDLYWIKI_BULK_TEXT_TEAM: 'false',
+      TIDDLYWIKI_URL_JOURNAL: 'http://journal:8080',
+      TIDDLYWIKI_URL_TEAM: 'http://team:8080',
+    });
+
+    expect(config.wikis.map((wiki) => wiki.bulkText)).toEqual([true, false]);
+  });
+
+  it('should put DEFAULT_WIKI first', () => {
+    const config = loadWikiConfiguration({
+      WIKIS: 'journal,team',
+      DEFAULT_WIKI: 'team',
+      TIDDLYWIKI_URL_JOURNAL: 'http://journal:8080',
+      TIDDLYWIKI_URL_TEAM: 'http://team:8080',
+    });
+
+    expect(config.defaultWiki).toBe('team');
+    expect(config.wikis.map((wiki) => wiki.name)).toEqual(['team', 'journal']);
+  });
+
+  it('should reject a DEFAULT_WIKI that is not listed', () => {
+    expect(() =>
+      loadWikiConfiguration({
+        WIKIS: 'journal',
+        DEFAULT_WIKI: 'team',
+        TIDDLYWIKI_URL_JOURNAL: 'http://journal:8080',
+      })
+    ).toThrow('DEFAULT_WIKI "team" is not listed in WIKIS');
+  });
+
+  it('should require a URL for every listed wiki', () => {
+    expect(() =>
+      loadWikiConfiguration({ WIKIS: 'journal,team', TIDDLYWIKI_URL_JOURNAL: 'http://j' })
+    ).toThrow('TIDDLYWIKI_URL_TEAM is required for wiki "team"');
+  });
+
+  it('should reject invalid, repeated and clashing names', () => {
+    const urls = { TIDDLYWIKI_URL_A_B: 'http://a', TIDDLYWIKI_URL_JOURNAL: 'http://j' };
+
+    expect(() => loadWikiConfiguration({ ...urls, WIKIS: 'my wiki' })).toThrow('Invalid wiki name');
+    expect(() => loadWikiConfiguration({ ...urls, WIKIS: 'journal,journal' })).toThrow(
+      'listed twice'
+    );
+    expect(() => loadWikiConfiguration({ ...urls, WIKIS: 'a-b,a_b' })).toThrow(
+      'would share the environment variable suffix _A_B'
+    );
+  });
+});
+
+describe('loadWikiConfiguration authentication', () => {
+  const url = { TIDDLYWIKI_URL: 'http://localhost:8080' };
+  let dir: string;
+  const secretFile = (name: string, content: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wiki-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the author apart from the credentials', () => {
+    const [wiki] = loadWikiConfiguration({
+      ...url,
+      AUTH_USER: 'Jane',
+      AUTH_MODE: 'basic',
+      AUTH_USERNAME: 'mcp-bot',
+      AUTH_PASSWORD: 'hunter2',
+    }).wikis;
+
+    expect(wiki.authUser).toBe('Jane');
+    expect(wiki.auth).toEqual({ mode: 'basic', username: 'mcp-bot', password: 'hunter2' });
+  });
+
+  it('should read secrets from files, per wiki before shared', () => {
+    const config = loadWikiConfiguration({
+      WIKIS: 'journal,team',
+      TIDDLYWIKI_URL_JOURNAL: 'http://journal:8080',
+      TIDDLYWIKI_URL_TEAM: 'http://team:8080',
+      AUTH_MODE: 'bearer',
+      AUTH_TOKEN_FILE: secretFile('shared-token', 'shared\n'),
+      AUTH_TOKEN_FILE_TEAM: secretFile('team-token', 'team\n'),
+    });
+
+    expect(config.wikis.map((wiki) => wiki.auth)).toEqual([
+      { mode: 'bearer', token: 'shared' },
+      { mode: 'bearer', token: 'team' },
+    ]);
+  });
+
+  it('should parse a custom header set', () => {
+    const [wiki] = loadWikiConfiguration({
+      ...url,
+      AUTH_MODE: 'headers',
+      AUTH_HEADERS: '{"X-Api-Key":"k","X-Tenant":"t"}',
+    }).wikis;
+
+    expect(wiki.auth).toEqual({ mode: 'headers', headers: { 'X-Api-Key': 'k', 'X-Tenant': 't' } });
+  });
+
+  it('should read the client certificate and CA for mTLS', () => {
+    const [wiki] = loadWikiConfiguration({
+      ...url,
+      AUTH_MODE: 'mtls',
+      TLS_CA_FILE: secretFile('ca.pem', 'CA PEM'),
+      TLS_CERT_FILE: secretFile('cert.pem', 'CERT PEM'),
+      TLS_KEY_FILE: secretFile('key.pem', 'KEY PEM'),
+    }).wikis;
+
+    expect(wiki.auth).toEqual({ mode: 'mtls' });
+    expect(wiki.tls).toEqual({
+      ca: 'CA PEM',
+      cert: 'CERT PEM',
+      key: 'KEY PEM',
+      passphrase: undefined,
+    });
+  });
+
+  it('should reject missing or invalid credentials', () => {
+    expect(() => loadWikiConfiguration({ ...url, AUTH_MODE: 'oauth' })).toThrow(
+      'Invalid AUTH_MODE: "oauth"'
+    );
+    expect(() =>
+      loadWikiConfiguration({ ...url, AUTH_MODE: 'basic', AUTH_USERNAME: 'bot' })
+    ).toThrow('AUTH_PASSWORD is required for AUTH_MODE=basic');
+    expect(() =>
+      loadWikiConfiguration({ ...url, AUTH_MODE: 'headers', AUTH_HEADERS: '["X-Api-Key"]' })
+    ).toThrow('AUTH_HEADERS must be a JSON object');
+    expect(() => loadWikiConfiguration({ ...url, AUTH_MODE: 'mtls' })).toThrow(
+      'TLS_CERT and TLS_KEY are required for AUTH_MODE=mtls'
+    );
+    expect(() => loadWikiConfiguration({ ...url, TLS_CERT: 'CERT PEM' })).toThrow(
+      'TLS_CERT and TLS_KEY must be set together'
+    );
+    expect(() =>
+      loadWikiConfiguration({ ...url, AUTH_MODE: 'bearer', AUTH_TOKEN_FILE: join(dir, 'nope') })
+    ).toThrow('Cannot read AUTH_TOKEN_FILE');
+  });
+
+  it('should name the per-wiki variable in errors', () => {
+    expect(() =>
+      loadWikiConfiguration({
+        WIKIS: 'team',
+        TIDDLYWIKI_URL_TEAM: 'http://team:8080',
+        AUTH_MODE_TEAM: 'bearer',
+      })
+    ).toThrow('AUTH_TOKEN_TEAM (or AUTH_TOKEN) is required for AUTH_MODE=bearer');
+  });
+});
+
+describe('wikiEnvSuffix', () => {
+  it('should uppercase and replace non-alphanumerics', () => {
+    expect(wikiEnvSuffix('team-notes')).toBe('TEAM_NOTES');
+    expect(wikiEnvSuffix('Journal2')).toBe('JOURNAL2');
+  });
+});
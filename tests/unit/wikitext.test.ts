@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseStringArray,
+  stringifyList,
+  replaceInList,
+  addToList,
+  removeFromList,
+  rewriteReferences,
+  extractLinks,
+  interleaveSections,
+} from '../../src/wikitext.js';
+
+describe('wikitext', () => {
+  describe('parseStringArray', () => {
+    it('should split on whitespace and honour [[bracketed]] titles', () => {
+      expect(parseStringArray('Journal [[Project Alpha]] todo')).toEqual([
+        'Journal',
+        'Project Alpha',
+        'todo',
+      ]);
+    });
+
+    it('should drop duplicates and handle empty input', () => {
+      expect(parseStringArray('a b a')).toEqual(['a', 'b']);
+      expect(parseStringArray('')).toEqual([]);
+      expect(parseStringArray(undefined)).toEqual([]);
+    });
+
+    it('should treat brackets inside a word as part of the title', () => {
+      expect(parseStringArray('foo[[bar]]')).toEqual(['foo[[bar]]']);
+    });
+  });
+
+  describe('stringifyList', () => {
+    it('should bracket titles containing spaces', () => {
+      expect(stringifyList(['Journal', 'Project Alpha'])).toBe('Journal [[Project Alpha]]');
+    });
+
+    it('should round-trip through parseStringArray', () => {
+      const titles = ['one', 'two words', 'x'];
+      expect(parseStringArray(stringifyList(titles))).toEqual(titles);
+    });
+  });
+
+  describe('replaceInList', () => {
+    it('should replace a title and keep order', () => {
+      expect(replaceInList('a [[Old Title]] c', 'Old Title', 'New')).toBe('a New c');
+    });
+
+    it('should return the value unchanged when the title is absent', () => {
+      expect(replaceInList('a b', 'c', 'd')).toBe('a b');
+      expect(replaceInList(undefined, 'c', 'd')).toBeUndefined();
+    });
+
+    it('should not duplicate the new title', () => {
+      expect(replaceInList('Old New', 'Old', 'New')).toBe('New');
+    });
+  });
+
+  describe('addToList / removeFromList', () => {
+    it('should add missing titles with brackets where needed', () => {
+      expect(addToList('[[Project Alpha]] todo', ['todo', 'Multi Word'])).toBe(
+        '[[Project Alpha]] todo [[Multi Word]]'
+      );
+      expect(addToList(undefined, ['x'])).toBe('x');
+    });
+
+    it('should remove titles and leave the rest intact', () => {
+      expect(removeFromList('[[Project Alpha]] todo done', ['Project Alpha', 'done'])).toBe('todo');
+    });
+
+    it('should return the value unchanged when nothing changes', () => {
+      expect(addToList('a  b', ['a'])).toBe('a  b');
+      expect(removeFromList('a b', ['c'])).toBe('a b');
+    });
+  });
+
+  describe('rewriteReferences', () => {
+    const rename = (text: string) => rewriteReferences(text, 'Old Note', 'New Note');
+
+    it('should rewrite links', () => {
+      expect(rename('See [[Old Note]] and [[this|Old Note]].')).toBe(
+        'See [[New Note]] and [[this|New Note]].'
+      );
+    });
+
+    it('should rewrite transclusions and templates', () => {
+      expect(rename('{{Old Note}} {{Old Note!!caption}} {{Old Note##key}} {{Old Note||T}}')).toBe(
+        '{{New Note}} {{New Note!!caption}} {{New Note##key}} {{New Note||T}}'
+      );
+      expect(rename('{{X||Old Note}} {{||Old Note}}')).toBe('{{X||New Note}} {{||New Note}}');
+    });
+
+    it('should rewrite macro parameters and widget attributes', () => {
+      expect(rename(`<<toc "Old Note">> <<m param:'Old Note'>>`)).toBe(
+        `<<toc "New Note">> <<m param:'New Note'>>`
+      );
+      expect(rename('<$link to="Old Note">x</$link> <$transclude tiddler="""Old Note"""/>')).toBe(
+        '<$link to="New Note">x</$link> <$transclude tiddler="""New Note"""/>'
+      );
+    });
+
+    it('should rewrite bare macro parameters for single-word titles', () => {
+      expect(rewriteReferences('<<tag Old>> <<m x:Old>>', 'Old', 'New')).toBe('<<tag New>> <<m x:New>>');
+    });
+
+    it('should rewrite filter operands', () => {
+      expect(rename('<$list filter="[tag[Old Note]sort[]]"/>')).toBe(
+        '<$list filter="[tag[New Note]sort[]]"/>'
+      );
+    });
+
+    it('should rewrite Markdown links', () => {
+      expect(rename('[read](#Old%20Note)')).toBe('[read](#New%20Note)');
+    });
+
+    it('should leave plain mentions and longer titles alone', () => {
+      const text = 'Old Note is mentioned. [[Old Note 2]] {{Old Notes}}';
+      expect(rename(text)).toBe(text);
+    });
+
+    it('should treat regex characters in titles literally', () => {
+      expect(rewriteReferences('[[a.b (c)]] [[axb (c)]]', 'a.b (c)', 'd')).toBe('[[d]] [[axb (c)]]');
+    });
+  });
+
+  describe('extractLinks', () => {
+    it('should find links, transclusions, templates and widget targets', () => {
+      const text =
+        'See [[Plain]] and [[caption|Target]], {{Embed!!field}}, {{Item||Tmpl}}, ' +
+        '<$link to="Linked">x</$link> <$transclude $tiddler="Included"/>';
+
+      expect(extractLinks(text, false)).toEqual([
+        'Plain',
+        'Target',
+        'Embed',
+        'Item',
+        'Tmpl',
+        'Linked',
+        'Included',
+      ]);
+    });
+
+    it('should skip code, external links and filtered transclusions', () => {
+      const text = '`[[InCode]]` [[site|https://example.com]] {{{ [tag[x]] }}}\n```\n[[Fenced]]\n```';
+
+      expect(extractLinks(text, true)).toEqual([]);
+    });
+
+    it('should find CamelCase words in wikitext only', () => {
+      expect(extractLinks('A WikiWord and ~NotLinked', false)).toEqual(['WikiWord']);
+      expect(extractLinks('A WikiWord', true)).toEqual([]);
+    });
+
+    it('should decode Markdown anchor links', () => {
+      expect(extractLinks('[read](#My%20Note)', true)).toEqual(['My Note']);
+    });
+  });
+
+  describe('interleaveSections', () => {
+    it('should group bodies under matching headings in order of first appearance', () => {
+      const merged = interleaveSections(
+        [
+          'Intro A\n\n! Ingredients\nOnion\n\n! Steps\nChop',
+          'Intro B\n\n! Steps\nSimmer\n\n! ingredients\nLeek\n\n! Notes\nTasty',
+        ],
+        false
+      );
+
+      expect(merged).toBe(
+        'Intro A\n\nIntro B\n\n! Ingredients\n\nOnion\n\nLeek\n\n! Steps\n\nChop\n\nSimmer\n\n! Notes\n\nTasty'
+      );
+    });
+
+    it('should keep identical sections once and use Markdown headings for Markdown', () => {
+      const merged = interleaveSections(
+        ['# Plan\nSame', '# Plan\nSame\n\n## Later\nMore'],
+        true
+      );
+
+      expect(merged).toBe('# Plan\n\nSame\n\n## Later\n\nMore');
+    });
+
+    it('should join texts without headings as lead-ins', () => {
+      expect(interleaveSections(['One', '', 'Two'], false)).toBe('One\n\nTwo');
+    });
+  });
+});